@@ -0,0 +1,66 @@
+// BehaviorDebugOverlay.tsx - Active Behavior Tree Node per Enemy
+import React, { useState } from 'react';
+import { Network } from 'lucide-react';
+
+// ==================== INTERFACES ====================
+
+interface EnemyBehavior {
+  id: string;
+  type: string;
+  behavior: string;
+  /** Moves per level move interval; sprints and slow patrols move it off 1 */
+  speed: number;
+  /** Node names from the tree's root to the node that decided the last tick */
+  activePath: string[];
+}
+
+interface BehaviorDebugOverlayProps {
+  enemies: EnemyBehavior[];
+}
+
+// ==================== MAIN COMPONENT ====================
+
+/**
+ * Collapsible corner panel for tuning enemy trees: which branch each enemy
+ * took on its last tick, ending at the action it settled on
+ */
+const BehaviorDebugOverlay: React.FC<BehaviorDebugOverlayProps> = ({ enemies }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="absolute top-2 left-2 z-20 max-w-[70%] text-xs">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`flex items-center gap-1 px-2 py-1 rounded-lg text-white transition-colors ${
+          isOpen ? 'bg-purple-600/90 hover:bg-purple-600' : 'bg-black/50 hover:bg-black/70'
+        }`}
+        title={isOpen ? 'Hide behavior trees' : 'Show behavior trees'}
+      >
+        <Network size={14} />
+        Behavior
+      </button>
+
+      {isOpen && (
+        <div className="mt-1 p-2 space-y-1 rounded-lg bg-black/75 text-white font-mono">
+          {enemies.length === 0 && <div className="text-white/60">No enemies</div>}
+          {enemies.map(enemy => {
+            const branch = enemy.activePath.slice(0, -1);
+            const node = enemy.activePath[enemy.activePath.length - 1];
+            return (
+              <div key={enemy.id}>
+                <span className="text-purple-300">{enemy.id}</span>{' '}
+                <span className="text-white/60">({enemy.type}, {enemy.behavior}, ×{enemy.speed.toFixed(1)})</span>
+                <div className="pl-2 break-words">
+                  {branch.length > 0 && <span className="text-white/60">{branch.join(' › ')} › </span>}
+                  <span className="text-yellow-300">{node ?? '-'}</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BehaviorDebugOverlay;
@@ -0,0 +1,295 @@
+// CanvasMazeRenderer.tsx - Canvas Renderer for Large Mazes
+import React, { useRef, useEffect } from 'react';
+import { CELL_TYPES } from '../types/game.types';
+import { GAME_CONFIG } from '../utilities/gameConstant';
+import { type SpriteAtlas, type SpriteName, getSpriteAtlas, drawAtlasSprite, getChannelSprite } from '../services/spriteAtlas';
+import { getChannelCellInfo } from '../utilities/hazards';
+import { type MazeRendererProps, MazeLegend } from './MazeRenderer';
+
+// ==================== INTERFACES ====================
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+/** A sprite gliding from one cell to the next */
+interface Motion {
+  from: Position;
+  to: Position;
+  startedAt: number;
+}
+
+/** What is on the canvas, so the next frame repaints only what changed */
+interface DrawnFrame {
+  canvas: HTMLCanvasElement;
+  atlas: SpriteAtlas;
+  width: number;
+  height: number;
+  /** Cell value, visibility and route marking per cell index (y * width + x) */
+  cells: string[];
+  /** Cell indices sprites were drawn over */
+  covered: number[];
+}
+
+type CellVisibility = 'visible' | 'remembered' | 'hidden';
+
+// ==================== CONSTANTS ====================
+
+/** Sprites glide between cells as fast as the player can move */
+const MOVE_DURATION = GAME_CONFIG.MOVE_COOLDOWN;
+
+/** Matches the DOM renderer, which dims remembered cells to 40% */
+const REMEMBERED_DIM = 0.6;
+const GHOST_ALPHA = 0.4;
+/** Matches the DOM renderer's faded player while invulnerable */
+const INVULNERABLE_ALPHA = 0.5;
+
+const CELL_SPRITES: Record<number, SpriteName> = {
+  [CELL_TYPES.PATH]: 'path',
+  [CELL_TYPES.WALL]: 'wall',
+  [CELL_TYPES.PLAYER]: 'path',
+  [CELL_TYPES.EXIT]: 'exit',
+  [CELL_TYPES.COLLECTIBLE]: 'collectible',
+  [CELL_TYPES.ENEMY]: 'path',
+  [CELL_TYPES.CHECKPOINT]: 'checkpoint',
+  [CELL_TYPES.SPEED_BOOST]: 'speedBoost',
+  [CELL_TYPES.FREEZE]: 'freeze',
+  [CELL_TYPES.SHIELD]: 'shield',
+  [CELL_TYPES.TIME_BONUS]: 'timeBonus',
+  [CELL_TYPES.REVEAL]: 'reveal',
+  [CELL_TYPES.CONVEYOR_UP]: 'conveyorUp',
+  [CELL_TYPES.CONVEYOR_DOWN]: 'conveyorDown',
+  [CELL_TYPES.CONVEYOR_LEFT]: 'conveyorLeft',
+  [CELL_TYPES.CONVEYOR_RIGHT]: 'conveyorRight',
+  [CELL_TYPES.CRUMBLING]: 'crumbling'
+};
+
+// ==================== HELPERS ====================
+
+/**
+ * Sprite for a maze value; channeled cells each have their own, unknown values draw as walls
+ */
+const getCellSprite = (cell: number): SpriteName => {
+  const info = getChannelCellInfo(cell);
+  return info ? getChannelSprite(info.kind, info.channel) : CELL_SPRITES[cell] ?? 'wall';
+};
+
+const getMotionPosition = (motion: Motion, now: number, animate: boolean): Position => {
+  const progress = animate ? Math.min(1, Math.max(0, (now - motion.startedAt) / MOVE_DURATION)) : 1;
+  return {
+    x: motion.from.x + (motion.to.x - motion.from.x) * progress,
+    y: motion.from.y + (motion.to.y - motion.from.y) * progress
+  };
+};
+
+const isMoving = (motion: Motion, now: number): boolean => {
+  return now - motion.startedAt < MOVE_DURATION
+    && (motion.from.x !== motion.to.x || motion.from.y !== motion.to.y);
+};
+
+/**
+ * Head for a new cell from wherever the sprite is now; anything further than
+ * a step away (a respawn, a reset) jumps there instead of sliding across walls
+ */
+const retarget = (motion: Motion | undefined, to: Position, now: number): Motion => {
+  if (motion && motion.to.x === to.x && motion.to.y === to.y) return motion;
+  if (!motion) return { from: to, to, startedAt: now };
+
+  const current = getMotionPosition(motion, now, true);
+  const jump = Math.abs(to.x - current.x) + Math.abs(to.y - current.y) > 1.5;
+  return { from: jump ? { ...to } : current, to: { ...to }, startedAt: now };
+};
+
+/**
+ * Cell indices a sprite at a possibly fractional position overlaps
+ */
+const getCoveredCells = (pos: Position, width: number, height: number): number[] => {
+  const cells: number[] = [];
+  for (let y = Math.floor(pos.y); y <= Math.ceil(pos.y); y++) {
+    for (let x = Math.floor(pos.x); x <= Math.ceil(pos.x); x++) {
+      if (x >= 0 && x < width && y >= 0 && y < height) {
+        cells.push(y * width + x);
+      }
+    }
+  }
+  return cells;
+};
+
+// ==================== MAIN COMPONENT ====================
+
+/**
+ * Draws the maze onto a single canvas from a per-theme sprite atlas. Only
+ * cells that changed, or that a sprite moved over, are repainted each frame,
+ * and sprites glide between cells. Takes the same props as `MazeRenderer`.
+ */
+const CanvasMazeRenderer: React.FC<MazeRendererProps> = ({
+  maze,
+  playerPos,
+  enemies = [],
+  ghostPos = null,
+  visibility,
+  cellSize = 20,
+  showGrid = false,
+  animations = true,
+  theme = 'default',
+  onCellClick,
+  bare = false,
+  playerInvulnerable = false,
+  revealedPath = null
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const motionsRef = useRef(new Map<string, Motion>());
+  const frameRef = useRef<DrawnFrame | null>(null);
+  const animationRef = useRef<number | null>(null);
+
+  const isValidMaze = maze && maze.length > 0 && maze[0] && maze[0].length > 0;
+  const width = isValidMaze ? maze[0].length : 0;
+  const height = isValidMaze ? maze.length : 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || width === 0) return;
+
+    // Point every sprite at its new cell; the ghost and enemies come and go
+    const now = performance.now();
+    const motions = motionsRef.current;
+    const targets = new Map<string, Position>([
+      ...(ghostPos ? [['ghost', ghostPos] as const] : []),
+      ...enemies.map((enemy, index) => [`enemy-${index}`, enemy] as const),
+      ['player', playerPos]
+    ]);
+    motions.forEach((_, id) => {
+      if (!targets.has(id)) motions.delete(id);
+    });
+    targets.forEach((pos, id) => motions.set(id, retarget(motions.get(id), pos, now)));
+
+    // A new canvas, atlas or size starts blank, so everything gets repainted
+    const scale = window.devicePixelRatio || 1;
+    const atlas = getSpriteAtlas(theme, cellSize, scale, showGrid);
+    let frame = frameRef.current;
+    if (!frame || frame.canvas !== canvas || frame.atlas !== atlas || frame.width !== width || frame.height !== height) {
+      canvas.width = Math.round(width * cellSize * scale);
+      canvas.height = Math.round(height * cellSize * scale);
+      canvas.style.width = `${width * cellSize}px`;
+      canvas.style.height = `${height * cellSize}px`;
+      ctx.setTransform(scale, 0, 0, scale, 0, 0);
+      frame = { canvas, atlas, width, height, cells: [], covered: [] };
+      frameRef.current = frame;
+    }
+    const drawn = frame;
+
+    const getVisibility = (x: number, y: number): CellVisibility => {
+      if (!visibility || visibility.visible.has(`${x},${y}`)) return 'visible';
+      return visibility.explored.has(`${x},${y}`) ? 'remembered' : 'hidden';
+    };
+    const routeCells = new Set(revealedPath?.map(pos => pos.y * width + pos.x));
+    const cells = maze.flatMap((row, y) => row.map((value, x) =>
+      `${value}:${getVisibility(x, y)}:${routeCells.has(y * width + x)}`
+    ));
+
+    const drawCell = (index: number) => {
+      const x = index % width;
+      const y = Math.floor(index / width);
+      const cellVisibility = getVisibility(x, y);
+
+      const sprite = cellVisibility === 'hidden' ? 'fog' : getCellSprite(maze[y][x]);
+      drawAtlasSprite(ctx, atlas, sprite, x * cellSize, y * cellSize);
+      if (cellVisibility === 'remembered') {
+        ctx.globalAlpha = REMEMBERED_DIM;
+        drawAtlasSprite(ctx, atlas, 'fog', x * cellSize, y * cellSize);
+        ctx.globalAlpha = 1;
+      }
+      // The revealed route shows even through fog
+      if (routeCells.has(index)) {
+        drawAtlasSprite(ctx, atlas, 'route', x * cellSize, y * cellSize);
+      }
+    };
+
+    const draw = (time: number): boolean => {
+      const sprites = [...motions].map(([id, motion]) => ({
+        id,
+        motion,
+        pos: getMotionPosition(motion, time, animations)
+      }));
+
+      const covered = new Set(sprites.flatMap(sprite => getCoveredCells(sprite.pos, width, height)));
+      const dirty = new Set([...drawn.covered, ...covered]);
+      cells.forEach((cell, index) => {
+        if (drawn.cells[index] !== cell) dirty.add(index);
+      });
+      dirty.forEach(drawCell);
+
+      // Enemies and the ghost only show while the cell they're heading to is in sight
+      sprites.forEach(({ id, motion, pos }) => {
+        if (id !== 'player' && getVisibility(motion.to.x, motion.to.y) !== 'visible') return;
+
+        if (id === 'ghost') ctx.globalAlpha = GHOST_ALPHA;
+        if (id === 'player' && playerInvulnerable) ctx.globalAlpha = INVULNERABLE_ALPHA;
+        const sprite = id.startsWith('enemy') ? 'enemy' : 'player';
+        drawAtlasSprite(ctx, atlas, sprite, pos.x * cellSize, pos.y * cellSize);
+        ctx.globalAlpha = 1;
+      });
+
+      drawn.cells = cells;
+      drawn.covered = [...covered];
+      return animations && sprites.some(sprite => isMoving(sprite.motion, time));
+    };
+
+    const tick = (time: number) => {
+      animationRef.current = draw(time) ? requestAnimationFrame(tick) : null;
+    };
+    tick(now);
+
+    return () => {
+      if (animationRef.current !== null) {
+        cancelAnimationFrame(animationRef.current);
+        animationRef.current = null;
+      }
+    };
+  }, [maze, playerPos, enemies, ghostPos, visibility, cellSize, showGrid, animations, theme, playerInvulnerable, revealedPath, width, height]);
+
+  const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!onCellClick) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = Math.floor((event.clientX - rect.left) / cellSize);
+    const y = Math.floor((event.clientY - rect.top) / cellSize);
+    if (x >= 0 && x < width && y >= 0 && y < height) {
+      onCellClick(x, y);
+    }
+  };
+
+  if (!isValidMaze) {
+    return (
+      <div className="flex items-center justify-center p-8 bg-gray-100 rounded-lg">
+        <div className="text-center text-gray-500">
+          <div className="text-2xl mb-2">🎮</div>
+          <div>Loading maze...</div>
+        </div>
+      </div>
+    );
+  }
+
+  const canvas = (
+    <canvas
+      ref={canvasRef}
+      onClick={handleClick}
+      className={`block ${onCellClick ? 'cursor-pointer' : ''}`}
+    />
+  );
+
+  if (bare) return canvas;
+
+  return (
+    <div className="flex flex-col items-center">
+      <div className="maze-container bg-white p-4 rounded-xl shadow-2xl border-2 border-gray-200">
+        {canvas}
+      </div>
+
+      <MazeLegend showGhost={!!ghostPos} maze={maze} />
+    </div>
+  );
+};
+
+export default CanvasMazeRenderer;
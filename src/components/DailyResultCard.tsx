@@ -0,0 +1,118 @@
+// DailyResultCard.tsx - Shareable Daily Challenge Result
+import React, { useState } from 'react';
+import { CalendarDays, Flame, Star, Clock, Footprints, Medal, ClipboardCopy, Send, Check } from 'lucide-react';
+import type { DailyResult } from '../types/game.types';
+import { formatDailyResult } from '../services/daily';
+
+// ==================== INTERFACES ====================
+
+interface DailyResultCardProps {
+  result: DailyResult;
+  streak: number;
+  /** Sends the score on chain; the button only shows when this is given */
+  onSubmitScore?: () => Promise<void>;
+}
+
+// ==================== CONSTANTS ====================
+
+const MEDAL_COLORS = {
+  gold: 'text-yellow-300',
+  silver: 'text-gray-200',
+  bronze: 'text-orange-400'
+};
+
+// ==================== MAIN COMPONENT ====================
+
+const DailyResultCard: React.FC<DailyResultCardProps> = ({ result, streak, onSubmitScore }) => {
+  const [copied, setCopied] = useState(false);
+  const [submitState, setSubmitState] = useState<'idle' | 'submitting' | 'submitted'>('idle');
+
+  const seconds = Math.round(result.timeMs / 1000);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatDailyResult(result, streak));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.warn('Failed to copy daily result:', error);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!onSubmitScore) return;
+    setSubmitState('submitting');
+    try {
+      await onSubmitScore();
+      setSubmitState('submitted');
+    } catch (error) {
+      console.warn('Failed to submit daily score:', error);
+      setSubmitState('idle');
+    }
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-indigo-600 to-purple-700 rounded-2xl p-5 text-white shadow-xl">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2 font-bold">
+          <CalendarDays size={20} />
+          Daily {result.date}
+        </div>
+        <div className="flex items-center gap-1 text-orange-300 font-bold" title="Daily streak">
+          <Flame size={18} />
+          {streak}
+        </div>
+      </div>
+
+      {/* Outcome */}
+      <div className="text-center mb-4">
+        <div className="text-4xl font-bold">{result.score.toLocaleString()}</div>
+        <div className="text-white/70 text-sm">{result.won ? 'Cleared' : result.unfinished ? 'Left unfinished' : 'Not cleared'}</div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-3 gap-2 text-center text-sm mb-4">
+        <div className="bg-white/10 rounded-lg py-2">
+          <Clock size={16} className="mx-auto mb-1" />
+          {Math.floor(seconds / 60)}:{(seconds % 60).toString().padStart(2, '0')}
+        </div>
+        <div className="bg-white/10 rounded-lg py-2">
+          <Footprints size={16} className="mx-auto mb-1" />
+          {result.moves} moves
+        </div>
+        <div className="bg-white/10 rounded-lg py-2">
+          {result.medal ? (
+            <Medal size={16} className={`mx-auto mb-1 ${MEDAL_COLORS[result.medal]}`} />
+          ) : (
+            <Star size={16} className="mx-auto mb-1 text-yellow-300" />
+          )}
+          {result.stars}/{result.collectibles} stars
+        </div>
+      </div>
+
+      {/* Actions */}
+      <div className="flex gap-2">
+        <button
+          onClick={handleCopy}
+          className="flex-1 flex items-center justify-center gap-2 bg-white/20 hover:bg-white/30 rounded-lg py-2 font-bold transition-colors"
+        >
+          {copied ? <Check size={16} /> : <ClipboardCopy size={16} />}
+          {copied ? 'Copied!' : 'Share'}
+        </button>
+        {onSubmitScore && (
+          <button
+            onClick={handleSubmit}
+            disabled={submitState !== 'idle'}
+            className="flex-1 flex items-center justify-center gap-2 bg-white/20 hover:bg-white/30 disabled:opacity-60 rounded-lg py-2 font-bold transition-colors"
+          >
+            {submitState === 'submitted' ? <Check size={16} /> : <Send size={16} />}
+            {submitState === 'submitting' ? 'Submitting...' : submitState === 'submitted' ? 'Submitted' : 'Submit On-Chain'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DailyResultCard;
@@ -1,6 +1,8 @@
 // GameHUD.tsx - Heads Up Display Component
 import React, { useEffect } from 'react';
-import { Clock, Star, Trophy, Target } from 'lucide-react';
+import { Clock, Star, Trophy, Target, Flag, Heart, Zap, Snowflake, Shield, Eye, KeyRound } from 'lucide-react';
+import type { StatusEffect, EffectType } from '../services/statusEffects';
+import { CHANNEL_NAMES, CHANNEL_COLORS } from '../utilities/hazards';
 
 // ==================== INTERFACES ====================
 
@@ -14,6 +16,17 @@ interface GameHUDProps {
   totalCollectibles: number;
   totalScore?: number;
   gameState: 'menu' | 'playing' | 'paused' | 'won' | 'lost' | 'completed';
+  /** Seconds behind (positive) or ahead (negative) of the personal best at the last pickup */
+  split?: number | null;
+  /** Endless runs have no last level, so only the depth is shown */
+  endless?: boolean;
+  /** Lives left this level, out of the difficulty's allowance */
+  lives?: number;
+  maxLives?: number;
+  /** Power-up effects still running */
+  effects?: StatusEffect[];
+  /** Channels of the keys picked up */
+  keys?: number[];
 }
 
 interface HUDStatProps {
@@ -25,6 +38,15 @@ interface HUDStatProps {
   isSuccess?: boolean;
 }
 
+// ==================== CONSTANTS ====================
+
+const EFFECT_BADGES: Record<EffectType, { icon: React.ReactNode; label: string; color: string }> = {
+  speed: { icon: <Zap size={14} />, label: 'Speed', color: 'bg-amber-500/80' },
+  freeze: { icon: <Snowflake size={14} />, label: 'Freeze', color: 'bg-cyan-500/80' },
+  shield: { icon: <Shield size={14} />, label: 'Shield', color: 'bg-indigo-500/80' },
+  reveal: { icon: <Eye size={14} />, label: 'Reveal', color: 'bg-fuchsia-500/80' }
+};
+
 // ==================== SUB-COMPONENTS ====================
 
 const HUDStat: React.FC<HUDStatProps> = ({
@@ -92,7 +114,13 @@ const GameHUD: React.FC<GameHUDProps> = ({
   collectedItems,
   totalCollectibles,
   totalScore = 0,
-  gameState
+  gameState,
+  split = null,
+  endless = false,
+  lives,
+  maxLives,
+  effects = [],
+  keys = []
 }) => {
   // Helper functions
   const formatTime = (seconds: number): string => {
@@ -124,7 +152,7 @@ const GameHUD: React.FC<GameHUDProps> = ({
           <HUDStat
             icon={<Target size={20} />}
             label="Level"
-            value={`${currentLevel + 1}/${totalLevels}`}
+            value={endless ? currentLevel + 1 : `${currentLevel + 1}/${totalLevels}`}
             subValue={levelName}
           />
 
@@ -144,6 +172,16 @@ const GameHUD: React.FC<GameHUDProps> = ({
             isWarning={getTimeWarning()}
           />
 
+          {/* Lives */}
+          {lives !== undefined && (
+            <HUDStat
+              icon={<Heart size={20} />}
+              label="Lives"
+              value={maxLives ? `${lives}/${maxLives}` : lives}
+              isWarning={lives === 1 && maxLives !== 1 && gameState === 'playing'}
+            />
+          )}
+
           {/* Collectibles */}
           <HUDStat
             icon={<Star size={20} />}
@@ -151,18 +189,59 @@ const GameHUD: React.FC<GameHUDProps> = ({
             value={`${collectedItems}/${totalCollectibles}`}
             isSuccess={getCollectionSuccess()}
           />
+
+          {/* Split against personal best */}
+          {split !== null && (
+            <HUDStat
+              icon={<Flag size={20} />}
+              label="Split"
+              value={`${split > 0 ? '+' : split < 0 ? '-' : '±'}${Math.abs(split).toFixed(1)}s`}
+              subValue={split > 0 ? 'Behind best' : 'Ahead of best'}
+              isWarning={split > 0}
+              isSuccess={split <= 0}
+            />
+          )}
         </div>
 
+        {/* Active Power-ups and Keys Held */}
+        {(effects.length > 0 || keys.length > 0) && (
+          <div className="flex flex-wrap justify-center gap-2 mb-4">
+            {effects.map(({ type, remainingMs }) => (
+              <div
+                key={type}
+                className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-bold ${EFFECT_BADGES[type].color}`}
+              >
+                {EFFECT_BADGES[type].icon}
+                <span>{EFFECT_BADGES[type].label}</span>
+                <span className="opacity-75">
+                  {remainingMs === null ? 'Ready' : `${Math.ceil(remainingMs / 1000)}s`}
+                </span>
+              </div>
+            ))}
+            {keys.map(channel => (
+              <div
+                key={`key-${channel}`}
+                className="flex items-center gap-1 px-2 py-1 rounded-full text-xs font-bold bg-gray-700/80"
+              >
+                <KeyRound size={14} style={{ color: CHANNEL_COLORS[channel] }} />
+                <span>{CHANNEL_NAMES[channel]} Key</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Progress Bars */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className={`grid grid-cols-1 ${endless ? '' : 'md:grid-cols-2'} gap-4`}>
           
           {/* Level Progress */}
-          <ProgressBar
-            current={currentLevel + 1}
-            total={totalLevels}
-            color="bg-blue-500"
-            label="Game Progress"
-          />
+          {!endless && (
+            <ProgressBar
+              current={currentLevel + 1}
+              total={totalLevels}
+              color="bg-blue-500"
+              label="Game Progress"
+            />
+          )}
 
           {/* Collection Progress */}
           <ProgressBar
@@ -234,14 +313,15 @@ export const CompactGameHUD: React.FC<GameHUDProps> = ({
   timeLeft,
   collectedItems,
   totalCollectibles,
-  gameState
+  gameState,
+  endless = false
 }) => {
   if (gameState === 'menu') return null;
 
   return (
     <div className="w-full bg-black/30 backdrop-blur-md rounded-lg p-2 mb-2">
       <div className="flex justify-between items-center text-sm">
-        <span className="font-bold">L{currentLevel + 1}/{totalLevels}</span>
+        <span className="font-bold">L{currentLevel + 1}{!endless && `/${totalLevels}`}</span>
         <span className="font-bold">{score}</span>
         <span className={`font-bold ${timeLeft <= 10 ? 'text-red-400 animate-pulse' : ''}`}>
           {Math.floor(timeLeft / 60)}:{(timeLeft % 60).toString().padStart(2, '0')}
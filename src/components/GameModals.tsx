@@ -13,8 +13,13 @@ import {
   Target,
   Award,
   Crown,
-  PartyPopper
+  PartyPopper,
+  Film,
+  Medal,
+  CalendarDays
 } from 'lucide-react';
+import type { DailyResult } from '../types/game.types';
+import DailyResultCard from './DailyResultCard';
 
 // ==================== INTERFACES ====================
 
@@ -32,10 +37,16 @@ interface GameOverModalProps {
   isOpen: boolean;
   onRetry: () => void;
   onMenu: () => void;
+  onWatchReplay?: () => void;
   reason: 'timeout' | 'enemy' | 'quit';
   score: number;
   timeElapsed: number;
   level: number;
+  /** Lives enemies took this level, and lives still left when it ended */
+  livesLost?: number;
+  livesLeft?: number;
+  /** What took the last life, e.g. 'hunter'; 'basic' enemies go unnamed */
+  caughtBy?: string;
 }
 
 interface LevelCompleteModalProps {
@@ -43,6 +54,7 @@ interface LevelCompleteModalProps {
   onNextLevel: () => void;
   onReplay: () => void;
   onMenu: () => void;
+  onWatchReplay?: () => void;
   levelData: {
     number: number;
     name: string;
@@ -53,9 +65,28 @@ interface LevelCompleteModalProps {
     totalStars: number;
     timeLeft: number;
     perfectRun: boolean;
+    medal?: 'bronze' | 'silver' | 'gold';
+    moves?: number;
+    parMoves?: number;
+    /** Seconds taken and par seconds */
+    time?: number;
+    parTime?: number;
   };
 }
 
+interface DailyResultModalProps {
+  isOpen: boolean;
+  onPractice: () => void;
+  onMenu: () => void;
+  onWatchReplay?: () => void;
+  onSubmitScore?: () => Promise<void>;
+  /** The attempt that counts for the day */
+  result: DailyResult;
+  streak: number;
+  /** The run just finished, when it was a practice run after the counted one */
+  practice?: { won: boolean; score: number };
+}
+
 interface GameCompleteModalProps {
   isOpen: boolean;
   onPlayAgain: () => void;
@@ -180,17 +211,38 @@ const GameOverModal: React.FC<GameOverModalProps> = ({
   isOpen,
   onRetry,
   onMenu,
+  onWatchReplay,
   reason,
   score,
   timeElapsed,
-  level
+  level,
+  livesLost = 0,
+  livesLeft = 0,
+  caughtBy
 }) => {
+  const formatLives = (count: number): string => `${count} ${count === 1 ? 'life' : 'lives'}`;
+  const catcher = caughtBy && caughtBy !== 'basic'
+    ? `${/^[aeiou]/.test(caughtBy) ? 'an' : 'a'} ${caughtBy}`
+    : 'an enemy';
+
   const getReasonMessage = () => {
     switch (reason) {
       case 'timeout':
-        return { title: 'Time\'s Up!', message: 'You ran out of time!', icon: <Clock size={48} className="text-orange-500" /> };
+        return {
+          title: 'Time\'s Up!',
+          message: livesLeft > 0
+            ? `You ran out of time with ${formatLives(livesLeft)} to spare!`
+            : 'You ran out of time!',
+          icon: <Clock size={48} className="text-orange-500" />
+        };
       case 'enemy':
-        return { title: 'Game Over!', message: 'You were caught by an enemy!', icon: <Skull size={48} className="text-red-500" /> };
+        return {
+          title: 'Out of Lives!',
+          message: livesLost > 1
+            ? `Enemies caught you ${livesLost} times and took all ${formatLives(livesLost)}, the last to ${catcher}!`
+            : `You were caught by ${catcher} with no lives to spare!`,
+          icon: <Skull size={48} className="text-red-500" />
+        };
       default:
         return { title: 'Game Over!', message: 'Better luck next time!', icon: <Skull size={48} className="text-red-500" /> };
     }
@@ -246,6 +298,15 @@ const GameOverModal: React.FC<GameOverModalProps> = ({
             <RotateCcw size={20} />
             Try Again
           </button>
+          {onWatchReplay && (
+            <button
+              onClick={onWatchReplay}
+              className="flex items-center gap-2 bg-purple-500 hover:bg-purple-600 text-white px-6 py-3 rounded-lg font-bold transition-colors"
+            >
+              <Film size={20} />
+              Watch
+            </button>
+          )}
           <button
             onClick={onMenu}
             className="flex items-center gap-2 bg-gray-500 hover:bg-gray-600 text-white px-6 py-3 rounded-lg font-bold transition-colors"
@@ -264,6 +325,7 @@ const LevelCompleteModal: React.FC<LevelCompleteModalProps> = ({
   onNextLevel,
   onReplay,
   onMenu,
+  onWatchReplay,
   levelData
 }) => {
   const [showConfetti, setShowConfetti] = useState(false);
@@ -284,6 +346,13 @@ const LevelCompleteModal: React.FC<LevelCompleteModalProps> = ({
 
   const performance = getPerformanceRating();
 
+  const medalStyles = {
+    gold: { text: 'Gold', color: 'text-yellow-500', background: 'bg-yellow-50 border-yellow-300' },
+    silver: { text: 'Silver', color: 'text-gray-400', background: 'bg-gray-50 border-gray-300' },
+    bronze: { text: 'Bronze', color: 'text-orange-600', background: 'bg-orange-50 border-orange-300' }
+  };
+  const medal = levelData.medal && medalStyles[levelData.medal];
+
   return (
     <BaseModal isOpen={isOpen} animation="zoom" size="large">
       <div className="p-8 text-center relative overflow-hidden">
@@ -323,6 +392,26 @@ const LevelCompleteModal: React.FC<LevelCompleteModalProps> = ({
           <span className="text-2xl font-bold">{performance.text}</span>
         </div>
         
+        {/* Medal against par */}
+        {medal && (
+          <div className={`flex flex-wrap items-center justify-center gap-4 border-2 rounded-xl px-6 py-3 mb-6 ${medal.background}`}>
+            <div className={`flex items-center gap-2 ${medal.color}`}>
+              <Medal size={28} />
+              <span className="text-xl font-bold">{medal.text} Medal</span>
+            </div>
+            {levelData.moves !== undefined && levelData.parMoves !== undefined && (
+              <div className="text-sm text-gray-600">
+                Moves <span className="font-bold">{levelData.moves}</span> / par {levelData.parMoves}
+              </div>
+            )}
+            {levelData.time !== undefined && levelData.parTime !== undefined && (
+              <div className="text-sm text-gray-600">
+                Time <span className="font-bold">{levelData.time.toFixed(1)}s</span> / par {levelData.parTime.toFixed(1)}s
+              </div>
+            )}
+          </div>
+        )}
+        
         {/* Detailed Stats */}
         <div className="bg-gradient-to-r from-blue-50 to-purple-50 rounded-xl p-6 mb-6">
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -377,6 +466,16 @@ const LevelCompleteModal: React.FC<LevelCompleteModalProps> = ({
             Replay
           </button>
           
+          {onWatchReplay && (
+            <button
+              onClick={onWatchReplay}
+              className="flex items-center gap-2 bg-purple-500 hover:bg-purple-600 text-white px-6 py-4 rounded-lg font-bold transition-colors"
+            >
+              <Film size={20} />
+              Watch Run
+            </button>
+          )}
+          
           <button
             onClick={onMenu}
             className="flex items-center gap-2 bg-gray-500 hover:bg-gray-600 text-white px-6 py-4 rounded-lg font-bold transition-colors"
@@ -390,6 +489,73 @@ const LevelCompleteModal: React.FC<LevelCompleteModalProps> = ({
   );
 };
 
+const DailyResultModal: React.FC<DailyResultModalProps> = ({
+  isOpen,
+  onPractice,
+  onMenu,
+  onWatchReplay,
+  onSubmitScore,
+  result,
+  streak,
+  practice
+}) => {
+  return (
+    <BaseModal isOpen={isOpen} animation="zoom">
+      <div className="p-8 text-center">
+        
+        {/* Title */}
+        <div className="mb-4 flex justify-center">
+          <CalendarDays size={48} className="text-indigo-500" />
+        </div>
+        <h2 className="text-3xl font-bold text-gray-800 mb-2">
+          {practice ? 'Practice Run' : result.won ? 'Daily Cleared!' : 'Daily Over'}
+        </h2>
+        <p className="text-gray-600 mb-6">
+          {practice
+            ? `${practice.won ? 'Cleared' : 'Not cleared'} with ${practice.score.toLocaleString()} pts. Only your first attempt counts.`
+            : 'Only your first attempt counts. Come back tomorrow for a new maze!'}
+        </p>
+
+        {/* Counted Result */}
+        <div className="mb-6 text-left">
+          <DailyResultCard
+            result={result}
+            streak={streak}
+            onSubmitScore={onSubmitScore}
+          />
+        </div>
+        
+        {/* Action Buttons */}
+        <div className="flex flex-wrap gap-3 justify-center">
+          <button
+            onClick={onPractice}
+            className="flex items-center gap-2 bg-blue-500 hover:bg-blue-600 text-white px-6 py-3 rounded-lg font-bold transition-colors"
+          >
+            <RotateCcw size={20} />
+            Practice
+          </button>
+          {onWatchReplay && (
+            <button
+              onClick={onWatchReplay}
+              className="flex items-center gap-2 bg-purple-500 hover:bg-purple-600 text-white px-6 py-3 rounded-lg font-bold transition-colors"
+            >
+              <Film size={20} />
+              Watch
+            </button>
+          )}
+          <button
+            onClick={onMenu}
+            className="flex items-center gap-2 bg-gray-500 hover:bg-gray-600 text-white px-6 py-3 rounded-lg font-bold transition-colors"
+          >
+            <Home size={20} />
+            Main Menu
+          </button>
+        </div>
+      </div>
+    </BaseModal>
+  );
+};
+
 const GameCompleteModal: React.FC<GameCompleteModalProps> = ({
   isOpen,
   onPlayAgain,
@@ -565,6 +731,7 @@ export {
   BaseModal,
   GameOverModal,
   LevelCompleteModal,
+  DailyResultModal,
   GameCompleteModal,
   PauseModal
 };
@@ -572,6 +739,7 @@ export {
 export type {
   GameOverModalProps,
   LevelCompleteModalProps,
+  DailyResultModalProps,
   GameCompleteModalProps,
   PauseModalProps,
   SettingsModalProps
@@ -0,0 +1,261 @@
+// LevelEditor.tsx - Grid Level Editor
+import React, { useState, useEffect } from 'react';
+import {
+  Pencil,
+  Minus,
+  Square,
+  Undo2,
+  Redo2,
+  Play,
+  ClipboardCopy,
+  TriangleAlert,
+  CircleCheck,
+  CircleX
+} from 'lucide-react';
+import type { Level } from '../types/game.types';
+import { type EditorTool, type PaintShape, isVariantTool, levelToSource } from '../utilities/levelEditor';
+import { type ConveyorDirection, CHANNEL_NAMES, CHANNEL_COLORS } from '../utilities/hazards';
+import { getLevelPar } from '../utilities/levelPar';
+import type { LevelEditorHook } from '../hooks/useLevelEditor';
+import MazeRenderer from './MazeRenderer';
+
+// ==================== INTERFACES ====================
+
+interface LevelEditorProps {
+  editor: LevelEditorHook;
+  onTestPlay?: (level: Level) => void;
+  cellSize?: number;
+}
+
+// ==================== CONSTANTS ====================
+
+const TOOLS: { id: EditorTool; label: string; icon: React.ReactNode }[] = [
+  { id: 'wall', label: 'Wall', icon: <div className="w-3 h-3 bg-gray-900 rounded-sm border border-gray-500" /> },
+  { id: 'path', label: 'Path', icon: <div className="w-3 h-3 bg-gray-100 rounded-sm" /> },
+  { id: 'start', label: 'Start', icon: <span>😊</span> },
+  { id: 'exit', label: 'Exit', icon: <span>🚪</span> },
+  { id: 'collectible', label: 'Star', icon: <span>⭐</span> },
+  { id: 'checkpoint', label: 'Checkpoint', icon: <span>🚩</span> },
+  { id: 'speed', label: 'Speed', icon: <span>⚡</span> },
+  { id: 'freeze', label: 'Freeze', icon: <span>❄️</span> },
+  { id: 'shield', label: 'Shield', icon: <span>🛡️</span> },
+  { id: 'time', label: 'Time', icon: <span>⏳</span> },
+  { id: 'reveal', label: 'Reveal', icon: <span>👁️</span> },
+  { id: 'key', label: 'Key', icon: <span>🔑</span> },
+  { id: 'door', label: 'Door', icon: <span>🔒</span> },
+  { id: 'switch', label: 'Switch', icon: <span>🔘</span> },
+  { id: 'gate', label: 'Gate', icon: <span>🚧</span> },
+  { id: 'teleporter', label: 'Teleporter', icon: <span>🌀</span> },
+  { id: 'conveyor', label: 'Conveyor', icon: <span>➡️</span> },
+  { id: 'crumbling', label: 'Crumbling', icon: <div className="w-3 h-3 bg-amber-700 rounded-sm border border-dashed border-amber-300" /> },
+  { id: 'enemy', label: 'Enemy', icon: <span>👾</span> }
+];
+
+const DIRECTIONS: { id: ConveyorDirection; label: string }[] = [
+  { id: 'up', label: '⬆️' },
+  { id: 'down', label: '⬇️' },
+  { id: 'left', label: '⬅️' },
+  { id: 'right', label: '➡️' }
+];
+
+const SHAPES: { id: PaintShape; label: string; icon: React.ReactNode }[] = [
+  { id: 'pencil', label: 'Pencil', icon: <Pencil size={14} /> },
+  { id: 'line', label: 'Line', icon: <Minus size={14} className="-rotate-45" /> },
+  { id: 'rectangle', label: 'Fill', icon: <Square size={14} /> }
+];
+
+// ==================== MAIN COMPONENT ====================
+
+const LevelEditor: React.FC<LevelEditorProps> = ({ editor, onTestPlay, cellSize = 20 }) => {
+  const {
+    level,
+    tool,
+    shape,
+    paintOptions,
+    anchor,
+    validation,
+    canUndo,
+    canRedo,
+    setTool,
+    setShape,
+    setPaintOptions,
+    clickCell,
+    updateLevel,
+    undo,
+    redo
+  } = editor;
+
+  const [copyStatus, setCopyStatus] = useState<string | null>(null);
+
+  // Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const handleCopySource = async () => {
+    try {
+      await navigator.clipboard.writeText(levelToSource(level));
+      setCopyStatus('Copied!');
+    } catch (error) {
+      console.warn('Failed to copy level source:', error);
+      setCopyStatus('Copy failed');
+    }
+    setTimeout(() => setCopyStatus(null), 2000);
+  };
+
+  const par = validation.isValid ? getLevelPar(level) : null;
+  const toolButton = (active: boolean) =>
+    `flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+      active ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+    }`;
+
+  return (
+    <div className="space-y-4">
+      {/* Level Properties */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Name</label>
+          <input
+            type="text"
+            value={level.name}
+            onChange={(e) => updateLevel({ name: e.target.value })}
+            className="w-full bg-gray-700 rounded-lg px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Time Limit (s)</label>
+          <input
+            type="number"
+            min="10"
+            value={level.timeLimit}
+            onChange={(e) => updateLevel({ timeLimit: Math.max(10, parseInt(e.target.value, 10) || 10) })}
+            className="w-full bg-gray-700 rounded-lg px-3 py-2 text-sm"
+          />
+        </div>
+      </div>
+
+      {/* Tools */}
+      <div className="flex flex-wrap gap-2">
+        {TOOLS.map(({ id, label, icon }) => (
+          <button key={id} onClick={() => setTool(id)} className={toolButton(tool === id)}>
+            {icon}
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Variants: channel for keys, doors, switches, gates and teleporters; direction for conveyors */}
+      {isVariantTool(tool) && (
+        <div className="flex flex-wrap items-center gap-2">
+          {tool === 'conveyor'
+            ? DIRECTIONS.map(({ id, label }) => (
+              <button key={id} onClick={() => setPaintOptions({ direction: id })} className={toolButton(paintOptions.direction === id)}>
+                {label}
+              </button>
+            ))
+            : CHANNEL_NAMES.map((name, channel) => (
+              <button key={name} onClick={() => setPaintOptions({ channel })} className={toolButton(paintOptions.channel === channel)}>
+                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: CHANNEL_COLORS[channel] }} />
+                {name}
+              </button>
+            ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {SHAPES.map(({ id, label, icon }) => (
+          <button key={id} onClick={() => setShape(id)} className={toolButton(shape === id)}>
+            {icon}
+            {label}
+          </button>
+        ))}
+        <div className="flex-1" />
+        <button onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)" className={`${toolButton(false)} disabled:opacity-40`}>
+          <Undo2 size={14} />
+        </button>
+        <button onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Y)" className={`${toolButton(false)} disabled:opacity-40`}>
+          <Redo2 size={14} />
+        </button>
+      </div>
+
+      <div className="text-xs text-gray-400 h-4">
+        {anchor
+          ? `From (${anchor.x}, ${anchor.y}) - click the other end`
+          : shape !== 'pencil' && tool !== 'start' && tool !== 'exit'
+            ? 'Click the first corner'
+            : 'Click a cell to paint it'}
+      </div>
+
+      {/* Grid */}
+      <div className="flex justify-center overflow-auto">
+        <MazeRenderer
+          maze={level.maze}
+          playerPos={level.playerStart}
+          enemies={level.enemyPositions}
+          cellSize={cellSize}
+          showGrid={true}
+          animations={false}
+          onCellClick={clickCell}
+        />
+      </div>
+
+      {/* Validation */}
+      <div className="bg-gray-700 rounded-lg p-4 space-y-1 text-sm">
+        {validation.errors.map((error) => (
+          <div key={error} className="flex items-center gap-2 text-red-400">
+            <CircleX size={14} />
+            {error}
+          </div>
+        ))}
+        {validation.warnings.map((warning) => (
+          <div key={warning} className="flex items-center gap-2 text-yellow-400">
+            <TriangleAlert size={14} />
+            {warning}
+          </div>
+        ))}
+        {validation.isValid && (
+          <div className="flex items-center gap-2 text-green-400">
+            <CircleCheck size={14} />
+            Playable
+            {par && ` • par ${par.moves} moves / ${Math.ceil(par.timeMs / 1000)}s`}
+          </div>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={() => onTestPlay?.(level)}
+          disabled={!validation.isValid || !onTestPlay}
+          className="flex items-center justify-center gap-2 py-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 rounded-lg font-bold transition-colors"
+        >
+          <Play size={18} />
+          Test Play
+        </button>
+        <button
+          onClick={handleCopySource}
+          className="flex items-center justify-center gap-2 py-3 bg-gray-600 hover:bg-gray-500 rounded-lg font-bold transition-colors"
+        >
+          <ClipboardCopy size={18} />
+          {copyStatus ?? 'Copy as Code'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditor;
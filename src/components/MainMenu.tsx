@@ -13,8 +13,36 @@ import {
   Palette,
   Crown,
   Award,
-  Zap
+  Zap,
+  Film,
+  Upload,
+  Medal as MedalIcon,
+  Package,
+  Download,
+  Link,
+  Trash2,
+  Check,
+  Infinity as InfinityIcon,
+  CalendarDays,
+  Flame
 } from 'lucide-react';
+import { type Replay, decodeReplay, parseReplay } from '../services/replay';
+import { getDailyDate } from '../services/daily';
+import DailyResultCard from './DailyResultCard';
+import { GAME_CONFIG } from '../utilities/gameConstant';
+import { getTorchRadius } from '../services/gameEngine';
+import {
+  type LevelPack,
+  type PackLevel,
+  type PackLoadResult,
+  type PackProgress,
+  BUILT_IN_LEVEL_PACK,
+  BUILT_IN_PACK_ID,
+  loadLevelPack,
+  decodeLevelPack,
+  getPackCodeFromText,
+  getLevelPackShareUrl
+} from '../services/levelPacks';
 
 // ==================== INTERFACES ====================
 
@@ -25,8 +53,30 @@ interface MainMenuProps {
   playerStats?: PlayerStats;
   settings?: GameSettings;
   onSettingsChange?: (settings: GameSettings) => void;
+  replays?: Replay[];
+  onWatchReplay?: (replay: Replay) => void;
+  /** Best medal per level id in the active pack */
+  medals?: Record<number, Medal>;
+  /** Levels of the active pack */
+  levels?: PackLevel[];
+  packs?: LevelPack[];
+  activePackId?: string;
+  packProgress?: Record<string, PackProgress>;
+  onSelectPack?: (packId: string) => void;
+  onImportPack?: (pack: LevelPack) => void;
+  onRemovePack?: (packId: string) => void;
+  onStartEndless?: () => void;
+  /** Best endless runs, deepest first */
+  endlessRuns?: EndlessRun[];
+  onStartDaily?: () => void;
+  /** Today's counted daily attempt, once played */
+  dailyResult?: DailyResult;
+  dailyStreak?: number;
+  onSubmitDailyScore?: () => Promise<void>;
 }
 
+type Medal = 'bronze' | 'silver' | 'gold';
+
 interface HighScore {
   level: number;
   score: number;
@@ -34,6 +84,28 @@ interface HighScore {
   stars: number;
   date: string;
   perfect: boolean;
+  pack?: string;
+  medal?: Medal;
+  moves?: number;
+}
+
+interface EndlessRun {
+  levels: number;
+  score: number;
+  seed: number;
+  difficulty: 'easy' | 'normal' | 'hard';
+  date: string;
+}
+
+interface DailyResult {
+  date: string;
+  won: boolean;
+  score: number;
+  timeMs: number;
+  moves: number;
+  stars: number;
+  collectibles: number;
+  medal?: Medal;
 }
 
 interface PlayerStats {
@@ -52,6 +124,9 @@ interface GameSettings {
   theme: 'default' | 'neon' | 'forest' | 'space';
   controlStyle: 'compact' | 'comfortable' | 'large';
   animations: boolean;
+  fogOfWar: boolean;
+  torchRadius: number;
+  renderer: 'dom' | 'canvas';
 }
 
 interface MenuSection {
@@ -63,6 +138,18 @@ interface MenuSection {
 
 // ==================== SUB-COMPONENTS ====================
 
+const MEDAL_COLORS: Record<Medal, string> = {
+  gold: 'text-yellow-400',
+  silver: 'text-gray-300',
+  bronze: 'text-orange-500'
+};
+
+const MedalBadge: React.FC<{ medal: Medal; size?: number }> = ({ medal, size = 16 }) => (
+  <span title={`${medal[0].toUpperCase()}${medal.slice(1)} medal`} className={MEDAL_COLORS[medal]}>
+    <MedalIcon size={size} />
+  </span>
+);
+
 const AnimatedTitle: React.FC = () => {
   const [titleIndex, setTitleIndex] = useState(0);
   const titles = ['MAZE MASTER', '🎮 MAZE MASTER', '⭐ MAZE MASTER', '🏆 MAZE MASTER'];
@@ -103,13 +190,11 @@ const AnimatedTitle: React.FC = () => {
 const StartGameSection: React.FC<{
   onStartGame: () => void;
   onLevelSelect?: (levelIndex: number) => void;
-}> = ({ onStartGame, onLevelSelect }) => {
-  const levels = [
-    { name: 'Getting Started', difficulty: 'Easy', stars: 1 },
-    { name: 'The Chase', difficulty: 'Medium', stars: 3 },
-    { name: 'Labyrinth Master', difficulty: 'Hard', stars: 3 }
-  ];
-
+  medals?: Record<number, Medal>;
+  levels?: PackLevel[];
+  onStartEndless?: () => void;
+  daily?: React.ReactNode;
+}> = ({ onStartGame, onLevelSelect, medals = {}, levels = BUILT_IN_LEVEL_PACK.levels, onStartEndless, daily }) => {
   return (
     <div className="space-y-6">
       {/* Quick Start */}
@@ -125,6 +210,27 @@ const StartGameSection: React.FC<{
         </button>
       </div>
 
+      {/* Daily Challenge */}
+      {daily}
+
+      {/* Endless Mode */}
+      {onStartEndless && (
+        <div className="text-center">
+          <button
+            onClick={onStartEndless}
+            className="bg-white/10 hover:bg-white/20 text-white font-bold py-3 px-8 rounded-xl transition-all duration-200 hover:scale-105"
+          >
+            <div className="flex items-center gap-3">
+              <InfinityIcon size={24} />
+              <div className="text-left">
+                <div>Endless Mode</div>
+                <div className="text-white/70 text-sm font-normal">Generated mazes that keep getting harder</div>
+              </div>
+            </div>
+          </button>
+        </div>
+      )}
+
       {/* Level Select */}
       {onLevelSelect && (
         <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6">
@@ -132,21 +238,26 @@ const StartGameSection: React.FC<{
           <div className="grid gap-3">
             {levels.map((level, index) => (
               <button
-                key={index}
+                key={level.id}
                 onClick={() => onLevelSelect(index)}
                 className="bg-white/10 hover:bg-white/20 rounded-xl p-4 transition-all duration-200 hover:scale-102 group"
               >
                 <div className="flex items-center justify-between">
                   <div className="text-left">
                     <div className="text-white font-bold">{level.name}</div>
-                    <div className="text-white/70 text-sm">{level.difficulty}</div>
+                    <div className="text-white/70 text-sm">
+                      {level.timeLimit}s
+                      {level.metadata?.par && ` • par ${level.metadata.par.moves} moves`}
+                      {level.metadata?.author && ` • by ${level.metadata.author}`}
+                    </div>
                   </div>
                   <div className="flex items-center gap-2">
                     <div className="flex">
-                      {Array.from({ length: level.stars }).map((_, i) => (
+                      {Array.from({ length: Math.min(level.collectibles, 5) }).map((_, i) => (
                         <Star key={i} size={16} className="text-yellow-400 fill-current" />
                       ))}
                     </div>
+                    {medals[level.id] && <MedalBadge medal={medals[level.id]} size={18} />}
                     <Play size={16} className="text-white/70 group-hover:text-white" />
                   </div>
                 </div>
@@ -159,8 +270,63 @@ const StartGameSection: React.FC<{
   );
 };
 
-const HighScoresSection: React.FC<{ highScores?: HighScore[] }> = ({ highScores = [] }) => {
-  if (highScores.length === 0) {
+const DailySection: React.FC<{
+  onStartDaily: () => void;
+  result?: DailyResult;
+  streak?: number;
+  onSubmitScore?: () => Promise<void>;
+}> = ({ onStartDaily, result, streak = 0, onSubmitScore }) => {
+  // Played today: the counted result, with the maze still open for practice
+  if (result) {
+    return (
+      <div className="space-y-2">
+        <DailyResultCard result={result} streak={streak} onSubmitScore={onSubmitScore} />
+        <button
+          onClick={onStartDaily}
+          className="w-full text-white/70 hover:text-white text-sm py-1 transition-colors"
+        >
+          Practice today's maze
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <button
+      onClick={onStartDaily}
+      className="w-full bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700 text-white rounded-2xl p-4 transition-all duration-200 hover:scale-102 shadow-xl"
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3 text-left">
+          <CalendarDays size={28} />
+          <div>
+            <div className="font-bold text-lg">Daily Challenge</div>
+            <div className="text-white/80 text-sm">{getDailyDate()} • same maze for everyone, one attempt counts</div>
+          </div>
+        </div>
+        {streak > 0 && (
+          <div className="flex items-center gap-1 text-orange-300 font-bold" title="Daily streak">
+            <Flame size={20} />
+            {streak}
+          </div>
+        )}
+      </div>
+    </button>
+  );
+};
+
+const HighScoresSection: React.FC<{
+  highScores?: HighScore[];
+  packs?: LevelPack[];
+  endlessRuns?: EndlessRun[];
+}> = ({ highScores = [], packs = [], endlessRuns = [] }) => {
+  // Scores from other packs are labelled with the pack's name
+  const getPackName = (packId?: string) =>
+    packId && packId !== BUILT_IN_PACK_ID
+      ? packs.find(pack => pack.manifest.id === packId)?.manifest.name ?? packId
+      : null;
+
+  if (highScores.length === 0 && endlessRuns.length === 0) {
     return (
       <div className="text-center text-white/70 py-8">
         <Trophy size={48} className="mx-auto mb-4 opacity-50" />
@@ -172,6 +338,29 @@ const HighScoresSection: React.FC<{ highScores?: HighScore[] }> = ({ highScores
 
   return (
     <div className="space-y-4">
+      {endlessRuns.length > 0 && (
+        <div className="bg-white/10 backdrop-blur-sm rounded-xl p-4">
+          <h3 className="text-white font-bold mb-3 flex items-center gap-2">
+            <InfinityIcon size={18} />
+            Endless Runs
+          </h3>
+          <div className="space-y-2">
+            {endlessRuns.slice(0, 5).map((run, index) => (
+              <div key={`${run.seed}-${run.date}`} className="flex items-center justify-between text-sm">
+                <div className="flex items-center gap-3">
+                  <span className="text-white/50 w-4">{index + 1}</span>
+                  <span className="text-white font-bold">
+                    {run.levels} {run.levels === 1 ? 'level' : 'levels'}
+                  </span>
+                  <span className="text-white/60 capitalize">{run.difficulty}</span>
+                </div>
+                <span className="text-white/70">{run.score.toLocaleString()} pts</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {highScores.slice(0, 5).map((score, index) => (
         <div
           key={index}
@@ -188,17 +377,27 @@ const HighScoresSection: React.FC<{ highScores?: HighScore[] }> = ({ highScores
             </div>
             
             <div>
-              <div className="text-white font-bold">Level {score.level}</div>
+              <div className="text-white font-bold">
+                Level {score.level}
+                {getPackName(score.pack) && <span className="text-white/60 font-normal"> • {getPackName(score.pack)}</span>}
+              </div>
               <div className="text-white/70 text-sm flex items-center gap-2">
                 <span>{score.score.toLocaleString()} pts</span>
                 <span>•</span>
                 <span>{Math.floor(score.time / 60)}:{(score.time % 60).toString().padStart(2, '0')}</span>
+                {score.moves !== undefined && (
+                  <>
+                    <span>•</span>
+                    <span>{score.moves} moves</span>
+                  </>
+                )}
                 {score.perfect && <Crown size={14} className="text-yellow-400" />}
               </div>
             </div>
           </div>
           
           <div className="flex items-center gap-2">
+            {score.medal && <MedalBadge medal={score.medal} />}
             <div className="flex">
               {Array.from({ length: score.stars }).map((_, i) => (
                 <Star key={i} size={14} className="text-yellow-400 fill-current" />
@@ -211,6 +410,284 @@ const HighScoresSection: React.FC<{ highScores?: HighScore[] }> = ({ highScores
   );
 };
 
+const ReplaysSection: React.FC<{
+  replays?: Replay[];
+  onWatchReplay?: (replay: Replay) => void;
+}> = ({ replays = [], onWatchReplay }) => {
+  const [code, setCode] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const openReplay = (replay: Replay | null) => {
+    if (!replay) {
+      setImportError('That does not look like a valid replay.');
+      return;
+    }
+    setImportError(null);
+    onWatchReplay?.(replay);
+  };
+
+  const handleCodeImport = () => {
+    // Accept either a bare share code or a full share link
+    const trimmed = code.trim();
+    const fromLink = trimmed.includes('replay=')
+      ? new URLSearchParams(trimmed.slice(trimmed.indexOf('?'))).get('replay')
+      : null;
+    openReplay(decodeReplay(fromLink ?? trimmed));
+  };
+
+  const handleFileImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    openReplay(parseReplay(await file.text()));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Saved Runs */}
+      {replays.length === 0 ? (
+        <div className="text-center text-white/70 py-8">
+          <Film size={48} className="mx-auto mb-4 opacity-50" />
+          <p>No replays yet!</p>
+          <p className="text-sm">Your best run on each level is saved here.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {replays.map((replay) => (
+            <div
+              key={replay.levelId}
+              className="bg-white/10 backdrop-blur-sm rounded-xl p-4 flex items-center justify-between hover:bg-white/15 transition-colors"
+            >
+              <div>
+                <div className="text-white font-bold">Level {replay.levelId}</div>
+                <div className="text-white/70 text-sm flex items-center gap-2">
+                  <span className="capitalize">{replay.difficulty}</span>
+                  <span>•</span>
+                  <span>{(replay.durationMs / 1000).toFixed(1)}s</span>
+                  <span>•</span>
+                  <span>{replay.result === 'won' ? 'Cleared' : 'Failed'}</span>
+                </div>
+              </div>
+              {onWatchReplay && (
+                <button
+                  onClick={() => onWatchReplay(replay)}
+                  className="flex items-center gap-2 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
+                >
+                  <Play size={16} />
+                  Watch
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Import */}
+      {onWatchReplay && (
+        <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6">
+          <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+            <Upload size={20} />
+            Open a Replay
+          </h3>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Paste a replay link or code"
+              className="flex-1 bg-white/10 text-white placeholder-white/40 rounded-lg px-3 py-2 text-sm"
+            />
+            <button
+              onClick={handleCodeImport}
+              disabled={!code.trim()}
+              className="bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
+            >
+              Open
+            </button>
+          </div>
+          <label className="mt-3 inline-flex items-center gap-2 text-sm text-white/70 hover:text-white cursor-pointer">
+            <input type="file" accept="application/json,.json" onChange={handleFileImport} className="hidden" />
+            <Upload size={14} />
+            Load replay file
+          </label>
+          {importError && <p className="mt-2 text-sm text-red-400">{importError}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const downloadLevelPack = (pack: LevelPack) => {
+  const blob = new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `maze-pack-${pack.manifest.id}-${pack.manifest.version}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const PacksSection: React.FC<{
+  packs?: LevelPack[];
+  activePackId?: string;
+  packProgress?: Record<string, PackProgress>;
+  onSelectPack?: (packId: string) => void;
+  onImportPack?: (pack: LevelPack) => void;
+  onRemovePack?: (packId: string) => void;
+}> = ({
+  packs = [BUILT_IN_LEVEL_PACK],
+  activePackId = BUILT_IN_PACK_ID,
+  packProgress = {},
+  onSelectPack,
+  onImportPack,
+  onRemovePack
+}) => {
+  const [code, setCode] = useState('');
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [copiedPackId, setCopiedPackId] = useState<string | null>(null);
+
+  const installPack = ({ pack, errors }: PackLoadResult) => {
+    if (!pack) {
+      setImportErrors(errors);
+      return;
+    }
+    setImportErrors([]);
+    setCode('');
+    onImportPack?.(pack);
+  };
+
+  const handleFileImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    installPack(loadLevelPack(await file.text()));
+  };
+
+  const handleCopyLink = async (pack: LevelPack) => {
+    try {
+      await navigator.clipboard.writeText(getLevelPackShareUrl(pack));
+      setCopiedPackId(pack.manifest.id);
+      setTimeout(() => setCopiedPackId(null), 2000);
+    } catch (error) {
+      console.warn('Failed to copy level pack link:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Installed Packs */}
+      <div className="space-y-4">
+        {packs.map((pack) => {
+          const { manifest, levels } = pack;
+          const progress = packProgress[manifest.id];
+          const isActive = manifest.id === activePackId;
+          return (
+            <div
+              key={manifest.id}
+              className={`backdrop-blur-sm rounded-xl p-4 transition-colors ${
+                isActive ? 'bg-blue-500/30 border border-blue-400/50' : 'bg-white/10 hover:bg-white/15'
+              }`}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="text-white font-bold">
+                    {manifest.name} <span className="text-white/50 text-sm font-normal">v{manifest.version}</span>
+                  </div>
+                  <div className="text-white/70 text-sm">
+                    {levels.length} levels
+                    {manifest.author && ` • by ${manifest.author}`}
+                    {` • ${progress?.completed.length ?? 0}/${levels.length} cleared`}
+                  </div>
+                  {manifest.description && (
+                    <div className="text-white/50 text-xs mt-1">{manifest.description}</div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {isActive ? (
+                    <span className="flex items-center gap-1 text-green-400 text-sm font-semibold">
+                      <Check size={16} />
+                      Selected
+                    </span>
+                  ) : onSelectPack && (
+                    <button
+                      onClick={() => onSelectPack(manifest.id)}
+                      className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors"
+                    >
+                      Select
+                    </button>
+                  )}
+                  <button
+                    onClick={() => downloadLevelPack(pack)}
+                    title="Export file"
+                    className="p-2 text-white/70 hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+                  >
+                    <Download size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleCopyLink(pack)}
+                    title="Copy share link"
+                    className="p-2 text-white/70 hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+                  >
+                    {copiedPackId === manifest.id ? <Check size={16} /> : <Link size={16} />}
+                  </button>
+                  {manifest.id !== BUILT_IN_PACK_ID && onRemovePack && (
+                    <button
+                      onClick={() => onRemovePack(manifest.id)}
+                      title="Remove pack"
+                      className="p-2 text-red-300 hover:text-red-200 hover:bg-red-500/20 rounded-lg transition-colors"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Import */}
+      {onImportPack && (
+        <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6">
+          <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+            <Upload size={20} />
+            Add a Level Pack
+          </h3>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Paste a pack link or code"
+              className="flex-1 bg-white/10 text-white placeholder-white/40 rounded-lg px-3 py-2 text-sm"
+            />
+            <button
+              onClick={() => installPack(decodeLevelPack(getPackCodeFromText(code)))}
+              disabled={!code.trim()}
+              className="bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-semibold transition-colors"
+            >
+              Add
+            </button>
+          </div>
+          <label className="mt-3 inline-flex items-center gap-2 text-sm text-white/70 hover:text-white cursor-pointer">
+            <input type="file" accept="application/json,.json" onChange={handleFileImport} className="hidden" />
+            <Upload size={14} />
+            Load pack file
+          </label>
+          {importErrors.length > 0 && (
+            <ul className="mt-2 text-sm text-red-400 space-y-1">
+              {importErrors.slice(0, 5).map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+              {importErrors.length > 5 && <li>…and {importErrors.length - 5} more</li>}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
 const StatsSection: React.FC<{ stats?: PlayerStats }> = ({ stats }) => {
   if (!stats) {
     return (
@@ -238,7 +715,7 @@ const StatsSection: React.FC<{ stats?: PlayerStats }> = ({ stats }) => {
       <div className="text-center bg-white/10 backdrop-blur-md rounded-2xl p-6">
         <Crown size={48} className={`mx-auto mb-4 ${getRankColor()}`} />
         <h3 className="text-2xl font-bold text-white mb-2">Maze {stats.rank}</h3>
-        <p className="text-white/70">Current Streak: {stats.currentStreak} games</p>
+        <p className="text-white/70">Current Streak: {stats.currentStreak} days</p>
       </div>
 
       {/* Stats Grid */}
@@ -372,6 +849,39 @@ const SettingsSection: React.FC<{
               ))}
             </div>
           </div>
+          
+          <div className="flex items-center justify-between">
+            <span className="text-white">Fog of War</span>
+            <button
+              onClick={() => handleSettingChange('fogOfWar', !settings.fogOfWar)}
+              className={`w-12 h-6 rounded-full transition-colors ${
+                settings.fogOfWar ? 'bg-green-500' : 'bg-gray-400'
+              }`}
+            >
+              <div className={`w-5 h-5 bg-white rounded-full transition-transform ${
+                settings.fogOfWar ? 'translate-x-6' : 'translate-x-0.5'
+              }`} />
+            </button>
+          </div>
+          
+          {settings.fogOfWar && (
+            <div>
+              <div className="flex justify-between text-white mb-2">
+                <span>Torch Radius</span>
+                <span className="text-white/70">
+                  {getTorchRadius(settings.torchRadius, settings.difficulty)} cells on {settings.difficulty}
+                </span>
+              </div>
+              <input
+                type="range"
+                min={GAME_CONFIG.FOG.MIN_TORCH_RADIUS}
+                max={GAME_CONFIG.FOG.MAX_TORCH_RADIUS}
+                value={settings.torchRadius}
+                onChange={(e) => handleSettingChange('torchRadius', parseInt(e.target.value))}
+                className="w-full accent-blue-500"
+              />
+            </div>
+          )}
         </div>
       </div>
 
@@ -408,6 +918,28 @@ const SettingsSection: React.FC<{
             </div>
           </div>
           
+          <div>
+            <label className="block text-white mb-2">Renderer</label>
+            <div className="flex gap-2">
+              {[
+                { key: 'dom', name: 'Standard' },
+                { key: 'canvas', name: 'Canvas (large mazes)' }
+              ].map((renderer) => (
+                <button
+                  key={renderer.key}
+                  onClick={() => handleSettingChange('renderer', renderer.key)}
+                  className={`px-4 py-2 rounded-lg transition-colors ${
+                    settings.renderer === renderer.key
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-white/20 text-white/70 hover:bg-white/30'
+                  }`}
+                >
+                  {renderer.name}
+                </button>
+              ))}
+            </div>
+          </div>
+          
           <div className="flex items-center justify-between">
             <span className="text-white">Animations</span>
             <button
@@ -510,7 +1042,23 @@ const MainMenu: React.FC<MainMenuProps> = ({
   highScores,
   playerStats,
   settings,
-  onSettingsChange
+  onSettingsChange,
+  replays,
+  onWatchReplay,
+  medals,
+  levels,
+  packs,
+  activePackId,
+  packProgress,
+  onSelectPack,
+  onImportPack,
+  onRemovePack,
+  onStartEndless,
+  endlessRuns,
+  onStartDaily,
+  dailyResult,
+  dailyStreak,
+  onSubmitDailyScore
 }) => {
   const [activeSection, setActiveSection] = useState('play');
 
@@ -519,13 +1067,50 @@ const MainMenu: React.FC<MainMenuProps> = ({
       id: 'play',
       title: 'Play',
       icon: <Play size={20} />,
-      component: <StartGameSection onStartGame={onStartGame} onLevelSelect={onLevelSelect} />
+      component: (
+        <StartGameSection
+          onStartGame={onStartGame}
+          onLevelSelect={onLevelSelect}
+          medals={medals}
+          levels={levels}
+          onStartEndless={onStartEndless}
+          daily={onStartDaily && (
+            <DailySection
+              onStartDaily={onStartDaily}
+              result={dailyResult}
+              streak={dailyStreak}
+              onSubmitScore={onSubmitDailyScore}
+            />
+          )}
+        />
+      )
     },
     {
       id: 'scores',
       title: 'High Scores',
       icon: <Trophy size={20} />,
-      component: <HighScoresSection highScores={highScores} />
+      component: <HighScoresSection highScores={highScores} packs={packs} endlessRuns={endlessRuns} />
+    },
+    {
+      id: 'packs',
+      title: 'Level Packs',
+      icon: <Package size={20} />,
+      component: (
+        <PacksSection
+          packs={packs}
+          activePackId={activePackId}
+          packProgress={packProgress}
+          onSelectPack={onSelectPack}
+          onImportPack={onImportPack}
+          onRemovePack={onRemovePack}
+        />
+      )
+    },
+    {
+      id: 'replays',
+      title: 'Replays',
+      icon: <Film size={20} />,
+      component: <ReplaysSection replays={replays} onWatchReplay={onWatchReplay} />
     },
     {
       id: 'stats',
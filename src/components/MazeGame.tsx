@@ -1,20 +1,37 @@
 // Updated MazeGame.tsx integration with AI Enemy System
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import type { GameSettings } from '../types/game.types';
+import type { GameSettings, GameEvent, Level, DailyResult, EnemyKind } from '../types/game.types';
 
-import { LEVELS, DEFAULT_SETTINGS } from '../utilities/gameConstant';
-import { removeCollectible, cloneMaze } from '../utilities/mazeUtilities';
+import { LEVELS, DEFAULT_SETTINGS, GAME_CONFIG } from '../utilities/gameConstant';
+import { type EngineState, getTimeBonus, getRevealRoute, canExitLevel } from '../services/gameEngine';
+import { hasEffect } from '../services/statusEffects';
+import { randomSeed } from '../services/random';
+import { type Replay, createReplay, getReplayFromUrl } from '../services/replay';
+import {
+  type LevelPack,
+  BUILT_IN_LEVEL_PACK,
+  BUILT_IN_PACK_ID,
+  getLevelPackFromUrl
+} from '../services/levelPacks';
+import { createGhostRun, getGhostPosition, getLatestSplit } from '../services/ghostRun';
+import { createEndlessLevel } from '../services/endless';
+import { type DailyChallenge, createDailyChallenge, getDailyDate, getDailyLevelId } from '../services/daily';
+import { getLevelPar, getMedal } from '../utilities/levelPar';
 import { useGameState } from '../hooks/useGameState';
 import { useGameTimer } from '../hooks/useGameTimer';
 import { usePlayerMovement } from '../hooks/usePlayerMovement';
 import { useEnemyAI } from '../hooks/useEnemyAI';
-import { useEnhancedEnemyAI } from '../hooks/useEnhancedEnemyAI';
 import { useSound } from '../hooks/useSound';
 import { useGameAnalytics } from '../hooks/useGameAnalytics';
+import { useGamePersistence } from '../hooks/useGamePersistence';
 
 import MainMenu from './MainMenu';
 import MazeRenderer from './MazeRenderer';
+import CanvasMazeRenderer from './CanvasMazeRenderer';
+import MazeViewport from './MazeViewport';
+import BehaviorDebugOverlay from './BehaviorDebugOverlay';
+import ReplayPlayer from './ReplayPlayer';
 import GameControls from './GameControls';
 import GameHUD from './GameHUD';
 import AIConfigPanel from './AIConfigPanel';
@@ -22,6 +39,7 @@ import { GameAnalyticsPanel } from './GameAnalyticsPanel';
 import {
   GameOverModal,
   LevelCompleteModal,
+  DailyResultModal,
   GameCompleteModal,
   PauseModal
 } from './GameModals';
@@ -39,9 +57,75 @@ interface AIConfig {
 
 interface MazeGameProps {
   initialSettings?: Partial<GameSettings>;
+  /** Levels to play through instead of the selected level pack */
+  levels?: Level[];
+  /** Start the first level straight away and keep no records, for trying out a design */
+  testPlay?: boolean;
+  /** Called instead of showing the main menu, e.g. to return to the level editor */
+  onExit?: () => void;
+  /** Records a score on chain, e.g. useWeb3Game's submitScore; offered on daily results when given */
+  onSubmitScore?: (level: number, score: number) => Promise<void>;
+}
+
+interface EndlessState {
+  seed: number;
+  /** Levels built so far; there is always one beyond the level being played */
+  levels: Level[];
+  /** Score banked from cleared levels */
+  score: number;
 }
 
-const MazeGame: React.FC<MazeGameProps> = ({ initialSettings }) => {
+interface DailyState {
+  challenge: DailyChallenge;
+  /** Whether the run being played is the day's first, the one that counts */
+  counted: boolean;
+}
+
+const EMPTY_MAZE: number[][] = [];
+
+// Moves and medal of a cleared level measured against its par
+const getRunResult = (engine: EngineState) => {
+  const par = engine.status === 'won' ? getLevelPar(engine.level) : null;
+  if (!par) return null;
+
+  const moves = engine.events.filter(event => event.type === 'move').length;
+  return { par, moves, medal: getMedal(par, moves, engine.elapsedMs) };
+};
+
+// Daily challenge result of a finished (or abandoned) run
+const getDailyResult = (engine: EngineState, date: string): DailyResult => {
+  const won = engine.status === 'won';
+  return {
+    date,
+    won,
+    score: won ? engine.score + getTimeBonus(engine.timeLeft) : engine.score,
+    timeMs: engine.elapsedMs,
+    moves: engine.events.filter(event => event.type === 'move').length,
+    stars: engine.collectedItems,
+    collectibles: engine.level.collectibles,
+    medal: getRunResult(engine)?.medal
+  };
+};
+
+// Saved as the counted daily run starts, so reloading mid-run doesn't buy a retry
+const getUnfinishedDailyResult = (challenge: DailyChallenge): DailyResult => ({
+  date: challenge.date,
+  won: false,
+  score: 0,
+  timeMs: 0,
+  moves: 0,
+  stars: 0,
+  collectibles: challenge.level.collectibles,
+  unfinished: true
+});
+
+const MazeGame: React.FC<MazeGameProps> = ({
+  initialSettings,
+  levels: levelsOverride,
+  testPlay = false,
+  onExit,
+  onSubmitScore
+}) => {
   // Game settings with AI config
   const [settings, setSettings] = useState<GameSettings>({
     ...DEFAULT_SETTINGS,
@@ -63,77 +147,120 @@ const MazeGame: React.FC<MazeGameProps> = ({ initialSettings }) => {
   // Debug panels
   const [showAnalytics, setShowAnalytics] = useState(false);
 
-  // Current maze state
-  const [currentMaze, setCurrentMaze] = useState<number[][]>([]);
+  // Replay being watched, starting with one opened through a share link
+  const [activeReplay, setActiveReplay] = useState<{ replay: Replay; level: Level } | null>(() => {
+    const replay = getReplayFromUrl();
+    const level = replay && LEVELS.find(candidate => candidate.id === replay.levelId);
+    return replay && level ? { replay, level } : null;
+  });
+
+  // Endless run or daily challenge in progress
+  const [endless, setEndless] = useState<EndlessState | null>(null);
+  const [daily, setDaily] = useState<DailyState | null>(null);
 
-  // Game state management
-  const gameStateHook = useGameState(LEVELS);
+  // Engine seed for the first level of a mode whose levels the game state
+  // hook hasn't picked up yet
+  const [pendingSeed, setPendingSeed] = useState<number | null>(null);
+
+  // With AI on, enemies get personalities, and a key lets a language model
+  // steer them; the daily keeps basic enemies so everyone faces the same ones
+  const enemyKind: EnemyKind = !aiConfig.enabled || daily ? 'basic' : aiConfig.apiKey ? 'llm' : 'enhanced';
+
+  // Saved runs and level packs
+  const {
+    bestReplays,
+    ghostRuns,
+    highScores,
+    endlessRuns,
+    dailyResults,
+    playerStats,
+    levelPacks,
+    activePackId,
+    packProgress,
+    saveReplay,
+    saveGhostRun,
+    addHighScore,
+    addEndlessRun,
+    recordDailyResult,
+    installLevelPack,
+    removeLevelPack,
+    selectLevelPack,
+    recordLevelResult
+  } = useGamePersistence();
+
+  const activePack = levelPacks.find(pack => pack.manifest.id === activePackId) ?? BUILT_IN_LEVEL_PACK;
+  const dailyLevels = useMemo(() => daily ? [daily.challenge.level] : null, [daily]);
+  const modeLevels = dailyLevels ?? endless?.levels;
+  const levels = levelsOverride ?? modeLevels ?? activePack.levels;
+
+  // Replays and ghosts are stored by level id alone, so only the built-in pack keeps them
+  const keepsRuns = !levelsOverride && !modeLevels && activePack.manifest.id === BUILT_IN_PACK_ID;
+
+  // Game state management; the daily is played at one difficulty, fully lit, by everyone
+  const gameStateHook = useGameState(levels, {
+    difficulty: daily ? 'normal' : settings.difficulty,
+    enemyKind,
+    torchRadius: settings.fogOfWar && !daily ? settings.torchRadius : undefined
+  });
   const {
     gameState,
     currentLevel,
+    engine,
     score,
     totalScore,
     collectedItems,
     timeLeft,
     setGameState,
+    advance,
     nextLevel,
-    resetLevel,
-    collectItem,
-    setTimeLeft,
-    initializeLevel,
-    canExitLevel
+    initializeLevel
   } = gameStateHook;
 
   // Game analytics
   const analytics = useGameAnalytics();
 
-  // Game timer
-  const gameTimer = useGameTimer(
-    () => {
-      setGameState('lost');
-      analytics.addEvent({ type: 'game_over', data: { reason: 'timeout' } });
-    },
-    gameState
-  );
+  // Engine clock
+  useGameTimer(advance, gameState);
 
   // Player movement
-  const playerMovement = usePlayerMovement(
-    currentMaze,
-    handleCollectItem,
-    handleReachExit,
-    gameState
-  );
-  const { playerPos, movePlayer, setPlayerPosition } = playerMovement;
+  const { playerPos, movePlayer } = usePlayerMovement(engine, advance, gameState);
 
-  // Enhanced AI Enemy System (when AI is enabled)
-  const enhancedEnemyAI = useEnhancedEnemyAI(
-    currentMaze,
-    playerPos,
-    gameState,
-    settings.difficulty,
-   
-  );
+  const currentMaze = engine?.maze ?? EMPTY_MAZE;
 
-  // Basic Enemy AI System (fallback)
-  const basicEnemyAI = useEnemyAI(
-    currentMaze,
-    playerPos,
-    gameState,
-    settings.difficulty
-  );
-
-  // Choose which AI system to use
-  const activeEnemyAI = aiConfig.enabled && aiConfig.apiKey ? enhancedEnemyAI : basicEnemyAI;
+  // Enemies of every kind, all moved by the engine
+  const enemyAI = useEnemyAI(engine, advance, gameState, aiConfig);
 
   // Sound effects
   const { playSound } = useSound(settings.soundEnabled);
 
-  // Game loop timing
-  const gameLoopRef = useRef<NodeJS.Timeout | undefined>(undefined);
-  const lastUpdateRef = useRef<number>(0);
+  // Last engine event already forwarded to analytics and sound
+  const lastEventRef = useRef<GameEvent | null>(null);
 
   // Performance optimization: Memoize current level data
-  const currentLevelData = useMemo(() => LEVELS[currentLevel], [currentLevel]);
+  const currentLevelData = useMemo(() => levels[currentLevel], [levels, currentLevel]);
+
+  // Race against the fastest clear of this level, once there is one
+  const ghostRun = currentLevelData && keepsRuns ? ghostRuns[currentLevelData.id] : undefined;
+  const ghostPos = ghostRun && engine ? getGhostPosition(ghostRun, engine.elapsedMs) : null;
+  const split = ghostRun && engine ? getLatestSplit(ghostRun, engine) : null;
+
+  // Lives refill with every level, to the difficulty's allowance
+  const maxLives = engine ? GAME_CONFIG.DIFFICULTY_MODIFIERS[engine.difficulty].lives : undefined;
+
+  // The revealed route only changes when the player moves, picks something up or changes the maze
+  const revealing = !!engine && hasEffect(engine.effects, 'reveal');
+  const exitOpen = !!engine && canExitLevel(engine);
+  const exitPosition = currentLevelData?.exitPosition;
+  const heldKeys = engine?.keys;
+  const revealedPath = useMemo(
+    () => revealing && exitPosition ? getRevealRoute(currentMaze, playerPos, exitPosition, exitOpen, heldKeys) : null,
+    [revealing, currentMaze, playerPos, exitPosition, exitOpen, heldKeys]
+  );
+
+  // Both renderers take the same props; the canvas one keeps large mazes smooth
+  const Renderer = settings.renderer === 'canvas' ? CanvasMazeRenderer : MazeRenderer;
+
+  const runResult = engine ? getRunResult(engine) : null;
 
   // Save AI config to localStorage
   useEffect(() => {
@@ -152,235 +279,418 @@ const MazeGame: React.FC<MazeGameProps> = ({ initialSettings }) => {
     setAIConfig(prev => ({ ...prev, costPerHour: estimatedCost }));
   }, [aiConfig.model, aiConfig.intelligence, aiConfig.aggressiveness, aiConfig.cooperation]);
 
-  // Initialize level data
-  const initializeCurrentLevel = useCallback(() => {
-    const level = LEVELS[currentLevel];
-    if (!level) return;
-
-    setCurrentMaze(cloneMaze(level.maze));
-    setPlayerPosition(level.playerStart);
-    
-    // Initialize enemies with appropriate AI system
-    if (aiConfig.enabled && aiConfig.apiKey) {
-      enhancedEnemyAI.initializeEnemies(level.enemyPositions);
-    } else {
-      basicEnemyAI.resetEnemies(level.enemyPositions);
-    }
-    
-    gameTimer.startTimer(level.timeLimit);
-    setTimeLeft(level.timeLimit);
-    
-    analytics.addEvent({ 
-      type: 'level_start', 
-      data: { 
-        level: currentLevel, 
-        name: level.name,
-        aiEnabled: aiConfig.enabled 
-      } 
-    });
-    
+  // Side effects for a level that the game state hook has just set up; the
+  // engine itself logs the level_start event with the run's seed
+  const announceLevel = useCallback((levelIndex: number) => {
+    if (!levels[levelIndex]) return;
     playSound('start');
-  }, [currentLevel, setPlayerPosition, aiConfig.enabled, aiConfig.apiKey, enhancedEnemyAI, basicEnemyAI, gameTimer, setTimeLeft, analytics, playSound]);
+  }, [levels, playSound]);
 
-  // Handle item collection
-  function handleCollectItem() {
-    const newMaze = removeCollectible(currentMaze, playerPos.x, playerPos.y);
-    setCurrentMaze(newMaze);
-    collectItem();
-    
-    analytics.addEvent({ 
-      type: 'collect',
-      data: { position: playerPos, remaining: currentLevelData.collectibles - collectedItems - 1 }
-    });
-    
-    playSound('collect');
-  }
+  const startLevel = useCallback((levelIndex: number) => {
+    initializeLevel(levelIndex, randomSeed());
+    announceLevel(levelIndex);
+  }, [initializeLevel, announceLevel]);
 
-  // Handle reaching exit
-  function handleReachExit() {
-    if (canExitLevel()) {
-      setGameState('won');
-      gameTimer.stopTimer();
-      
+  // Forward engine events (moves, pickups, wins, losses) to analytics and sound
+  useEffect(() => {
+    if (!engine) return;
+
+    const lastEvent = lastEventRef.current;
+    const pending = engine.events.slice(lastEvent ? engine.events.lastIndexOf(lastEvent) + 1 : 0);
+    if (pending.length === 0) return;
+    lastEventRef.current = pending[pending.length - 1];
+
+    pending.forEach(event => {
       analytics.addEvent({
-        type: 'level_complete',
-        data: {
-          level: currentLevel,
-          score,
-          timeLeft,
-          perfect: collectedItems === currentLevelData.collectibles,
-          aiEnabled: aiConfig.enabled
-        }
+        type: event.type,
+        seed: event.seed,
+        data: { ...event.data, aiEnabled: aiConfig.enabled }
       });
-      
-      playSound('win');
+
+      switch (event.type) {
+        case 'move':
+          playSound('move', 0.2);
+          break;
+        case 'collect':
+          playSound('collect');
+          break;
+        case 'level_complete':
+          playSound('win');
+          break;
+        case 'enemy_hit':
+          playSound('lose');
+          break;
+        case 'checkpoint':
+          playSound('checkpoint');
+          break;
+        case 'power_up':
+          playSound('collect');
+          break;
+        case 'shield_break':
+          playSound('pause');
+          break;
+        case 'key_pickup':
+          playSound('collect');
+          break;
+        case 'door_open':
+        case 'switch':
+          playSound('unlock');
+          break;
+        case 'teleport':
+          playSound('teleport');
+          break;
+        case 'crumble':
+          playSound('crumble');
+          break;
+      }
+    });
+
+    // Test plays of unfinished designs leave no records behind
+    if (testPlay) return;
+
+    // Only the day's first daily attempt is recorded
+    if (daily) {
+      if (daily.counted && engine.status !== 'playing') {
+        recordDailyResult(getDailyResult(engine, daily.challenge.date));
+      }
+      return;
     }
-  }
 
-  // Performance optimized movement handler
-  const handleMove = useCallback((dx: number, dy: number) => {
-    if (gameState !== 'playing') return;
+    // Endless runs bank each cleared level, build the one after next, and
+    // go on the endless leaderboard when they end
+    if (endless) {
+      if (engine.status === 'won') {
+        const levelScore = engine.score + getTimeBonus(engine.timeLeft);
+        setEndless(prev => prev && {
+          ...prev,
+          levels: [...prev.levels, createEndlessLevel(prev.levels.length, prev.seed)],
+          score: prev.score + levelScore
+        });
+      } else if (engine.status === 'lost') {
+        addEndlessRun({
+          levels: engine.level.id - 1,
+          score: endless.score + engine.score,
+          seed: endless.seed,
+          difficulty: settings.difficulty,
+          date: new Date().toISOString()
+        });
+      }
+      return;
+    }
 
-    const now = performance.now();
-    if (now - lastUpdateRef.current < 100) return;
-    lastUpdateRef.current = now;
+    if (keepsRuns) {
+      // A finished level becomes a replay; persistence keeps the best one per level
+      if (engine.status !== 'playing') {
+        saveReplay(createReplay(engine));
+      }
 
-    const moved = movePlayer(dx, dy);
-    if (moved) {
-      analytics.addEvent({ type: 'move', data: { from: playerPos, to: { x: playerPos.x + dx, y: playerPos.y + dy } } });
-      playSound('move', 0.2);
+      const ghostRun = createGhostRun(engine);
+      if (ghostRun) {
+        saveGhostRun(ghostRun);
+      }
+    }
+
+    const result = getRunResult(engine);
+    if (result) {
+      const levelScore = engine.score + getTimeBonus(engine.timeLeft);
+      recordLevelResult(activePack.manifest.id, engine.level.id, levelScore, result.medal);
+      addHighScore({
+        level: engine.level.id,
+        pack: activePack.manifest.id,
+        score: levelScore,
+        time: Math.round(engine.elapsedMs / 1000),
+        stars: engine.collectedItems,
+        date: new Date().toISOString(),
+        perfect: engine.collectedItems >= engine.level.collectibles,
+        medal: result.medal,
+        moves: result.moves
+      });
     }
-  }, [gameState, movePlayer, playSound, playerPos, analytics]);
+  }, [
+    engine,
+    analytics,
+    aiConfig.enabled,
+    testPlay,
+    keepsRuns,
+    endless,
+    daily,
+    settings.difficulty,
+    activePack.manifest.id,
+    playSound,
+    saveReplay,
+    saveGhostRun,
+    recordLevelResult,
+    addHighScore,
+    addEndlessRun,
+    recordDailyResult
+  ]);
+
+  const handleMove = useCallback((dx: number, dy: number) => {
+    if (gameState !== 'playing') return;
+    movePlayer(dx, dy);
+  }, [gameState, movePlayer]);
 
   // Other game handlers...
   const handlePause = useCallback(() => {
     if (gameState === 'playing') {
       setGameState('paused');
-      gameTimer.pauseTimer();
       analytics.addEvent({ type: 'pause' });
       playSound('pause');
     } else if (gameState === 'paused') {
       setGameState('playing');
-      gameTimer.resumeTimer();
       analytics.addEvent({ type: 'resume' });
     }
-  }, [gameState, setGameState, gameTimer, analytics, playSound]);
+  }, [gameState, setGameState, analytics, playSound]);
 
+  // Endless runs and the daily start once the game state hook has picked up their levels
+  useEffect(() => {
+    if (pendingSeed !== null && modeLevels && levels === modeLevels) {
+      setPendingSeed(null);
+      initializeLevel(0, pendingSeed);
+      announceLevel(0);
+    }
+  }, [pendingSeed, modeLevels, levels, initializeLevel, announceLevel]);
+
+  // Each endless run gets a fresh seed
+  const handleStartEndless = useCallback(() => {
+    const seed = randomSeed();
+    setDaily(null);
+    setEndless({ seed, levels: [createEndlessLevel(0, seed), createEndlessLevel(1, seed)], score: 0 });
+    setPendingSeed(randomSeed());
+    analytics.addEvent({ type: 'game_start', data: { mode: 'endless', aiEnabled: aiConfig.enabled } });
+  }, [analytics, aiConfig.enabled]);
+
+  // The daily also seeds the engine with the day's seed, so enemies move alike for everyone
+  const handleStartDaily = useCallback(() => {
+    const challenge = createDailyChallenge();
+    const counted = !dailyResults[challenge.date];
+    if (counted) {
+      recordDailyResult(getUnfinishedDailyResult(challenge));
+    }
+    setEndless(null);
+    setDaily({ challenge, counted });
+    setPendingSeed(challenge.seed);
+    analytics.addEvent({ type: 'game_start', data: { mode: 'daily', date: challenge.date } });
+  }, [dailyResults, recordDailyResult, analytics]);
+
+  const handleSubmitDailyScore = useCallback(async (date: string) => {
+    const result = dailyResults[date];
+    if (result && onSubmitScore) {
+      await onSubmitScore(getDailyLevelId(date), result.score);
+    }
+  }, [dailyResults, onSubmitScore]);
+
+  // Leaving the day's counted attempt early still uses it up
+  const abandonDaily = useCallback(() => {
+    if (daily?.counted && engine?.status === 'playing') {
+      recordDailyResult(getDailyResult(engine, daily.challenge.date));
+    }
+  }, [daily, engine, recordDailyResult]);
+
+  // Quitting an endless run still puts the levels cleared so far on the
+  // leaderboard; runs that ended in a loss were recorded then
+  const abandonEndless = useCallback(() => {
+    if (!endless || !engine || engine.status === 'lost') return;
+
+    const levels = engine.status === 'won' ? engine.level.id : engine.level.id - 1;
+    if (levels > 0) {
+      addEndlessRun({
+        levels,
+        score: endless.score + (engine.status === 'playing' ? engine.score : 0),
+        seed: endless.seed,
+        difficulty: settings.difficulty,
+        date: new Date().toISOString()
+      });
+    }
+  }, [endless, engine, addEndlessRun, settings.difficulty]);
+
+  // An endless run can't be replayed level by level; restarting starts a new
+  // run. Daily retries are practice on the same maze and enemies.
   const handleReset = useCallback(() => {
-    resetLevel();
-    initializeCurrentLevel();
-    setGameState('playing');
+    if (endless) {
+      abandonEndless();
+      handleStartEndless();
+      return;
+    }
+    if (daily) {
+      abandonDaily();
+      setDaily({ ...daily, counted: false });
+      initializeLevel(0, daily.challenge.seed);
+      announceLevel(0);
+      return;
+    }
+    startLevel(currentLevel);
     analytics.addEvent({ type: 'level_reset', data: { level: currentLevel } });
     playSound('reset');
-  }, [resetLevel, initializeCurrentLevel, setGameState, analytics, currentLevel, playSound]);
+  }, [
+    endless,
+    daily,
+    handleStartEndless,
+    abandonEndless,
+    abandonDaily,
+    initializeLevel,
+    announceLevel,
+    startLevel,
+    analytics,
+    currentLevel,
+    playSound
+  ]);
 
   const handleMenu = useCallback(() => {
-    gameTimer.stopTimer();
+    abandonDaily();
+    abandonEndless();
     setGameState('menu');
+    setEndless(null);
+    setDaily(null);
     analytics.addEvent({ type: 'return_to_menu' });
-  }, [gameTimer, setGameState, analytics]);
+    onExit?.();
+  }, [abandonDaily, abandonEndless, setGameState, analytics, onExit]);
 
   const handleStartGame = useCallback(() => {
-    initializeLevel(0);
-    initializeCurrentLevel();
+    startLevel(0);
     analytics.addEvent({ type: 'game_start', data: { aiEnabled: aiConfig.enabled } });
-  }, [initializeLevel, initializeCurrentLevel, analytics, aiConfig.enabled]);
+  }, [startLevel, analytics, aiConfig.enabled]);
 
   const handleLevelSelect = useCallback((levelIndex: number) => {
-    initializeLevel(levelIndex);
-    initializeCurrentLevel();
+    startLevel(levelIndex);
     analytics.addEvent({ type: 'level_select', data: { level: levelIndex, aiEnabled: aiConfig.enabled } });
-  }, [initializeLevel, initializeCurrentLevel, analytics, aiConfig.enabled]);
+  }, [startLevel, analytics, aiConfig.enabled]);
 
   const handleNextLevel = useCallback(() => {
-    nextLevel();
-    if (currentLevel + 1 < LEVELS.length) {
-      setTimeout(initializeCurrentLevel, 100);
-    }
-  }, [nextLevel, currentLevel, initializeCurrentLevel]);
+    nextLevel(randomSeed());
+    announceLevel(currentLevel + 1);
+  }, [nextLevel, announceLevel, currentLevel]);
 
   const handlePlayAgain = useCallback(() => {
-    initializeLevel(0);
-    initializeCurrentLevel();
+    startLevel(0);
     analytics.addEvent({ type: 'play_again', data: { aiEnabled: aiConfig.enabled } });
-  }, [initializeLevel, initializeCurrentLevel, analytics, aiConfig.enabled]);
+  }, [startLevel, analytics, aiConfig.enabled]);
 
-  // Enhanced game loop for enemy movement and collision detection
+  // A test play skips the menu
+  const testStartedRef = useRef(false);
   useEffect(() => {
-    if (gameState === 'playing') {
-      const intervalTime = aiConfig.enabled && aiConfig.apiKey ? 600 : basicEnemyAI.enemyMoveInterval || 800;
-      
-      gameLoopRef.current = setInterval(() => {
-        activeEnemyAI.updateEnemies();
-        
-        if (activeEnemyAI.isPlayerCaught(playerPos)) {
-          setGameState('lost');
-          gameTimer.stopTimer();
-          analytics.addEvent({ 
-            type: 'enemy_hit', 
-            data: { 
-              position: playerPos,
-              aiEnabled: aiConfig.enabled,
-              enemyType: aiConfig.enabled ? 'enhanced' : 'basic'
-            } 
-          });
-          playSound('lose');
-        }
-      }, intervalTime);
-    } else {
-      if (gameLoopRef.current) {
-        clearInterval(gameLoopRef.current);
-      }
+    if (testPlay && !testStartedRef.current) {
+      testStartedRef.current = true;
+      startLevel(0);
+    }
+  }, [testPlay, startLevel]);
+
+  // Saved and shared replays are of built-in levels
+  const handleWatchReplay = useCallback((replay: Replay) => {
+    const level = LEVELS.find(candidate => candidate.id === replay.levelId);
+    if (!level) {
+      console.warn(`Replay is for unknown level ${replay.levelId}`);
+      return;
     }
+    setActiveReplay({ replay, level });
+  }, []);
 
-    return () => {
-      if (gameLoopRef.current) {
-        clearInterval(gameLoopRef.current);
-      }
-    };
-  }, [gameState, activeEnemyAI, playerPos, setGameState, gameTimer, analytics, playSound, aiConfig.enabled, aiConfig.apiKey, basicEnemyAI.enemyMoveInterval]);
-  
-  // Initialize first level when game starts
+  const handleWatchLastRun = useCallback(() => {
+    if (engine) {
+      setActiveReplay({ replay: createReplay(engine), level: engine.level });
+    }
+  }, [engine]);
+
+  const handleCloseReplay = useCallback(() => {
+    setActiveReplay(null);
+    // Drop a share link's replay from the address bar so a reload doesn't reopen it
+    if (window.location.search) {
+      window.history.replaceState(null, '', window.location.pathname + window.location.hash);
+    }
+  }, []);
+
+  // Imported packs become the active pack straight away
+  const handleImportPack = useCallback((pack: LevelPack) => {
+    installLevelPack(pack);
+    selectLevelPack(pack.manifest.id);
+  }, [installLevelPack, selectLevelPack]);
+
+  // A pack share link installs the pack, then leaves the address bar
   useEffect(() => {
-    if (gameState === 'playing' && currentMaze.length === 0) {
-      initializeCurrentLevel();
+    const result = getLevelPackFromUrl();
+    if (!result) return;
+
+    if (result.pack) {
+      handleImportPack(result.pack);
+    } else {
+      console.warn('Ignoring invalid level pack link:', result.errors);
     }
-  }, [gameState, currentMaze.length, initializeCurrentLevel]);
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }, [handleImportPack]);
 
   // Settings change handler
   const handleSettingsChange = useCallback((newSettings: GameSettings) => {
     setSettings(newSettings);
   }, []);
 
-  // AI config change handler
+  // AI config change handler; the game state hook hands the enemies over
+  // when the change calls for another kind
   const handleAIConfigChange = useCallback((newConfig: AIConfig) => {
     setAIConfig(newConfig);
-    
-    // Reinitialize enemies if AI status changed
-    if (newConfig.enabled !== aiConfig.enabled) {
-      const level = LEVELS[currentLevel];
-      if (level && gameState === 'playing') {
-        setTimeout(() => {
-          if (newConfig.enabled && newConfig.apiKey) {
-            enhancedEnemyAI.initializeEnemies(level.enemyPositions);
-          } else {
-            basicEnemyAI.resetEnemies(level.enemyPositions);
-          }
-        }, 100);
-      }
-    }
-  }, [aiConfig.enabled, currentLevel, gameState, enhancedEnemyAI, basicEnemyAI]);
+  }, []);
 
   // Sound toggle handler
   const handleSoundToggle = useCallback(() => {
     setSettings(prev => ({ ...prev, soundEnabled: !prev.soundEnabled }));
   }, []);
 
+  // Render replay playback
+  if (activeReplay) {
+    const { replay, level } = activeReplay;
+    return (
+      <ReplayPlayer
+        key={`${replay.levelId}-${replay.seed}-${replay.recordedAt}`}
+        replay={replay}
+        level={level}
+        theme={settings.theme}
+        animations={settings.animations}
+        onClose={handleCloseReplay}
+      />
+    );
+  }
+
   // Render main menu
-  if (gameState === 'menu') {
+  const today = getDailyDate();
+  if (gameState === 'menu' && !testPlay) {
     return (
       <MainMenu
         onStartGame={handleStartGame}
         onLevelSelect={handleLevelSelect}
         settings={settings}
         onSettingsChange={handleSettingsChange}
+        highScores={highScores}
+        playerStats={playerStats}
+        endlessRuns={endlessRuns}
+        onStartEndless={handleStartEndless}
+        dailyResult={dailyResults[today]}
+        dailyStreak={playerStats.currentStreak}
+        onStartDaily={handleStartDaily}
+        onSubmitDailyScore={onSubmitScore ? () => handleSubmitDailyScore(today) : undefined}
+        replays={Object.values(bestReplays)}
+        medals={packProgress[activePack.manifest.id]?.medals}
+        onWatchReplay={handleWatchReplay}
+        levels={levels}
+        packs={[BUILT_IN_LEVEL_PACK, ...levelPacks]}
+        activePackId={activePack.manifest.id}
+        packProgress={packProgress}
+        onSelectPack={selectLevelPack}
+        onImportPack={handleImportPack}
+        onRemovePack={removeLevelPack}
       />
     );
   }
 
   // Get enemy stats for AI panel
   const getEnemyStats = () => {
-    if (aiConfig.enabled && 'smartEnemies' in activeEnemyAI) {
-      return activeEnemyAI.smartEnemies.map(enemy => ({
-        id: enemy.id,
-        type: enemy.personality.type,
-        state: enemy.state,
-        energy: enemy.energy,
-        intelligence: Math.round(enemy.personality.intelligence * 100),
-        lastAction: enemy.state
-      }));
-    }
-    return [];
+    if (!aiConfig.enabled) return [];
+    return enemyAI.debugState.map(enemy => ({
+      id: enemy.id,
+      type: enemy.type,
+      state: enemy.behavior,
+      energy: enemy.energy ?? 100,
+      intelligence: enemy.intelligence ?? 0,
+      lastAction: enemy.activePath[enemy.activePath.length - 1] ?? enemy.behavior
+    }));
   };
 
   return (
@@ -390,30 +700,42 @@ const MazeGame: React.FC<MazeGameProps> = ({ initialSettings }) => {
         {/* Game HUD */}
         <GameHUD
           currentLevel={currentLevel}
-          totalLevels={LEVELS.length}
+          totalLevels={levels.length}
           levelName={currentLevelData?.name || 'Unknown Level'}
           score={score}
           timeLeft={timeLeft}
           collectedItems={collectedItems}
           totalCollectibles={currentLevelData?.collectibles || 0}
-          totalScore={totalScore}
+          totalScore={endless ? endless.score : totalScore}
           gameState={gameState}
+          split={split}
+          endless={!!endless}
+          lives={engine?.lives}
+          maxLives={maxLives}
+          effects={engine?.effects}
+          keys={engine?.keys}
         />
 
         {/* Game Area */}
         <div className="flex flex-col lg:flex-row gap-6 items-start justify-center">
           
           {/* Maze Display */}
-          <div className="flex-1 flex justify-center">
-            <MazeRenderer
+          <div className="relative flex-1 flex justify-center min-w-0 w-full">
+            <MazeViewport
+              renderer={Renderer}
               maze={currentMaze}
               playerPos={playerPos}
-              enemies={activeEnemyAI.enemies}
+              enemies={enemyAI.enemies}
+              ghostPos={ghostPos}
+              visibility={engine?.fog ?? undefined}
+              playerInvulnerable={!!engine && engine.invulnerableMs > 0}
+              revealedPath={revealedPath}
               theme={settings.theme}
               animations={settings.animations}
-              cellSize={24}
+              cellSize={GAME_CONFIG.CELL_SIZE}
               showGrid={false}
             />
+            {aiConfig.enabled && <BehaviorDebugOverlay enemies={enemyAI.debugState} />}
           </div>
           
           {/* Game Controls */}
@@ -430,13 +752,13 @@ const MazeGame: React.FC<MazeGameProps> = ({ initialSettings }) => {
             />
 
             {/* AI Insights Panel (when AI enabled) */}
-            {aiConfig.enabled && 'aiInsights' in activeEnemyAI && activeEnemyAI.aiInsights.length > 0 && (
+            {aiConfig.enabled && enemyAI.insights.length > 0 && (
               <div className="mt-4 bg-black/30 backdrop-blur-md rounded-xl p-4">
                 <h3 className="text-white font-bold mb-2 flex items-center gap-2">
                   🧠 AI Analysis
                 </h3>
                 <div className="space-y-1">
-                  {activeEnemyAI.aiInsights.slice(-3).map((insight, index) => (
+                  {enemyAI.insights.slice(-3).map((insight, index) => (
                     <div key={index} className="text-xs text-white/70">
                       • {insight}
                     </div>
@@ -464,7 +786,7 @@ const MazeGame: React.FC<MazeGameProps> = ({ initialSettings }) => {
         config={aiConfig}
         onConfigChange={handleAIConfigChange}
         enemyStats={getEnemyStats()}
-        aiInsights={'aiInsights' in activeEnemyAI ? activeEnemyAI.aiInsights : []}
+        aiInsights={enemyAI.insights}
         isGameActive={gameState === 'playing'}
       />
 
@@ -479,42 +801,65 @@ const MazeGame: React.FC<MazeGameProps> = ({ initialSettings }) => {
 
       {/* Game Modals */}
       <GameOverModal
-        isOpen={gameState === 'lost'}
+        isOpen={gameState === 'lost' && !daily}
         onRetry={handleReset}
         onMenu={handleMenu}
-        reason={timeLeft <= 0 ? 'timeout' : 'enemy'}
+        onWatchReplay={handleWatchLastRun}
+        reason={engine?.lossReason ?? 'enemy'}
         score={score}
         timeElapsed={currentLevelData ? currentLevelData.timeLimit - timeLeft : 0}
         level={currentLevel + 1}
+        livesLost={engine && maxLives ? maxLives - engine.lives : 0}
+        livesLeft={engine?.lives ?? 0}
+        caughtBy={engine?.caughtBy?.type}
       />
 
       <LevelCompleteModal
-        isOpen={gameState === 'won'}
+        isOpen={gameState === 'won' && !daily}
         onNextLevel={handleNextLevel}
         onReplay={handleReset}
         onMenu={handleMenu}
+        onWatchReplay={handleWatchLastRun}
         levelData={{
           number: currentLevel + 1,
           name: currentLevelData?.name || '',
           score: score,
-          timeBonus: timeLeft * 10,
-          totalScore: score + (timeLeft * 10),
+          timeBonus: getTimeBonus(timeLeft),
+          totalScore: score + getTimeBonus(timeLeft),
           starsCollected: collectedItems,
           totalStars: currentLevelData?.collectibles || 0,
           timeLeft: timeLeft,
-          perfectRun: collectedItems === currentLevelData?.collectibles && timeLeft > 0
+          perfectRun: collectedItems === currentLevelData?.collectibles && timeLeft > 0,
+          medal: runResult?.medal,
+          moves: runResult?.moves,
+          parMoves: runResult?.par.moves,
+          parTime: runResult ? runResult.par.timeMs / 1000 : undefined,
+          time: engine ? engine.elapsedMs / 1000 : undefined
         }}
       />
 
+      {daily && dailyResults[daily.challenge.date] && !(daily.counted && dailyResults[daily.challenge.date].unfinished) && (
+        <DailyResultModal
+          isOpen={gameState === 'won' || gameState === 'lost'}
+          onPractice={handleReset}
+          onMenu={handleMenu}
+          onWatchReplay={handleWatchLastRun}
+          onSubmitScore={onSubmitScore ? () => handleSubmitDailyScore(daily.challenge.date) : undefined}
+          result={dailyResults[daily.challenge.date]}
+          streak={playerStats.currentStreak}
+          practice={!daily.counted && engine ? { won: engine.status === 'won', score: getDailyResult(engine, daily.challenge.date).score } : undefined}
+        />
+      )}
+
       <GameCompleteModal
         isOpen={gameState === 'completed'}
         onPlayAgain={handlePlayAgain}
         onMenu={handleMenu}
         finalStats={{
           totalScore: totalScore,
-          totalTime: LEVELS.reduce((sum, level) => sum + level.timeLimit, 0) - timeLeft,
-          levelsCompleted: LEVELS.length,
-          totalStars: LEVELS.reduce((sum, level) => sum + level.collectibles, 0),
+          totalTime: levels.reduce((sum, level) => sum + level.timeLimit, 0) - timeLeft,
+          levelsCompleted: levels.length,
+          totalStars: levels.reduce((sum, level) => sum + level.collectibles, 0),
           perfectLevels: 0,
           rank: 'Master'
         }}
@@ -1,5 +1,6 @@
 // MazeRenderer.tsx - Fixed Type Issues
 import React  from 'react';
+import { CHANNEL_COLORS, getChannelCellInfo } from '../utilities/hazards';
 
 // ==================== INTERFACES ====================
 
@@ -8,15 +9,32 @@ interface Position {
   y: number;
 }
 
-interface MazeRendererProps {
+/** Cells as "x,y" keys; cells in neither set haven't been explored */
+export interface VisibilityMask {
+  visible: Set<string>;
+  explored: Set<string>;
+}
+
+/** Shared by every renderer, so one can stand in for another */
+export interface MazeRendererProps {
   maze: number[][];
   playerPos: Position;
   enemies?: Position[];
+  /** Personal-best ghost, drawn translucent */
+  ghostPos?: Position | null;
+  /** Fog of war: explored cells out of sight are dimmed, unexplored ones hidden */
+  visibility?: VisibilityMask;
   cellSize?: number;
   showGrid?: boolean;
   animations?: boolean;
   theme?: 'default' | 'neon' | 'forest' | 'space';
   onCellClick?: (x: number, y: number) => void;
+  /** Only the maze, without the frame and legend, for embedding in a viewport */
+  bare?: boolean;
+  /** The player just respawned and can't be hurt yet; drawn faded */
+  playerInvulnerable?: boolean;
+  /** Route shown by the reveal power-up; drawn even through fog */
+  revealedPath?: Position[] | null;
 }
 
 // ==================== CONSTANTS ====================
@@ -27,18 +45,44 @@ const CELL_TYPES = {
   PLAYER: 2,
   EXIT: 3,
   COLLECTIBLE: 4,
-  ENEMY: 5
+  ENEMY: 5,
+  CHECKPOINT: 6,
+  SPEED_BOOST: 7,
+  FREEZE: 8,
+  SHIELD: 9,
+  TIME_BONUS: 10,
+  REVEAL: 11,
+  CONVEYOR_UP: 12,
+  CONVEYOR_DOWN: 13,
+  CONVEYOR_LEFT: 14,
+  CONVEYOR_RIGHT: 15,
+  CRUMBLING: 16,
+  // Channeled cells go by their first channel's value; the channel is passed separately
+  KEY: 20,
+  DOOR: 24,
+  SWITCH: 28,
+  GATE_CLOSED: 32,
+  GATE_OPEN: 36,
+  TELEPORTER: 40
 } as const;
 
 type CellType = typeof CELL_TYPES[keyof typeof CELL_TYPES];
 
+type CellVisibility = 'visible' | 'remembered' | 'hidden';
+
 interface CellProps {
   type: CellType;
+  /** Channel of keys, doors, switches, gates and teleporters; null for other cells */
+  channel: number | null;
   x: number;
   y: number;
   cellSize: number;
   hasPlayer: boolean;
+  playerInvulnerable: boolean;
   hasEnemy: boolean;
+  hasGhost: boolean;
+  onRoute: boolean;
+  visibility: CellVisibility;
   theme: string;
   showGrid: boolean;
   animations: boolean;
@@ -54,7 +98,17 @@ const THEMES = {
     collectible: 'bg-yellow-300 border-yellow-200',
     player: 'bg-blue-500 border-blue-400',
     enemy: 'bg-red-500 border-red-400',
-    grid: 'border-gray-300'
+    checkpoint: 'bg-sky-200 border-sky-100',
+    speedBoost: 'bg-amber-300 border-amber-200',
+    freeze: 'bg-cyan-200 border-cyan-100',
+    shield: 'bg-indigo-300 border-indigo-200',
+    timeBonus: 'bg-teal-300 border-teal-200',
+    reveal: 'bg-fuchsia-300 border-fuchsia-200',
+    conveyor: 'bg-slate-300 border-slate-200',
+    crumbling: 'bg-amber-200 border-2 border-dashed border-amber-500',
+    route: 'bg-fuchsia-500/60',
+    grid: 'border-gray-300',
+    fog: 'bg-gray-950'
   },
   neon: {
     wall: 'bg-purple-900 border-purple-700 shadow-lg shadow-purple-500/20',
@@ -63,7 +117,17 @@ const THEMES = {
     collectible: 'bg-yellow-400 border-yellow-300 shadow-lg shadow-yellow-400/50',
     player: 'bg-cyan-400 border-cyan-300 shadow-lg shadow-cyan-400/50',
     enemy: 'bg-red-500 border-red-400 shadow-lg shadow-red-500/50',
-    grid: 'border-cyan-700'
+    checkpoint: 'bg-sky-900 border-sky-500 shadow-lg shadow-sky-400/50',
+    speedBoost: 'bg-amber-400 border-amber-300 shadow-lg shadow-amber-400/50',
+    freeze: 'bg-cyan-200 border-cyan-100 shadow-lg shadow-cyan-200/50',
+    shield: 'bg-indigo-400 border-indigo-300 shadow-lg shadow-indigo-400/50',
+    timeBonus: 'bg-teal-400 border-teal-300 shadow-lg shadow-teal-400/50',
+    reveal: 'bg-fuchsia-500 border-fuchsia-400 shadow-lg shadow-fuchsia-500/50',
+    conveyor: 'bg-gray-800 border-cyan-500 shadow-lg shadow-cyan-500/30',
+    crumbling: 'bg-gray-900 border-2 border-dashed border-orange-500',
+    route: 'bg-fuchsia-400/70 shadow-lg shadow-fuchsia-400/50',
+    grid: 'border-cyan-700',
+    fog: 'bg-black'
   },
   forest: {
     wall: 'bg-green-900 border-green-800',
@@ -72,7 +136,17 @@ const THEMES = {
     collectible: 'bg-orange-400 border-orange-300',
     player: 'bg-blue-600 border-blue-500',
     enemy: 'bg-red-700 border-red-600',
-    grid: 'border-green-200'
+    checkpoint: 'bg-lime-200 border-lime-100',
+    speedBoost: 'bg-yellow-300 border-yellow-200',
+    freeze: 'bg-sky-200 border-sky-100',
+    shield: 'bg-stone-400 border-stone-300',
+    timeBonus: 'bg-emerald-300 border-emerald-200',
+    reveal: 'bg-purple-300 border-purple-200',
+    conveyor: 'bg-stone-300 border-stone-200',
+    crumbling: 'bg-amber-300 border-2 border-dashed border-amber-700',
+    route: 'bg-purple-500/60',
+    grid: 'border-green-200',
+    fog: 'bg-green-950'
   },
   space: {
     wall: 'bg-indigo-950 border-indigo-800',
@@ -81,7 +155,17 @@ const THEMES = {
     collectible: 'bg-yellow-400 border-yellow-300',
     player: 'bg-blue-400 border-blue-300',
     enemy: 'bg-red-600 border-red-500',
-    grid: 'border-slate-700'
+    checkpoint: 'bg-sky-800 border-sky-700',
+    speedBoost: 'bg-amber-400 border-amber-300',
+    freeze: 'bg-cyan-300 border-cyan-200',
+    shield: 'bg-violet-400 border-violet-300',
+    timeBonus: 'bg-teal-400 border-teal-300',
+    reveal: 'bg-pink-400 border-pink-300',
+    conveyor: 'bg-slate-700 border-slate-600',
+    crumbling: 'bg-slate-800 border-2 border-dashed border-orange-400',
+    route: 'bg-pink-400/60',
+    grid: 'border-slate-700',
+    fog: 'bg-black'
   }
 };
 
@@ -91,18 +175,88 @@ const CELL_CONTENT: Record<CellType, string> = {
   [CELL_TYPES.EXIT]: '🚪',
   [CELL_TYPES.COLLECTIBLE]: '⭐',
   [CELL_TYPES.PLAYER]: '😊',
-  [CELL_TYPES.ENEMY]: '👾'
+  [CELL_TYPES.ENEMY]: '👾',
+  [CELL_TYPES.CHECKPOINT]: '🚩',
+  [CELL_TYPES.SPEED_BOOST]: '⚡',
+  [CELL_TYPES.FREEZE]: '❄️',
+  [CELL_TYPES.SHIELD]: '🛡️',
+  [CELL_TYPES.TIME_BONUS]: '⏳',
+  [CELL_TYPES.REVEAL]: '👁️',
+  [CELL_TYPES.CONVEYOR_UP]: '⬆',
+  [CELL_TYPES.CONVEYOR_DOWN]: '⬇',
+  [CELL_TYPES.CONVEYOR_LEFT]: '⬅',
+  [CELL_TYPES.CONVEYOR_RIGHT]: '➡',
+  [CELL_TYPES.CRUMBLING]: '',
+  [CELL_TYPES.KEY]: '🔑',
+  [CELL_TYPES.DOOR]: '🔒',
+  [CELL_TYPES.SWITCH]: '🔘',
+  [CELL_TYPES.GATE_CLOSED]: '',
+  [CELL_TYPES.GATE_OPEN]: '',
+  [CELL_TYPES.TELEPORTER]: '🌀'
+};
+
+/** Power-up cells and the theme color each one is drawn in */
+const POWER_UP_COLORS: Partial<Record<CellType, keyof typeof THEMES.default>> = {
+  [CELL_TYPES.SPEED_BOOST]: 'speedBoost',
+  [CELL_TYPES.FREEZE]: 'freeze',
+  [CELL_TYPES.SHIELD]: 'shield',
+  [CELL_TYPES.TIME_BONUS]: 'timeBonus',
+  [CELL_TYPES.REVEAL]: 'reveal'
+};
+
+const CONVEYORS: CellType[] = [
+  CELL_TYPES.CONVEYOR_UP,
+  CELL_TYPES.CONVEYOR_DOWN,
+  CELL_TYPES.CONVEYOR_LEFT,
+  CELL_TYPES.CONVEYOR_RIGHT
+];
+
+/** Cells the legend only explains when the maze has some; the icon defaults to the cell's content */
+const OPTIONAL_LEGEND: { types: CellType[]; label: string; icon?: string }[] = [
+  { types: [CELL_TYPES.CHECKPOINT], label: 'Checkpoint' },
+  { types: [CELL_TYPES.SPEED_BOOST], label: 'Speed' },
+  { types: [CELL_TYPES.FREEZE], label: 'Freeze' },
+  { types: [CELL_TYPES.SHIELD], label: 'Shield' },
+  { types: [CELL_TYPES.TIME_BONUS], label: 'Time' },
+  { types: [CELL_TYPES.REVEAL], label: 'Reveal' },
+  { types: [CELL_TYPES.KEY], label: 'Key' },
+  { types: [CELL_TYPES.DOOR], label: 'Door' },
+  { types: [CELL_TYPES.SWITCH], label: 'Switch' },
+  { types: [CELL_TYPES.GATE_CLOSED, CELL_TYPES.GATE_OPEN], label: 'Gate', icon: '🚧' },
+  { types: [CELL_TYPES.TELEPORTER], label: 'Teleporter' },
+  { types: CONVEYORS, label: 'Conveyor', icon: '➡' },
+  { types: [CELL_TYPES.CRUMBLING], label: 'Crumbling Floor', icon: '░' }
+];
+
+// ==================== HELPERS ====================
+
+/**
+ * Cell type to draw for a maze value, with the channel split off channeled
+ * cells. Unknown values draw as walls.
+ */
+const getCellType = (cellValue: number): { type: CellType; channel: number | null } => {
+  const info = getChannelCellInfo(cellValue);
+  const base = info ? cellValue - info.channel : cellValue;
+  if (Object.values(CELL_TYPES).includes(base as CellType)) {
+    return { type: base as CellType, channel: info?.channel ?? null };
+  }
+  return { type: CELL_TYPES.WALL, channel: null };
 };
 
 // ==================== SUB-COMPONENTS ====================
 
 const MazeCell: React.FC<CellProps> = ({
   type,
+  channel,
   x,
   y,
   cellSize,
   hasPlayer,
+  playerInvulnerable,
   hasEnemy,
+  hasGhost,
+  onRoute,
+  visibility,
   theme,
   showGrid,
   animations,
@@ -129,9 +283,18 @@ const MazeCell: React.FC<CellProps> = ({
       baseClasses += ' hover:scale-105';
     }
     
+    if (visibility === 'hidden') {
+      return `${baseClasses} ${themeConfig.fog}`;
+    }
+    
+    if (visibility === 'remembered') {
+      baseClasses += ' opacity-40';
+    }
+    
     if (hasPlayer) {
       baseClasses += ` ${themeConfig.player} rounded-full`;
       if (animations) baseClasses += ' animate-pulse';
+      if (playerInvulnerable) baseClasses += ' opacity-50';
     } else if (hasEnemy) {
       baseClasses += ` ${themeConfig.enemy} rounded-full`;
       if (animations) baseClasses += ' animate-bounce';
@@ -151,8 +314,32 @@ const MazeCell: React.FC<CellProps> = ({
           baseClasses += ` ${themeConfig.collectible} rounded-full`;
           if (animations) baseClasses += ' animate-spin';
           break;
-        default:
-          baseClasses += ` ${themeConfig.path}`;
+        case CELL_TYPES.CHECKPOINT:
+          baseClasses += ` ${themeConfig.checkpoint}`;
+          break;
+        case CELL_TYPES.CONVEYOR_UP:
+        case CELL_TYPES.CONVEYOR_DOWN:
+        case CELL_TYPES.CONVEYOR_LEFT:
+        case CELL_TYPES.CONVEYOR_RIGHT:
+          baseClasses += ` ${themeConfig.conveyor}`;
+          break;
+        case CELL_TYPES.CRUMBLING:
+          baseClasses += ` ${themeConfig.crumbling}`;
+          break;
+        case CELL_TYPES.DOOR:
+        case CELL_TYPES.GATE_CLOSED:
+          // Filled with the channel color below
+          baseClasses += ' rounded-sm';
+          break;
+        default: {
+          const powerUpColor = POWER_UP_COLORS[type];
+          if (powerUpColor) {
+            baseClasses += ` ${themeConfig[powerUpColor]} rounded-lg`;
+            if (animations) baseClasses += ' animate-pulse';
+          } else {
+            baseClasses += ` ${themeConfig.path}`;
+          }
+        }
       }
     }
     
@@ -160,12 +347,38 @@ const MazeCell: React.FC<CellProps> = ({
   };
   
   const getCellContent = (): string => {
+    if (visibility === 'hidden') return '';
     if (hasPlayer) return CELL_CONTENT[CELL_TYPES.PLAYER];
     if (hasEnemy) return CELL_CONTENT[CELL_TYPES.ENEMY];
     return CELL_CONTENT[type] || '';
   };
   
   const getSpecialEffects = () => {
+    if (onRoute && !hasPlayer) {
+      return <div className={`absolute inset-[30%] rounded-full ${themeConfig.route}`} />;
+    }
+
+    // Channel colors pair keys with doors, switches with gates and teleporters with each other
+    if (channel !== null && visibility !== 'hidden' && !hasPlayer && !hasEnemy) {
+      const color = CHANNEL_COLORS[channel];
+      if (type === CELL_TYPES.GATE_OPEN) {
+        return <div className="absolute inset-[10%] border-2 border-dashed rounded-sm" style={{ borderColor: color }} />;
+      }
+      if (type !== CELL_TYPES.DOOR && type !== CELL_TYPES.GATE_CLOSED) {
+        return <div className="absolute inset-[10%] rounded-full opacity-50" style={{ backgroundColor: color }} />;
+      }
+    }
+
+    if (visibility !== 'visible') return null;
+    
+    if (hasGhost && !hasPlayer && !hasEnemy) {
+      return (
+        <div className={`absolute inset-0 ${themeConfig.player} rounded-full opacity-40 flex items-center justify-center`}>
+          {CELL_CONTENT[CELL_TYPES.PLAYER]}
+        </div>
+      );
+    }
+    
     if (type === CELL_TYPES.EXIT && animations) {
       return <div className="absolute inset-0 bg-green-400/20 rounded animate-ping" />;
     }
@@ -181,10 +394,14 @@ const MazeCell: React.FC<CellProps> = ({
     return null;
   };
   
+  const isFilled = channel !== null && !hasPlayer && !hasEnemy && visibility !== 'hidden'
+    && (type === CELL_TYPES.DOOR || type === CELL_TYPES.GATE_CLOSED);
+
   return (
     <div
       className={getCellClasses()}
       style={{
+        backgroundColor: isFilled ? CHANNEL_COLORS[channel] : undefined,
         width: `${cellSize}px`,
         height: `${cellSize}px`,
         minWidth: `${cellSize}px`,
@@ -201,17 +418,68 @@ const MazeCell: React.FC<CellProps> = ({
   );
 };
 
+/**
+ * Key to the cell symbols, shown under the maze; checkpoints, power-ups and
+ * hazards are only explained when the maze has some
+ */
+export const MazeLegend: React.FC<{ showGhost: boolean; maze?: number[][] }> = ({
+  showGhost,
+  maze = []
+}) => (
+  <div className="mt-4 flex flex-wrap justify-center gap-4 text-xs bg-gray-50 p-3 rounded-lg">
+    <div className="flex items-center gap-1">
+      <span>😊</span>
+      <span>Player</span>
+    </div>
+    <div className="flex items-center gap-1">
+      <span>👾</span>
+      <span>Enemy</span>
+    </div>
+    {showGhost && (
+      <div className="flex items-center gap-1">
+        <span className="opacity-40">😊</span>
+        <span>Best Run</span>
+      </div>
+    )}
+    <div className="flex items-center gap-1">
+      <span>⭐</span>
+      <span>Star</span>
+    </div>
+    <div className="flex items-center gap-1">
+      <span>🚪</span>
+      <span>Exit</span>
+    </div>
+    {OPTIONAL_LEGEND
+      .filter(({ types }) => maze.some(row => row.some(cell => types.includes(getCellType(cell).type))))
+      .map(({ types, label, icon }) => (
+        <div key={label} className="flex items-center gap-1">
+          <span>{icon ?? CELL_CONTENT[types[0]]}</span>
+          <span>{label}</span>
+        </div>
+      ))}
+    <div className="flex items-center gap-1">
+      <div className="w-3 h-3 bg-gray-800 rounded"></div>
+      <span>Wall</span>
+    </div>
+  </div>
+);
+
 // ==================== MAIN COMPONENT ====================
 
 const MazeRenderer: React.FC<MazeRendererProps> = ({
   maze,
   playerPos,
   enemies = [],
+  ghostPos = null,
+  visibility,
   cellSize = 20,
   showGrid = false,
   animations = true,
   theme = 'default',
-  onCellClick
+  onCellClick,
+  bare = false,
+  playerInvulnerable = false,
+  revealedPath = null
 }) => {
   const isValidMaze = maze && maze.length > 0 && maze[0] && maze[0].length > 0;
   
@@ -226,74 +494,66 @@ const MazeRenderer: React.FC<MazeRendererProps> = ({
     );
   }
   
+  const getVisibility = (x: number, y: number): CellVisibility => {
+    if (!visibility || visibility.visible.has(`${x},${y}`)) return 'visible';
+    return visibility.explored.has(`${x},${y}`) ? 'remembered' : 'hidden';
+  };
+  
   const hasPlayer = (x: number, y: number): boolean => 
     playerPos.x === x && playerPos.y === y;
     
+  // Enemies and the ghost only show while in sight
   const hasEnemy = (x: number, y: number): boolean =>
-    enemies.some(enemy => enemy.x === x && enemy.y === y);
+    getVisibility(x, y) === 'visible' && enemies.some(enemy => enemy.x === x && enemy.y === y);
+    
+  const hasGhost = (x: number, y: number): boolean =>
+    getVisibility(x, y) === 'visible' && !!ghostPos && ghostPos.x === x && ghostPos.y === y;
+
+  const routeCells = new Set(revealedPath?.map(pos => `${pos.x},${pos.y}`));
   
-  const getCellType = (cellValue: number): CellType => {
-    if (Object.values(CELL_TYPES).includes(cellValue as CellType)) {
-      return cellValue as CellType;
-    }
-    return CELL_TYPES.WALL;
-  };
+  const grid = (
+    <div 
+      className="maze-grid relative"
+      style={{
+        display: 'grid',
+        gridTemplateColumns: `repeat(${maze[0].length}, ${cellSize}px)`,
+        gridTemplateRows: `repeat(${maze.length}, ${cellSize}px)`,
+        gap: showGrid ? '1px' : '0px'
+      }}
+    >
+      {maze.map((row, y) =>
+        row.map((cellValue, x) => (
+          <MazeCell
+            key={`cell-${x}-${y}`}
+            {...getCellType(cellValue)}
+            x={x}
+            y={y}
+            cellSize={cellSize}
+            hasPlayer={hasPlayer(x, y)}
+            playerInvulnerable={playerInvulnerable}
+            hasEnemy={hasEnemy(x, y)}
+            hasGhost={hasGhost(x, y)}
+            onRoute={routeCells.has(`${x},${y}`)}
+            visibility={getVisibility(x, y)}
+            theme={theme}
+            showGrid={showGrid}
+            animations={animations}
+            onClick={onCellClick ? () => onCellClick(x, y) : undefined}
+          />
+        ))
+      )}
+    </div>
+  );
+  
+  if (bare) return grid;
   
   return (
     <div className="flex flex-col items-center">
       <div className="maze-container bg-white p-4 rounded-xl shadow-2xl border-2 border-gray-200">
-        <div 
-          className="maze-grid relative"
-          style={{
-            display: 'grid',
-            gridTemplateColumns: `repeat(${maze[0].length}, ${cellSize}px)`,
-            gridTemplateRows: `repeat(${maze.length}, ${cellSize}px)`,
-            gap: showGrid ? '1px' : '0px'
-          }}
-        >
-          {maze.map((row, y) =>
-            row.map((cellValue, x) => (
-              <MazeCell
-                key={`cell-${x}-${y}`}
-                type={getCellType(cellValue)}
-                x={x}
-                y={y}
-                cellSize={cellSize}
-                hasPlayer={hasPlayer(x, y)}
-                hasEnemy={hasEnemy(x, y)}
-                theme={theme}
-                showGrid={showGrid}
-                animations={animations}
-                onClick={onCellClick ? () => onCellClick(x, y) : undefined}
-              />
-            ))
-          )}
-        </div>
+        {grid}
       </div>
       
-      {/* Legend */}
-      <div className="mt-4 flex flex-wrap justify-center gap-4 text-xs bg-gray-50 p-3 rounded-lg">
-        <div className="flex items-center gap-1">
-          <span>😊</span>
-          <span>Player</span>
-        </div>
-        <div className="flex items-center gap-1">
-          <span>👾</span>
-          <span>Enemy</span>
-        </div>
-        <div className="flex items-center gap-1">
-          <span>⭐</span>
-          <span>Star</span>
-        </div>
-        <div className="flex items-center gap-1">
-          <span>🚪</span>
-          <span>Exit</span>
-        </div>
-        <div className="flex items-center gap-1">
-          <div className="w-3 h-3 bg-gray-800 rounded"></div>
-          <span>Wall</span>
-        </div>
-      </div>
+      <MazeLegend showGhost={!!ghostPos} maze={maze} />
     </div>
   );
 };
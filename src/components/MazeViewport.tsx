@@ -0,0 +1,227 @@
+// MazeViewport.tsx - Scrolling, Zoomable View onto Large Mazes
+import React, { useState, useEffect, useRef } from 'react';
+import { ZoomIn, ZoomOut, Map as MapIcon } from 'lucide-react';
+import { GAME_CONFIG } from '../utilities/gameConstant';
+import { type Camera, getCameraGoal, clampCamera, stepCamera, clampCellSize } from '../utilities/camera';
+import { type MazeRendererProps, MazeLegend } from './MazeRenderer';
+import Minimap from './Minimap';
+
+// ==================== INTERFACES ====================
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+interface MazeViewportProps extends MazeRendererProps {
+  /** Draws the maze; any renderer taking `MazeRendererProps` */
+  renderer: React.ComponentType<MazeRendererProps>;
+}
+
+// ==================== CONSTANTS ====================
+
+/** The view never takes more than this share of the window's height */
+const VIEW_HEIGHT_SHARE = 0.65;
+
+/** Camera moves smaller than this many cells count as settled */
+const SETTLE_DISTANCE = 0.01;
+
+// ==================== MAIN COMPONENT ====================
+
+/**
+ * Shows as much of the maze as fits, following the player with a dead-zone
+ * camera. Wheel or pinch to zoom between the configured cell sizes; a
+ * minimap in the corner shows the explored maze, the exit and the stars left.
+ */
+const MazeViewport: React.FC<MazeViewportProps> = ({
+  renderer: Renderer,
+  cellSize = GAME_CONFIG.CELL_SIZE,
+  ...rendererProps
+}) => {
+  const { maze, playerPos, ghostPos, visibility, theme = 'default' } = rendererProps;
+
+  const [zoom, setZoom] = useState(() => clampCellSize(cellSize));
+  const [showMinimap, setShowMinimap] = useState(true);
+  const [viewSize, setViewSize] = useState({ width: 0, height: 0 });
+
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const cameraRef = useRef<Camera | null>(null);
+  const pointersRef = useRef(new Map<number, Position>());
+  const pinchRef = useRef<{ distance: number; cellSize: number } | null>(null);
+
+  const mazeWidth = maze[0]?.length ?? 0;
+  const mazeHeight = maze.length;
+  const viewHeight = Math.min(mazeHeight * zoom, viewSize.height);
+
+  // Track the space available; the width comes from layout, the height from the window
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const measure = () => setViewSize({
+      width: viewport.clientWidth,
+      height: Math.round(window.innerHeight * VIEW_HEIGHT_SHARE)
+    });
+    measure();
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(viewport);
+    window.addEventListener('resize', measure);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', measure);
+    };
+  }, []);
+
+  // Wheel zoom; a passive React listener couldn't keep the page from scrolling
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const factor = event.deltaY < 0 ? GAME_CONFIG.CAMERA.ZOOM_STEP : 1 / GAME_CONFIG.CAMERA.ZOOM_STEP;
+      setZoom(prev => clampCellSize(prev * factor));
+    };
+
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Ease the camera after the player, moving the maze without re-rendering it
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content || viewSize.width === 0 || mazeWidth === 0) return;
+
+    const view = { width: viewSize.width / zoom, height: viewHeight / zoom };
+    const apply = (camera: Camera) => {
+      const x = Math.round(viewSize.width / 2 - camera.x * zoom);
+      const y = Math.round(viewHeight / 2 - camera.y * zoom);
+      content.style.transform = `translate(${x}px, ${y}px)`;
+    };
+
+    // A new level or a reset can put the player out of view; cut to them instead of panning
+    const current = cameraRef.current;
+    const outOfView = !current
+      || Math.abs(playerPos.x + 0.5 - current.x) > view.width / 2
+      || Math.abs(playerPos.y + 0.5 - current.y) > view.height / 2;
+    if (outOfView) {
+      cameraRef.current = clampCamera({ x: playerPos.x + 0.5, y: playerPos.y + 0.5 }, view, mazeWidth, mazeHeight);
+    }
+
+    let frame = 0;
+    let lastTime = performance.now();
+    const tick = (time: number) => {
+      const camera = cameraRef.current!;
+      const goal = clampCamera(getCameraGoal(camera, playerPos, view), view, mazeWidth, mazeHeight);
+      const next = stepCamera(camera, goal, time - lastTime);
+      lastTime = time;
+
+      const settled = Math.abs(next.x - goal.x) < SETTLE_DISTANCE && Math.abs(next.y - goal.y) < SETTLE_DISTANCE;
+      cameraRef.current = settled ? goal : next;
+      apply(cameraRef.current);
+      if (!settled) {
+        frame = requestAnimationFrame(tick);
+      }
+    };
+    tick(lastTime);
+
+    return () => cancelAnimationFrame(frame);
+  }, [playerPos, zoom, viewSize, viewHeight, mazeWidth, mazeHeight]);
+
+  // Pinch zoom scales from the cell size the pinch started at
+  const getPinchDistance = (): number => {
+    const [a, b] = [...pointersRef.current.values()];
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    if (pointersRef.current.size === 2) {
+      pinchRef.current = { distance: getPinchDistance(), cellSize: zoom };
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!pointersRef.current.has(event.pointerId)) return;
+    pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    const pinch = pinchRef.current;
+    if (pinch && pointersRef.current.size === 2 && pinch.distance > 0) {
+      setZoom(clampCellSize(pinch.cellSize * (getPinchDistance() / pinch.distance)));
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    pointersRef.current.delete(event.pointerId);
+    if (pointersRef.current.size < 2) {
+      pinchRef.current = null;
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center w-full min-w-0">
+      <div className="maze-container bg-white p-4 rounded-xl shadow-2xl border-2 border-gray-200 max-w-full">
+        <div
+          ref={viewportRef}
+          className="relative overflow-hidden"
+          style={{
+            width: `${mazeWidth * zoom}px`,
+            maxWidth: '100%',
+            height: `${viewHeight}px`,
+            touchAction: 'none'
+          }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        >
+          <div ref={contentRef} className="absolute top-0 left-0 will-change-transform">
+            <Renderer {...rendererProps} cellSize={zoom} bare />
+          </div>
+
+          {/* View controls */}
+          <div className="absolute top-2 right-2 flex flex-col gap-1">
+            <button
+              onClick={() => setZoom(prev => clampCellSize(prev * GAME_CONFIG.CAMERA.ZOOM_STEP))}
+              disabled={zoom >= GAME_CONFIG.MAX_CELL_SIZE}
+              className="p-1.5 rounded-lg bg-black/50 text-white hover:bg-black/70 disabled:opacity-40 transition-colors"
+              title="Zoom in"
+            >
+              <ZoomIn size={16} />
+            </button>
+            <button
+              onClick={() => setZoom(prev => clampCellSize(prev / GAME_CONFIG.CAMERA.ZOOM_STEP))}
+              disabled={zoom <= GAME_CONFIG.MIN_CELL_SIZE}
+              className="p-1.5 rounded-lg bg-black/50 text-white hover:bg-black/70 disabled:opacity-40 transition-colors"
+              title="Zoom out"
+            >
+              <ZoomOut size={16} />
+            </button>
+            <button
+              onClick={() => setShowMinimap(prev => !prev)}
+              className={`p-1.5 rounded-lg text-white transition-colors ${
+                showMinimap ? 'bg-blue-500/80 hover:bg-blue-500' : 'bg-black/50 hover:bg-black/70'
+              }`}
+              title={showMinimap ? 'Hide minimap' : 'Show minimap'}
+            >
+              <MapIcon size={16} />
+            </button>
+          </div>
+
+          {showMinimap && (
+            <div className="absolute bottom-2 right-2 p-1 rounded-lg bg-black/40 pointer-events-none">
+              <Minimap maze={maze} playerPos={playerPos} explored={visibility?.explored} theme={theme} />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <MazeLegend showGhost={!!ghostPos} maze={maze} />
+    </div>
+  );
+};
+
+export default MazeViewport;
@@ -0,0 +1,78 @@
+// Minimap.tsx - Corner Overview of Mazes Larger than the View
+import React, { useRef, useEffect } from 'react';
+import { type Theme, CELL_TYPES } from '../types/game.types';
+import { GAME_CONFIG } from '../utilities/gameConstant';
+import { THEME_PALETTES } from '../services/spriteAtlas';
+import { isBlockingCell } from '../utilities/hazards';
+
+// ==================== INTERFACES ====================
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+interface MinimapProps {
+  maze: number[][];
+  playerPos: Position;
+  /** Explored cells as "x,y" keys; everything counts as explored when omitted */
+  explored?: Set<string>;
+  theme?: Theme;
+}
+
+// ==================== MAIN COMPONENT ====================
+
+/**
+ * The explored part of the maze at a pixel or few per cell, with the exit and
+ * the stars still to collect marked wherever they are
+ */
+const Minimap: React.FC<MinimapProps> = ({ maze, playerPos, explored, theme = 'default' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const width = maze[0]?.length ?? 0;
+  const height = maze.length;
+  const scale = Math.max(1, Math.floor(GAME_CONFIG.CAMERA.MINIMAP_SIZE / Math.max(width, height, 1)));
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const palette = THEME_PALETTES[theme] ?? THEME_PALETTES.default;
+    ctx.clearRect(0, 0, width * scale, height * scale);
+
+    maze.forEach((row, y) => row.forEach((cell, x) => {
+      if (cell === CELL_TYPES.EXIT) {
+        ctx.fillStyle = palette.exit;
+      } else if (cell === CELL_TYPES.COLLECTIBLE) {
+        ctx.fillStyle = palette.collectible;
+      } else if (!explored || explored.has(`${x},${y}`)) {
+        ctx.fillStyle = isBlockingCell(cell) ? palette.wall : palette.path;
+      } else {
+        return;
+      }
+      ctx.fillRect(x * scale, y * scale, scale, scale);
+    }));
+
+    // The player stays findable even at one pixel per cell
+    const marker = Math.max(scale, 3);
+    ctx.fillStyle = palette.player;
+    ctx.fillRect(
+      (playerPos.x + 0.5) * scale - marker / 2,
+      (playerPos.y + 0.5) * scale - marker / 2,
+      marker,
+      marker
+    );
+  }, [maze, playerPos, explored, theme, width, height, scale]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width * scale}
+      height={height * scale}
+      className="block rounded bg-black/70"
+      style={{ imageRendering: 'pixelated' }}
+    />
+  );
+};
+
+export default Minimap;
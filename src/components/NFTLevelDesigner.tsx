@@ -1,5 +1,18 @@
 // components/NFTLevelDesigner.tsx - Level Design NFT Creator (Corrected)
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
+import { type Level, CELL_TYPES } from '../types/game.types';
+import { SeededRandom, randomSeed } from '../services/random';
+import { generateMaze } from '../utilities/mazeUtilities';
+import { type DifficultyRating, rateMazeDifficulty } from '../utilities/mazeDifficulty';
+import { createBlankLevel, levelFromMaze, levelToMaze } from '../utilities/levelEditor';
+import { useLevelEditor } from '../hooks/useLevelEditor';
+import LevelEditor from './LevelEditor';
+import MazeGame from './MazeGame';
+import {
+  getMazeGenerator,
+  listMazeGenerators,
+  DEFAULT_MAZE_ALGORITHM
+} from '../utilities/mazeGenerators';
 
 interface NFTLevelDesignerProps {
   onCreateLevel: (levelData: any) => void;
@@ -9,60 +22,60 @@ interface NFTLevelDesignerProps {
 // --- Start of Corrected Section ---
 
 // Utility functions for level generation moved before the component
-function generateBasicMaze(width: number, height: number): number[][] {
-  // Basic maze generation algorithm (this would be more sophisticated in practice)
-  const maze = Array(height).fill(null).map(() => Array(width).fill(1));
-  
-  // Simple path carving
-  for (let y = 1; y < height - 1; y += 2) {
-    for (let x = 1; x < width - 1; x += 2) {
-      maze[y][x] = 0; // Create path
-      if (Math.random() > 0.5 && x + 2 < width - 1) maze[y][x + 1] = 0;
-      if (Math.random() > 0.5 && y + 2 < height - 1) maze[y + 1][x] = 0;
-    }
-  }
-  
-  maze[1][1] = 2; // Player start
-  maze[height - 2][width - 2] = 3; // Exit
-  
-  const pathCells: { x: number, y: number }[] = [];
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      if (maze[y][x] === 0) pathCells.push({ x, y });
-    }
-  }
-  
-  const collectibleCount = 3 + Math.floor(Math.random() * 3);
-  for (let i = 0; i < Math.min(collectibleCount, pathCells.length); i++) {
-    const cell = pathCells[Math.floor(Math.random() * pathCells.length)];
-    maze[cell.y][cell.x] = 4; // Collectible
-    pathCells.splice(pathCells.indexOf(cell), 1);
-  }
+function generateBasicMaze(width: number, height: number, seed: number, algorithm: string): number[][] {
+  const rng = new SeededRandom(seed);
+  const collectibleCount = 3 + rng.nextInt(3);
+
+  const maze = generateMaze(width, height, collectibleCount, seed, algorithm);
+  maze[1][1] = CELL_TYPES.PLAYER; // Player start
   
   return maze;
 }
 
-async function generateAILevel(size: { width: number; height: number }, difficulty: number) {
+// Generated mazes are a starting point for the editor; difficulty is rated
+// from the edited layout rather than picked by the designer
+async function generateAILevel(
+  size: { width: number; height: number },
+  seed: number,
+  algorithm: string
+) {
   // This would integrate with an AI service in a real application
+  const maze = generateBasicMaze(size.width, size.height, seed, algorithm);
   return {
-    maze: generateBasicMaze(size.width, size.height),
-    difficulty,
-    complexity: Math.floor((size.width + size.height) / 2) + difficulty,
+    maze,
     isAIGenerated: true,
-    metadata: { algorithm: 'AI-Enhanced', theme: 'Procedural' }
+    metadata: { algorithm: getMazeGenerator(algorithm).label, theme: 'Procedural', seed }
   };
 }
 
-async function generateBasicLevel(size: { width: number; height: number }, difficulty: number) {
+async function generateBasicLevel(
+  size: { width: number; height: number },
+  seed: number,
+  algorithm: string
+) {
+  const maze = generateBasicMaze(size.width, size.height, seed, algorithm);
   return {
-    maze: generateBasicMaze(size.width, size.height),
-    difficulty,
-    complexity: Math.floor((size.width + size.height) / 2),
+    maze,
     isAIGenerated: false,
-    metadata: { algorithm: 'Recursive Backtracking', theme: 'Classic' }
+    metadata: { algorithm: getMazeGenerator(algorithm).label, theme: 'Classic', seed }
   };
 }
 
+type LevelOrigin = Omit<Awaited<ReturnType<typeof generateBasicLevel>>, 'maze'>;
+
+const HAND_DRAWN: LevelOrigin = {
+  isAIGenerated: false,
+  metadata: { algorithm: 'Hand-drawn', theme: 'Custom', seed: 0 }
+};
+
+const RATING_FACTORS: { key: keyof DifficultyRating['factors']; label: string }[] = [
+  { key: 'length', label: 'Route Length' },
+  { key: 'branching', label: 'Branching' },
+  { key: 'deadEnds', label: 'Dead Ends' },
+  { key: 'enemies', label: 'Enemy Pressure' },
+  { key: 'time', label: 'Time Pressure' }
+];
+
 // --- End of Helper Functions ---
 
 export const NFTLevelDesigner: React.FC<NFTLevelDesignerProps> = ({
@@ -70,21 +83,36 @@ export const NFTLevelDesigner: React.FC<NFTLevelDesignerProps> = ({
   isAIEnabled
 }) => {
   const [mazeSize, setMazeSize] = useState({ width: 15, height: 15 });
-  const [difficulty, setDifficulty] = useState(1);
   const [useAI, setUseAI] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [seedInput, setSeedInput] = useState('');
+  const [algorithm, setAlgorithm] = useState<string>(DEFAULT_MAZE_ALGORITHM);
+  const [origin, setOrigin] = useState<LevelOrigin | null>(null);
+  const [testLevels, setTestLevels] = useState<Level[] | null>(null);
+  const editor = useLevelEditor(createBlankLevel(mazeSize.width, mazeSize.height));
+  const { level, loadLevel } = editor;
+
+  // Rated live, so hand edits show up in the difficulty straight away
+  const rating: DifficultyRating = useMemo(() => rateMazeDifficulty(level.maze, {
+    start: level.playerStart,
+    exit: level.exitPosition,
+    enemies: level.enemyPositions,
+    timeLimit: level.timeLimit
+  }), [level]);
 
   const generateLevel = async () => {
     setIsGenerating(true);
     
     try {
-      if (useAI && isAIEnabled) {
-        const aiLevelData = await generateAILevel(mazeSize, difficulty);
-        onCreateLevel(aiLevelData);
-      } else {
-        const manualLevelData = await generateBasicLevel(mazeSize, difficulty);
-        onCreateLevel(manualLevelData);
-      }
+      // A blank seed field means "surprise me"; the chosen seed is kept in the metadata
+      const parsedSeed = parseInt(seedInput, 10);
+      const seed = Number.isNaN(parsedSeed) ? randomSeed() : parsedSeed;
+
+      const { maze, ...generated } = useAI && isAIEnabled
+        ? await generateAILevel(mazeSize, seed, algorithm)
+        : await generateBasicLevel(mazeSize, seed, algorithm);
+      loadLevel(levelFromMaze(maze, 0, level.name));
+      setOrigin(generated);
     } catch (error) {
       console.error('Failed to generate level:', error);
     } finally {
@@ -92,6 +120,39 @@ export const NFTLevelDesigner: React.FC<NFTLevelDesignerProps> = ({
     }
   };
 
+  const startBlank = () => {
+    loadLevel(createBlankLevel(mazeSize.width, mazeSize.height, 0, level.name));
+    setOrigin(HAND_DRAWN);
+  };
+
+  const createLevel = () => {
+    if (!origin || !editor.validation.isValid) return;
+    onCreateLevel({
+      maze: levelToMaze(level),
+      difficulty: rating.score,
+      complexity: Math.floor((level.maze[0].length + level.maze.length) / 2) + (origin.isAIGenerated ? rating.score : 0),
+      isAIGenerated: origin.isAIGenerated,
+      metadata: {
+        ...origin.metadata,
+        name: level.name,
+        timeLimit: level.timeLimit,
+        solutionLength: rating.solutionLength
+      }
+    });
+  };
+
+  const difficulty = origin ? rating.score : 0;
+  const complexity = Math.floor((level.maze[0].length + level.maze.length) / 2) + difficulty;
+
+  // Test play takes over the screen until the player leaves through the menu
+  if (testLevels) {
+    return (
+      <div className="fixed inset-0 z-50 overflow-auto">
+        <MazeGame levels={testLevels} testPlay onExit={() => setTestLevels(null)} />
+      </div>
+    );
+  }
+
   return (
     <div className="p-6 bg-gray-800 rounded-xl text-white">
       <h2 className="text-2xl font-bold mb-6">Create Level Design NFT</h2>
@@ -136,18 +197,33 @@ export const NFTLevelDesigner: React.FC<NFTLevelDesignerProps> = ({
           </div>
         </div>
 
-        {/* Difficulty */}
+        {/* Algorithm */}
         <div>
-          <label className="block text-sm font-medium mb-2">
-            Difficulty: {['Easy', 'Normal', 'Hard', 'Expert', 'Master'][difficulty - 1]}
-          </label>
+          <label className="block text-sm font-medium mb-2">Algorithm</label>
+          <select
+            value={algorithm}
+            onChange={(e) => setAlgorithm(e.target.value)}
+            className="w-full bg-gray-700 rounded-lg px-3 py-2 text-sm"
+          >
+            {listMazeGenerators().map((generator) => (
+              <option key={generator.name} value={generator.name}>
+                {generator.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-400 mt-1">{getMazeGenerator(algorithm).description}</p>
+        </div>
+
+        {/* Seed */}
+        <div>
+          <label className="block text-sm font-medium mb-2">Seed</label>
           <input
-            type="range"
-            min="1"
-            max="5"
-            value={difficulty}
-            onChange={(e) => setDifficulty(parseInt(e.target.value))}
-            className="w-full"
+            type="text"
+            inputMode="numeric"
+            placeholder="Random"
+            value={seedInput}
+            onChange={(e) => setSeedInput(e.target.value.replace(/[^0-9-]/g, ''))}
+            className="w-full bg-gray-700 rounded-lg px-3 py-2 text-sm"
           />
         </div>
 
@@ -167,6 +243,59 @@ export const NFTLevelDesigner: React.FC<NFTLevelDesignerProps> = ({
           </div>
         )}
 
+        {/* Starting Point */}
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={generateLevel}
+            disabled={isGenerating}
+            className="py-3 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 rounded-lg font-bold transition-all duration-200"
+          >
+            {isGenerating ? 'Generating Level...' : origin ? 'Generate Another' : 'Generate Maze'}
+          </button>
+          <button
+            onClick={startBlank}
+            disabled={isGenerating}
+            className="py-3 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 rounded-lg font-bold transition-all duration-200"
+          >
+            Blank Canvas
+          </button>
+        </div>
+
+        {/* Editor and Difficulty Rating */}
+        {origin && (
+          <>
+            <LevelEditor editor={editor} onTestPlay={(testLevel) => setTestLevels([testLevel])} />
+
+            <div className="bg-gray-700 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-medium">Difficulty Rating</h3>
+                <span className={`text-2xl font-bold ${rating.solvable ? 'text-yellow-400' : 'text-red-400'}`}>
+                  {rating.solvable ? `${rating.score}/10` : 'Unsolvable'}
+                </span>
+              </div>
+              <div className="space-y-2 text-sm">
+                {RATING_FACTORS.map(({ key, label }) => (
+                  <div key={key}>
+                    <div className="flex justify-between text-xs text-gray-400 mb-1">
+                      <span>{label}</span>
+                      <span>{Math.round(rating.factors[key] * 100)}%</span>
+                    </div>
+                    <div className="w-full bg-gray-600 rounded-full h-1.5">
+                      <div
+                        className="bg-purple-500 h-1.5 rounded-full"
+                        style={{ width: `${rating.factors[key] * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+                <div className="text-xs text-gray-400 pt-1">
+                  Shortest full route: {rating.solutionLength} moves • {rating.deadEndCount} dead ends
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+
         {/* Generation Stats Preview */}
         <div className="bg-gray-700 rounded-lg p-4">
           <h3 className="font-medium mb-3">Estimated NFT Properties</h3>
@@ -174,14 +303,14 @@ export const NFTLevelDesigner: React.FC<NFTLevelDesignerProps> = ({
             <div>
               <span className="text-gray-400">Complexity Score:</span>
               <span className="ml-2 font-medium">
-                {Math.floor((mazeSize.width + mazeSize.height) / 2) + difficulty}
+                {complexity}
               </span>
             </div>
             <div>
               <span className="text-gray-400">Expected Rarity:</span>
               <span className="ml-2 font-medium">
                 {(() => {
-                  const score = Math.floor((mazeSize.width + mazeSize.height) / 2) + difficulty;
+                  const score = complexity;
                   if (useAI) return score >= 12 ? 'Epic-Legendary' : 'Rare-Epic';
                   if (score >= 15) return 'Legendary';
                   if (score >= 12) return 'Epic';
@@ -194,13 +323,12 @@ export const NFTLevelDesigner: React.FC<NFTLevelDesignerProps> = ({
           </div>
         </div>
 
-        {/* Generate Button */}
         <button
-          onClick={generateLevel}
-          disabled={isGenerating}
+          onClick={createLevel}
+          disabled={!origin || !editor.validation.isValid}
           className="w-full py-3 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 disabled:from-gray-600 disabled:to-gray-700 rounded-lg font-bold transition-all duration-200"
         >
-          {isGenerating ? 'Generating Level...' : 'Create Level Design NFT'}
+          Create Level Design NFT
         </button>
       </div>
     </div>
@@ -0,0 +1,234 @@
+// ReplayPlayer.tsx - Replay Playback Screen
+import React, { useState, useEffect } from 'react';
+import {
+  Play,
+  Pause,
+  SkipBack,
+  Share2,
+  Download,
+  X,
+  Star,
+  Clock,
+  Trophy
+} from 'lucide-react';
+import type { Level, Theme } from '../types/game.types';
+import { type Replay, REPLAY_SPEEDS, getReplayShareUrl } from '../services/replay';
+import { useReplayPlayer } from '../hooks/useReplayPlayer';
+import MazeRenderer from './MazeRenderer';
+
+// ==================== INTERFACES ====================
+
+interface ReplayPlayerProps {
+  replay: Replay;
+  level: Level;
+  theme?: Theme;
+  animations?: boolean;
+  onClose: () => void;
+}
+
+// ==================== HELPERS ====================
+
+const formatReplayTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  const tenths = Math.floor((ms % 1000) / 100);
+  return `${mins}:${secs.toString().padStart(2, '0')}.${tenths}`;
+};
+
+const downloadReplay = (replay: Replay) => {
+  const blob = new Blob([JSON.stringify(replay, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `maze-replay-level${replay.levelId}-${replay.seed >>> 0}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// ==================== MAIN COMPONENT ====================
+
+const ReplayPlayer: React.FC<ReplayPlayerProps> = ({
+  replay,
+  level,
+  theme = 'default',
+  animations = true,
+  onClose
+}) => {
+  const {
+    engine,
+    positionMs,
+    durationMs,
+    isPlaying,
+    speed,
+    togglePlay,
+    seek,
+    setSpeed
+  } = useReplayPlayer(replay, level);
+
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+
+  // Space toggles playback, arrow keys step a second, ESC leaves
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      switch (e.key) {
+        case ' ':
+          e.preventDefault();
+          togglePlay();
+          break;
+        case 'ArrowLeft':
+          seek(positionMs - 1000);
+          break;
+        case 'ArrowRight':
+          seek(positionMs + 1000);
+          break;
+        case 'Escape':
+          onClose();
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [togglePlay, seek, positionMs, onClose]);
+
+  const handleShare = async () => {
+    const url = getReplayShareUrl(replay);
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareStatus('Link copied!');
+    } catch (error) {
+      console.warn('Failed to copy replay link:', error);
+      setShareStatus('Copy failed');
+    }
+    setTimeout(() => setShareStatus(null), 2000);
+  };
+
+  const resultLabel = replay.result === 'won' ? 'Cleared' : replay.result === 'lost' ? 'Failed' : 'Unfinished';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-900 p-4">
+      <div className="max-w-4xl mx-auto space-y-4">
+
+        {/* Header */}
+        <div className="bg-black/40 backdrop-blur-md rounded-xl p-4 shadow-2xl border border-white/10 text-white">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <div className="text-xs uppercase tracking-wide opacity-60">Replay</div>
+              <div className="text-xl font-bold">Level {level.id}: {level.name}</div>
+              <div className="text-sm opacity-75 capitalize">
+                {replay.difficulty} • {resultLabel} • Seed {replay.seed >>> 0}
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+              aria-label="Close replay"
+            >
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap justify-center gap-6 mt-4">
+            <div className="flex items-center gap-2">
+              <Trophy size={16} className="text-blue-300" />
+              <span className="font-bold">{engine.score.toLocaleString()}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Clock size={16} className="text-blue-300" />
+              <span className="font-bold">{engine.timeLeft}s</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Star size={16} className="text-yellow-400" />
+              <span className="font-bold">{engine.collectedItems}/{level.collectibles}</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Maze */}
+        <div className="flex justify-center">
+          <MazeRenderer
+            maze={engine.maze}
+            playerPos={engine.playerPos}
+            enemies={engine.enemies.map(enemy => enemy.position)}
+            theme={theme}
+            animations={animations}
+            cellSize={24}
+            showGrid={false}
+          />
+        </div>
+
+        {/* Transport Controls */}
+        <div className="bg-black/40 backdrop-blur-md rounded-xl p-4 shadow-2xl border border-white/10 text-white space-y-4">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => seek(0)}
+              className="p-2 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+              aria-label="Restart replay"
+            >
+              <SkipBack size={20} />
+            </button>
+            <button
+              onClick={togglePlay}
+              className="p-2 rounded-lg bg-blue-500 hover:bg-blue-600 transition-colors"
+              aria-label={isPlaying ? 'Pause replay' : 'Play replay'}
+            >
+              {isPlaying ? <Pause size={20} /> : <Play size={20} />}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={durationMs}
+              step={100}
+              value={positionMs}
+              onChange={(e) => seek(Number(e.target.value))}
+              className="flex-1 accent-blue-500"
+              aria-label="Replay position"
+            />
+            <span className="font-mono text-sm whitespace-nowrap">
+              {formatReplayTime(positionMs)} / {formatReplayTime(durationMs)}
+            </span>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex gap-2">
+              {REPLAY_SPEEDS.map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setSpeed(option)}
+                  className={`px-3 py-1 rounded-lg text-sm font-bold transition-colors ${
+                    speed === option
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-white/20 text-white/70 hover:bg-white/30'
+                  }`}
+                >
+                  {option}x
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              {shareStatus && <span className="text-sm text-white/70">{shareStatus}</span>}
+              <button
+                onClick={handleShare}
+                className="flex items-center gap-2 px-3 py-1 rounded-lg bg-white/20 hover:bg-white/30 text-sm font-bold transition-colors"
+              >
+                <Share2 size={16} />
+                Share
+              </button>
+              <button
+                onClick={() => downloadReplay(replay)}
+                className="flex items-center gap-2 px-3 py-1 rounded-lg bg-white/20 hover:bg-white/30 text-sm font-bold transition-colors"
+              >
+                <Download size={16} />
+                Export
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayPlayer;
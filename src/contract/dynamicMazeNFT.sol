@@ -106,6 +106,7 @@ contract DynamicMazeNFT is ERC721Enumerable, ERC721URIStorage, Ownable, Reentran
 
     /**
      * @dev Mint level design NFT from user-created or AI-generated levels
+     * @param difficulty Rated 1-10 off-chain by analysing the maze itself
      */
     function mintLevelDesign(
         address to,
@@ -114,6 +115,8 @@ contract DynamicMazeNFT is ERC721Enumerable, ERC721URIStorage, Ownable, Reentran
         bool isAIGenerated,
         string memory mazeData
     ) external onlyGameContract returns (uint256) {
+        require(difficulty >= 1 && difficulty <= 10, "Difficulty out of range");
+
         _tokenIdCounter.increment();
         uint256 tokenId = _tokenIdCounter.current();
 
@@ -1,254 +1,168 @@
 // hooks/useEnemyAI.ts - Enemy AI Behavior Hook
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { type Position, type GameState, CELL_TYPES } from '../types/game.types';
+import { GAME_CONFIG } from '../utilities/gameConstant';
+import { findCellPositions } from '../utilities/collision';
+import { type EngineState, type EngineInput, getLevelEnemyInterval } from '../services/gameEngine';
+import { type EnemyDebugState, EnemyController } from '../services/enemyController';
+import { getPatternInsights } from '../services/enhancedEnemyStrategy';
+import { type GameContext, useOpenRouterAI } from '../services/openRouterAI';
 
 interface EnemyAI {
+  /** Where the enemies are, for the renderers */
   enemies: Position[];
-  updateEnemies: () => void;
-  setEnemies: (enemies: Position[]) => void;
-  resetEnemies: (initialEnemies: Position[]) => void;
+  /** What each enemy is up to, for debug panels */
+  debugState: EnemyDebugState[];
+  /** What the enemies have worked out about the player */
+  insights: string[];
   isPlayerCaught: (playerPos: Position) => boolean;
+  /** Milliseconds between moves at the level's pace; each enemy's speed scales its own clock */
   enemyMoveInterval: number;
 }
 
+interface EnemyPlanner {
+  apiKey: string;
+  model: string;
+}
+
+const NO_ENEMIES: EngineState['enemies'] = [];
+
+/** How often language-model enemies ask for new orders; one request runs at a time */
+const LLM_PLAN_INTERVAL = 2000;
+
+/**
+ * Exposes the engine's enemies, whatever kind they are. Every kind moves
+ * inside the engine on its clock (see `EnemyController`); this hook only
+ * fetches orders for language-model enemies and hands them to the engine.
+ */
 export const useEnemyAI = (
-  maze: number[][],
-  playerPos: Position,
+  engine: EngineState | null,
+  advance: (input?: EngineInput) => void,
   gameState: GameState,
-  difficulty: 'easy' | 'normal' | 'hard' = 'normal'
+  planner: EnemyPlanner
 ): EnemyAI => {
-  const [enemies, setEnemies] = useState<Position[]>([]);
-  const moveHistoryRef = useRef<Map<string, Position[]>>(new Map());
-  
-  const enemyMoveInterval = difficulty === 'easy' ? 1200 : difficulty === 'normal' ? 800 : 500;
-  const chaseChance = difficulty === 'easy' ? 0.2 : difficulty === 'normal' ? 0.3 : 0.4;
-
-  const isValidEnemyMove = useCallback((x: number, y: number): boolean => {
-    if (!maze || maze.length === 0) return false;
-    return (
-      y >= 0 && 
-      y < maze.length && 
-      x >= 0 && 
-      x < maze[0].length &&
-      maze[y][x] !== CELL_TYPES.WALL
-    );
-  }, [maze]);
-
-  const getDistance = useCallback((pos1: Position, pos2: Position): number => {
-    return Math.abs(pos1.x - pos2.x) + Math.abs(pos1.y - pos2.y);
-  }, []);
-
-  const findPathToPlayer = useCallback((enemyPos: Position): Position | null => {
-    const directions = [
-      { x: 0, y: -1 }, // up
-      { x: 0, y: 1 },  // down
-      { x: -1, y: 0 }, // left
-      { x: 1, y: 0 }   // right
+  const engineEnemies = engine?.enemies ?? NO_ENEMIES;
+  const playerTrail = engine?.playerTrail;
+  const difficulty = engine?.difficulty ?? 'normal';
+  const { chaseChance } = GAME_CONFIG.DIFFICULTY_MODIFIERS[difficulty];
+  const enemyMoveInterval = engine
+    ? Math.round(getLevelEnemyInterval(engine))
+    : GAME_CONFIG.ENEMY_MOVE_INTERVAL[difficulty];
+
+  const [plannerInsights, setPlannerInsights] = useState<string[]>([]);
+  const openRouterAI = useOpenRouterAI(planner.apiKey, planner.model);
+
+  const enemies = useMemo(() => engineEnemies.map(enemy => enemy.position), [engineEnemies]);
+  const debugState = useMemo(() => EnemyController.debugState(engineEnemies), [engineEnemies]);
+
+  const insights = useMemo(() => {
+    if (plannerInsights.length > 0) return plannerInsights;
+    const patternInsights = playerTrail && debugState.some(enemy => enemy.kind !== 'basic')
+      ? getPatternInsights(playerTrail)
+      : [];
+    if (patternInsights.length === 0) return [];
+
+    const stateCount = debugState.reduce((acc, enemy) => {
+      acc[enemy.behavior] = (acc[enemy.behavior] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+    return [
+      ...patternInsights,
+      `Enemy states: ${Object.entries(stateCount).map(([state, count]) => `${count} ${state}`).join(', ')}`
     ];
+  }, [plannerInsights, playerTrail, debugState]);
 
-    let bestMove: Position | null = null;
-    let shortestDistance = Infinity;
-
-    directions.forEach(dir => {
-      const newPos = { x: enemyPos.x + dir.x, y: enemyPos.y + dir.y };
-      
-      if (isValidEnemyMove(newPos.x, newPos.y)) {
-        const distance = getDistance(newPos, playerPos);
-        if (distance < shortestDistance) {
-          shortestDistance = distance;
-          bestMove = newPos;
-        }
-      }
-    });
-
-    return bestMove;
-  }, [playerPos, isValidEnemyMove, getDistance]);
+  const isPlayerCaught = useCallback((playerPosition: Position): boolean => {
+    return EnemyController.collides(engineEnemies, playerPosition);
+  }, [engineEnemies]);
 
-  const getRandomMove = useCallback((enemyPos: Position): Position | null => {
-    const directions = [
-      { x: 0, y: -1 }, // up
-      { x: 0, y: 1 },  // down
-      { x: -1, y: 0 }, // left
-      { x: 1, y: 0 }   // right
-    ];
+  // Language-model enemies: ask for orders on a slow cadence from the latest state
+  const engineRef = useRef(engine);
+  const getAIDecisionsRef = useRef(openRouterAI.getAIDecisions);
+  useEffect(() => {
+    engineRef.current = engine;
+    getAIDecisionsRef.current = openRouterAI.getAIDecisions;
+  });
 
-    const validMoves: Position[] = [];
-    const enemyKey = `${enemyPos.x},${enemyPos.y}`;
-    const history = moveHistoryRef.current.get(enemyKey) || [];
-
-    directions.forEach(dir => {
-      const newPos = { x: enemyPos.x + dir.x, y: enemyPos.y + dir.y };
-      
-      if (isValidEnemyMove(newPos.x, newPos.y)) {
-        // Avoid recent positions to prevent getting stuck
-        const wasRecentlyHere = history.some(histPos => 
-          histPos.x === newPos.x && histPos.y === newPos.y
-        );
-        
-        if (!wasRecentlyHere || validMoves.length === 0) {
-          validMoves.push(newPos);
-        }
-      }
-    });
-
-    if (validMoves.length === 0) return null;
-    
-    return validMoves[Math.floor(Math.random() * validMoves.length)];
-  }, [isValidEnemyMove]);
-
-  const updateEnemyHistory = useCallback((enemyPos: Position, newPos: Position) => {
-    const enemyKey = `${enemyPos.x},${enemyPos.y}`;
-    const history = moveHistoryRef.current.get(enemyKey) || [];
-    
-    history.push(enemyPos);
-    if (history.length > 3) history.shift(); // Keep last 3 positions
-    
-    moveHistoryRef.current.set(`${newPos.x},${newPos.y}`, history);
-    moveHistoryRef.current.delete(enemyKey);
-  }, []);
-
-  const updateEnemies = useCallback(() => {
-    if (gameState !== 'playing' || enemies.length === 0) return;
-
-    setEnemies(prevEnemies => 
-      prevEnemies.map(enemy => {
-        const shouldChasePlayer = Math.random() < chaseChance;
-        let newPos: Position | null = null;
-
-        if (shouldChasePlayer) {
-          // Try to move towards player
-          newPos = findPathToPlayer(enemy);
-        }
-        
-        // If not chasing or no valid chase move, move randomly
-        if (!newPos) {
-          newPos = getRandomMove(enemy);
-        }
-
-        if (newPos) {
-          updateEnemyHistory(enemy, newPos);
-          return newPos;
-        }
-
-        return enemy;
-      })
-    );
-  }, [gameState, enemies.length, chaseChance, findPathToPlayer, getRandomMove, updateEnemyHistory]);
+  const hasGuidedEnemies = engineEnemies.some(enemy => enemy.kind === 'llm');
+  const planning = gameState === 'playing' && hasGuidedEnemies && openRouterAI.isAvailable;
+  // A new run of a level, such as a reset, drops orders meant for the last one
+  const runLevel = engine?.level;
+  const runSeed = engine?.seed;
 
-  const isPlayerCaught = useCallback((playerPosition: Position): boolean => {
-    return enemies.some(enemy => 
-      enemy.x === playerPosition.x && enemy.y === playerPosition.y
-    );
-  }, [enemies]);
-
-  const resetEnemies = useCallback((initialEnemies: Position[]) => {
-    setEnemies(initialEnemies);
-    moveHistoryRef.current.clear();
-  }, []);
-
-  // Advanced AI behaviors
-  const shouldPatrol = useCallback((enemyPos: Position): boolean => {
-    // Enemies patrol when player is far away
-    const distanceToPlayer = getDistance(enemyPos, playerPos);
-    return distanceToPlayer > 5; // Patrol when player is more than 5 cells away
-  }, [getDistance, playerPos]);
-
-  const findPatrolMove = useCallback((enemyPos: Position): Position | null => {
-    const directions = [
-      { x: 0, y: -1 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: 1, y: 0 }
-    ];
-    
-    // Prefer moves that explore new areas or continue in same direction
-    const validMoves = directions
-      .map(dir => ({ x: enemyPos.x + dir.x, y: enemyPos.y + dir.y }))
-      .filter(pos => isValidEnemyMove(pos.x, pos.y));
-    
-    if (validMoves.length === 0) return null;
-    
-    // Simple patrol logic - try to move in straight lines when possible
-    const enemyKey = `${enemyPos.x},${enemyPos.y}`;
-    const history = moveHistoryRef.current.get(enemyKey) || [];
-    
-    if (history.length > 0) {
-      const lastPos = history[history.length - 1];
-      const lastDirection = {
-        x: enemyPos.x - lastPos.x,
-        y: enemyPos.y - lastPos.y
-      };
-      
-      // Try to continue in same direction
-      const continueStraight = {
-        x: enemyPos.x + lastDirection.x,
-        y: enemyPos.y + lastDirection.y
-      };
-      
-      if (isValidEnemyMove(continueStraight.x, continueStraight.y)) {
-        return continueStraight;
-      }
-    }
-    
-    // Otherwise pick random valid move
-    return validMoves[Math.floor(Math.random() * validMoves.length)];
-  }, [isValidEnemyMove]);
-
-  const getSmartMove = useCallback((enemyPos: Position): Position | null => {
-    const distanceToPlayer = getDistance(enemyPos, playerPos);
-    
-    // Different behaviors based on distance and difficulty
-    if (distanceToPlayer <= 2 && difficulty === 'hard') {
-      // Close range - always chase on hard difficulty
-      return findPathToPlayer(enemyPos);
-    } else if (distanceToPlayer <= 4 && Math.random() < chaseChance) {
-      // Medium range - chance to chase
-      return findPathToPlayer(enemyPos);
-    } else if (shouldPatrol(enemyPos)) {
-      // Far away - patrol behavior
-      return findPatrolMove(enemyPos);
-    } else {
-      // Default random movement
-      return getRandomMove(enemyPos);
+  useEffect(() => {
+    if (!planning) {
+      setPlannerInsights([]);
+      return;
     }
-  }, [difficulty, getDistance, playerPos, chaseChance, findPathToPlayer, shouldPatrol, findPatrolMove, getRandomMove]);
-
-  // Enhanced update function with smarter AI
-  const updateEnemiesSmarter = useCallback(() => {
-    if (gameState !== 'playing' || enemies.length === 0) return;
 
-    setEnemies(prevEnemies => 
-      prevEnemies.map(enemy => {
-        const newPos = getSmartMove(enemy);
-        
-        if (newPos) {
-          updateEnemyHistory(enemy, newPos);
-          return newPos;
-        }
+    let pending = false;
+    let cancelled = false;
+    const requestPlans = async () => {
+      const current = engineRef.current;
+      if (pending || cancelled || !current) return;
+
+      const guided = EnemyController.debugState(current.enemies).filter(enemy => enemy.kind === 'llm');
+      const context: GameContext = {
+        maze: current.maze,
+        playerPos: current.playerPos,
+        playerHistory: current.playerTrail,
+        enemies: guided.map(enemy => ({
+          id: enemy.id,
+          pos: enemy.position,
+          personality: enemy.type,
+          state: enemy.behavior,
+          energy: enemy.energy ?? 100
+        })),
+        collectibles: findCellPositions(current.maze, CELL_TYPES.COLLECTIBLE),
+        gameTime: Math.floor(current.elapsedMs / 1000),
+        difficulty: current.difficulty
+      };
 
-        return enemy;
-      })
-    );
-  }, [gameState, enemies.length, getSmartMove, updateEnemyHistory]);
+      pending = true;
+      try {
+        const response = await getAIDecisionsRef.current(context);
+        // Paused, left or moved on to another level while the model was thinking
+        if (cancelled) return;
+        advance({
+          enemyPlans: response.enemyMoves.map(move => ({
+            enemyId: move.enemyId,
+            position: move.newPosition,
+            behavior: move.newState,
+            reasoning: move.reasoning
+          }))
+        });
+        setPlannerInsights(response.strategicInsights);
+      } catch (error) {
+        console.warn('Enemy orders failed, enemies keep acting on their own:', error);
+      } finally {
+        pending = false;
+      }
+    };
 
-  // Use smarter AI for normal and hard difficulties
-  const finalUpdateEnemies = difficulty === 'easy' ? updateEnemies : updateEnemiesSmarter;
+    const planLoop = setInterval(requestPlans, LLM_PLAN_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(planLoop);
+    };
+  }, [planning, advance, runLevel, runSeed]);
 
   // Debug logging in development
   useEffect(() => {
-    if (process.env.NODE_ENV === 'development' && enemies.length > 0) {
+    if (process.env.NODE_ENV === 'development' && engineEnemies.length > 0) {
       console.log('Enemy AI State:', {
-        enemyCount: enemies.length,
+        enemyCount: engineEnemies.length,
         difficulty,
         chaseChance,
-        moveInterval: enemyMoveInterval,
-        gameState
+        moveInterval: enemyMoveInterval
       });
     }
-  }, [enemies.length, difficulty, chaseChance, enemyMoveInterval, gameState]);
+  }, [engineEnemies.length, difficulty, chaseChance, enemyMoveInterval]);
 
   return {
     enemies,
-    updateEnemies: finalUpdateEnemies,
-    setEnemies,
-    resetEnemies,
+    debugState,
+    insights,
     isPlayerCaught,
     enemyMoveInterval
   };
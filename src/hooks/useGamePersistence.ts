@@ -1,21 +1,59 @@
 // src/hooks/useGamePersistence.ts - Local Storage for Game Progress
 import { useState, useEffect, useCallback } from 'react';
-import type { GameSettings, HighScore, PlayerStats } from '../types/game.types';
+import type { GameSettings, HighScore, EndlessRun, DailyResult, GhostRun, Medal, PlayerStats } from '../types/game.types';
 import { DEFAULT_SETTINGS } from '../utilities/gameConstant';
+import { type Replay, REPLAY_VERSION, isBetterReplay } from '../services/replay';
+import { isFasterGhost } from '../services/ghostRun';
+import { ENDLESS_LEADERBOARD_SIZE, compareEndlessRuns } from '../services/endless';
+import { getDailyStreak } from '../services/daily';
+import {
+  type LevelPack,
+  type PackProgress,
+  BUILT_IN_PACK_ID,
+  updatePackProgress
+} from '../services/levelPacks';
 
 interface GamePersistence {
   settings: GameSettings;
   highScores: HighScore[];
+  /** Best endless runs, deepest first */
+  endlessRuns: EndlessRun[];
+  /** Counted daily challenge attempt per UTC day */
+  dailyResults: Record<string, DailyResult>;
+  /** Fastest clear per level id, raced against as a ghost */
+  ghostRuns: Record<number, GhostRun>;
+  /** Packs the player has imported; the built-in pack is not stored */
+  levelPacks: LevelPack[];
+  activePackId: string;
+  /** Progress per pack id */
+  packProgress: Record<string, PackProgress>;
   playerStats: PlayerStats;
+  /** Best recorded run per level id */
+  bestReplays: Record<number, Replay>;
   updateSettings: (settings: GameSettings) => void;
   addHighScore: (score: HighScore) => void;
+  addEndlessRun: (run: EndlessRun) => void;
+  /** Keeps only the day's first attempt and updates the streak */
+  recordDailyResult: (result: DailyResult) => void;
+  saveGhostRun: (run: GhostRun) => void;
+  installLevelPack: (pack: LevelPack) => void;
+  removeLevelPack: (packId: string) => void;
+  selectLevelPack: (packId: string) => void;
+  recordLevelResult: (packId: string, levelId: number, score: number, medal?: Medal) => void;
   updateStats: (stats: Partial<PlayerStats>) => void;
+  saveReplay: (replay: Replay) => void;
   clearData: () => void;
 }
 
 export const useGamePersistence = (): GamePersistence => {
   const [settings, setSettings] = useState<GameSettings>(DEFAULT_SETTINGS);
   const [highScores, setHighScores] = useState<HighScore[]>([]);
+  const [endlessRuns, setEndlessRuns] = useState<EndlessRun[]>([]);
+  const [dailyResults, setDailyResults] = useState<Record<string, DailyResult>>({});
+  const [ghostRuns, setGhostRuns] = useState<Record<number, GhostRun>>({});
+  const [levelPacks, setLevelPacks] = useState<LevelPack[]>([]);
+  const [activePackId, setActivePackId] = useState(BUILT_IN_PACK_ID);
+  const [packProgress, setPackProgress] = useState<Record<string, PackProgress>>({});
   const [playerStats, setPlayerStats] = useState<PlayerStats>({
     totalGames: 0,
     totalScore: 0,
@@ -24,6 +62,7 @@ export const useGamePersistence = (): GamePersistence => {
     currentStreak: 0,
     rank: 'Beginner'
   });
+  const [bestReplays, setBestReplays] = useState<Record<number, Replay>>({});
 
   // Load data from localStorage on mount
   useEffect(() => {
@@ -38,10 +77,52 @@ export const useGamePersistence = (): GamePersistence => {
         setHighScores(JSON.parse(savedScores));
       }
 
+      const savedEndless = localStorage.getItem('mazeGame_endlessRuns');
+      if (savedEndless) {
+        setEndlessRuns(JSON.parse(savedEndless));
+      }
+
+      const savedGhosts = localStorage.getItem('mazeGame_ghostRuns');
+      if (savedGhosts) {
+        setGhostRuns(JSON.parse(savedGhosts));
+      }
+
+      const savedPacks = localStorage.getItem('mazeGame_levelPacks');
+      if (savedPacks) {
+        setLevelPacks(JSON.parse(savedPacks));
+      }
+
+      const savedActivePack = localStorage.getItem('mazeGame_activePack');
+      if (savedActivePack) {
+        setActivePackId(savedActivePack);
+      }
+
+      const savedProgress = localStorage.getItem('mazeGame_packProgress');
+      if (savedProgress) {
+        setPackProgress(JSON.parse(savedProgress));
+      }
+
       const savedStats = localStorage.getItem('mazeGame_playerStats');
       if (savedStats) {
         setPlayerStats(JSON.parse(savedStats));
       }
+
+      // A streak lapses when a day is missed, whether or not anything was played since
+      const savedDaily = localStorage.getItem('mazeGame_dailyResults');
+      if (savedDaily) {
+        const results: Record<string, DailyResult> = JSON.parse(savedDaily);
+        setDailyResults(results);
+        setPlayerStats(prev => ({ ...prev, currentStreak: getDailyStreak(results) }));
+      }
+
+      // Replays recorded by an older engine no longer play back the same way
+      const savedReplays = localStorage.getItem('mazeGame_replays');
+      if (savedReplays) {
+        const replays: Record<number, Replay> = JSON.parse(savedReplays);
+        setBestReplays(Object.fromEntries(
+          Object.entries(replays).filter(([, replay]) => replay.version === REPLAY_VERSION)
+        ));
+      }
     } catch (error) {
       console.warn('Failed to load game data from localStorage:', error);
     }
@@ -72,6 +153,123 @@ export const useGamePersistence = (): GamePersistence => {
     });
   }, []);
 
+  const addEndlessRun = useCallback((run: EndlessRun) => {
+    setEndlessRuns(prev => {
+      const updated = [...prev, run]
+        .sort(compareEndlessRuns)
+        .slice(0, ENDLESS_LEADERBOARD_SIZE);
+      
+      try {
+        localStorage.setItem('mazeGame_endlessRuns', JSON.stringify(updated));
+      } catch (error) {
+        console.warn('Failed to save endless run:', error);
+      }
+      
+      return updated;
+    });
+  }, []);
+
+  const recordDailyResult = useCallback((result: DailyResult) => {
+    // The day's first result counts; only the stand-in for a run still going gives way
+    if (dailyResults[result.date] && !dailyResults[result.date].unfinished) return;
+
+    const updated = { ...dailyResults, [result.date]: result };
+    setDailyResults(updated);
+    try {
+      localStorage.setItem('mazeGame_dailyResults', JSON.stringify(updated));
+    } catch (error) {
+      console.warn('Failed to save daily result:', error);
+    }
+
+    // The stand-in leaves the streak as it was until the run's result replaces it
+    if (result.unfinished) return;
+
+    setPlayerStats(prev => {
+      const stats = { ...prev, currentStreak: getDailyStreak(updated, result.date) };
+      
+      try {
+        localStorage.setItem('mazeGame_playerStats', JSON.stringify(stats));
+      } catch (error) {
+        console.warn('Failed to save player stats:', error);
+      }
+      
+      return stats;
+    });
+  }, [dailyResults]);
+
+  const saveGhostRun = useCallback((run: GhostRun) => {
+    setGhostRuns(prev => {
+      if (!isFasterGhost(run, prev[run.level])) return prev;
+
+      const updated = { ...prev, [run.level]: run };
+      
+      try {
+        localStorage.setItem('mazeGame_ghostRuns', JSON.stringify(updated));
+      } catch (error) {
+        console.warn('Failed to save ghost run:', error);
+      }
+      
+      return updated;
+    });
+  }, []);
+
+  const installLevelPack = useCallback((pack: LevelPack) => {
+    setLevelPacks(prev => {
+      // A newer version of an installed pack replaces it; progress carries over
+      const updated = [...prev.filter(existing => existing.manifest.id !== pack.manifest.id), pack];
+      
+      try {
+        localStorage.setItem('mazeGame_levelPacks', JSON.stringify(updated));
+      } catch (error) {
+        console.warn('Failed to save level pack:', error);
+      }
+      
+      return updated;
+    });
+  }, []);
+
+  const selectLevelPack = useCallback((packId: string) => {
+    setActivePackId(packId);
+    try {
+      localStorage.setItem('mazeGame_activePack', packId);
+    } catch (error) {
+      console.warn('Failed to save active level pack:', error);
+    }
+  }, []);
+
+  const removeLevelPack = useCallback((packId: string) => {
+    setLevelPacks(prev => {
+      const updated = prev.filter(pack => pack.manifest.id !== packId);
+      
+      try {
+        localStorage.setItem('mazeGame_levelPacks', JSON.stringify(updated));
+      } catch (error) {
+        console.warn('Failed to remove level pack:', error);
+      }
+      
+      return updated;
+    });
+    setActivePackId(prev => {
+      if (prev !== packId) return prev;
+      localStorage.removeItem('mazeGame_activePack');
+      return BUILT_IN_PACK_ID;
+    });
+  }, []);
+
+  const recordLevelResult = useCallback((packId: string, levelId: number, score: number, medal?: Medal) => {
+    setPackProgress(prev => {
+      const updated = { ...prev, [packId]: updatePackProgress(prev[packId], levelId, score, medal) };
+      
+      try {
+        localStorage.setItem('mazeGame_packProgress', JSON.stringify(updated));
+      } catch (error) {
+        console.warn('Failed to save pack progress:', error);
+      }
+      
+      return updated;
+    });
+  }, []);
+
   const updateStats = useCallback((statsUpdate: Partial<PlayerStats>) => {
     setPlayerStats(prev => {
       const updated = { ...prev, ...statsUpdate };
@@ -94,12 +292,38 @@ export const useGamePersistence = (): GamePersistence => {
     });
   }, []);
 
+  const saveReplay = useCallback((replay: Replay) => {
+    setBestReplays(prev => {
+      if (!isBetterReplay(replay, prev[replay.levelId])) return prev;
+
+      const updated = { ...prev, [replay.levelId]: replay };
+      
+      try {
+        localStorage.setItem('mazeGame_replays', JSON.stringify(updated));
+      } catch (error) {
+        console.warn('Failed to save replay:', error);
+      }
+      
+      return updated;
+    });
+  }, []);
+
   const clearData = useCallback(() => {
     localStorage.removeItem('mazeGame_settings');
     localStorage.removeItem('mazeGame_highScores');
+    localStorage.removeItem('mazeGame_endlessRuns');
+    localStorage.removeItem('mazeGame_dailyResults');
+    localStorage.removeItem('mazeGame_ghostRuns');
+    localStorage.removeItem('mazeGame_packProgress');
     localStorage.removeItem('mazeGame_playerStats');
+    localStorage.removeItem('mazeGame_replays');
     setSettings(DEFAULT_SETTINGS);
     setHighScores([]);
+    setEndlessRuns([]);
+    setDailyResults({});
+    setGhostRuns({});
+    setPackProgress({});
+    setBestReplays({});
     setPlayerStats({
       totalGames: 0,
       totalScore: 0,
@@ -113,10 +337,25 @@ export const useGamePersistence = (): GamePersistence => {
   return {
     settings,
     highScores,
+    endlessRuns,
+    dailyResults,
+    ghostRuns,
+    levelPacks,
+    activePackId,
+    packProgress,
     playerStats,
+    bestReplays,
     updateSettings,
     addHighScore,
+    addEndlessRun,
+    recordDailyResult,
+    saveGhostRun,
+    installLevelPack,
+    removeLevelPack,
+    selectLevelPack,
+    recordLevelResult,
     updateStats,
+    saveReplay,
     clearData
   };
 };
@@ -1,96 +1,121 @@
 // src/hook/useGameState.ts - Game State Management Hook
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 import type { GameState, Level } from '../types/game.types';
+import {
+  type EngineState,
+  type EngineInput,
+  type EngineOptions,
+  createEngineState,
+  step,
+  setEnemyControl,
+  canExitLevel as engineCanExitLevel,
+  getTimeBonus
+} from '../services/gameEngine';
 
 interface GameStateHook {
   gameState: GameState;
   currentLevel: number;
+  engine: EngineState | null;
   score: number;
   totalScore: number;
   collectedItems: number;
   timeLeft: number;
   setGameState: (state: GameState) => void;
-  nextLevel: () => void;
-  resetLevel: () => void;
-  addScore: (points: number) => void;
-  collectItem: () => void;
-  setTimeLeft: (time: number) => void;
-  initializeLevel: (levelIndex: number) => void;
+  advance: (input?: EngineInput) => void;
+  nextLevel: (seed?: number) => void;
+  resetLevel: (seed?: number) => void;
+  initializeLevel: (levelIndex: number, seed?: number) => void;
   canExitLevel: () => boolean;
 }
 
-export const useGameState = (levels: Level[]): GameStateHook => {
-  const [gameState, setGameState] = useState<GameState>('menu');
+export const useGameState = (levels: Level[], engineOptions: EngineOptions = {}): GameStateHook => {
+  const [phase, setPhase] = useState<GameState>('menu');
   const [currentLevel, setCurrentLevel] = useState(0);
-  const [score, setScore] = useState(0);
   const [totalScore, setTotalScore] = useState(0);
-  const [collectedItems, setCollectedItems] = useState(0);
-  const [timeLeft, setTimeLeft] = useState(60);
+  const [engine, setEngine] = useState<EngineState | null>(null);
+  const lastStepRef = useRef(0);
+  const phaseRef = useRef(phase);
+  useEffect(() => {
+    phaseRef.current = phase;
+  });
+
+  const { difficulty, enemyKind = 'basic', torchRadius } = engineOptions;
+
+  // The engine decides wins and losses; the hook only tracks menu/pause/completion
+  const gameState: GameState = phase === 'playing' && engine && engine.status !== 'playing'
+    ? engine.status
+    : phase;
+
+  const setGameState = useCallback((state: GameState) => {
+    if (state === 'playing') {
+      // Time spent outside of play (pause, menus) must not reach the engine
+      lastStepRef.current = performance.now();
+    }
+    setPhase(state);
+  }, []);
+
+  const advance = useCallback((input?: EngineInput) => {
+    // Late callers (timers, model responses) must not run the clock through a pause or menu
+    if (phaseRef.current !== 'playing') return;
+
+    // Whole milliseconds keep the engine clock exact, so recorded runs replay tick for tick
+    const dtMs = Math.round(performance.now() - lastStepRef.current);
+    lastStepRef.current += dtMs;
+
+    setEngine(prev => prev ? step(prev, input ?? null, dtMs) : prev);
+  }, []);
+
+  // Switching enemy kinds mid-level
+  useEffect(() => {
+    setEngine(prev => prev && prev.enemyKind !== enemyKind
+      ? setEnemyControl(prev, enemyKind)
+      : prev);
+  }, [enemyKind]);
 
-  const initializeLevel = useCallback((levelIndex: number) => {
+  const initializeLevel = useCallback((levelIndex: number, seed?: number) => {
     if (levelIndex >= levels.length) {
-      setGameState('completed');
+      setPhase('completed');
       return;
     }
-    
-    const level = levels[levelIndex];
+
     setCurrentLevel(levelIndex);
-    setTimeLeft(level.timeLimit);
-    setCollectedItems(0);
-    setScore(0);
-    setGameState('playing');
-  }, [levels]);
-
-  const nextLevel = useCallback(() => {
-    const timeBonus = timeLeft * 10;
-    const levelScore = score + timeBonus;
-    setTotalScore(prev => prev + levelScore);
-    
+    setEngine(createEngineState(levels[levelIndex], { difficulty, enemyKind, torchRadius, seed }));
+    lastStepRef.current = performance.now();
+    setPhase('playing');
+  }, [levels, difficulty, enemyKind, torchRadius]);
+
+  const nextLevel = useCallback((seed?: number) => {
+    if (engine) {
+      setTotalScore(prev => prev + engine.score + getTimeBonus(engine.timeLeft));
+    }
+
     if (currentLevel + 1 >= levels.length) {
-      setGameState('completed');
+      setPhase('completed');
     } else {
-      initializeLevel(currentLevel + 1);
+      initializeLevel(currentLevel + 1, seed);
     }
-  }, [currentLevel, score, timeLeft, levels, initializeLevel]);
+  }, [engine, currentLevel, levels, initializeLevel]);
 
-  const resetLevel = useCallback(() => {
-    initializeLevel(currentLevel);
+  const resetLevel = useCallback((seed?: number) => {
+    initializeLevel(currentLevel, seed);
   }, [currentLevel, initializeLevel]);
 
-  const addScore = useCallback((points: number) => {
-    setScore(prev => prev + points);
-  }, []);
-
-  const collectItem = useCallback(() => {
-    setCollectedItems(prev => prev + 1);
-    addScore(100);
-  }, [addScore]);
-
   const canExitLevel = useCallback(() => {
-    const level = levels[currentLevel];
-    return level ? collectedItems >= level.collectibles : false;
-  }, [levels, currentLevel, collectedItems]);
-
-  // Auto-complete level when exiting with all items
-  useEffect(() => {
-    if (canExitLevel() && gameState === 'playing') {
-      // This will be triggered by the main component when player reaches exit
-    }
-  }, [canExitLevel, gameState]);
+    return engine ? engineCanExitLevel(engine) : false;
+  }, [engine]);
 
   return {
     gameState,
     currentLevel,
-    score,
+    engine,
+    score: engine?.score ?? 0,
     totalScore,
-    collectedItems,
-    timeLeft,
+    collectedItems: engine?.collectedItems ?? 0,
+    timeLeft: engine?.timeLeft ?? levels[currentLevel]?.timeLimit ?? 0,
     setGameState,
+    advance,
     nextLevel,
     resetLevel,
-    addScore,
-    collectItem,
-    setTimeLeft,
     initializeLevel,
     canExitLevel
   };
@@ -0,0 +1,145 @@
+// src/hooks/useLevelEditor.ts - Level Editor State with Undo/Redo
+import { useState, useCallback, useMemo } from 'react';
+import type { Level, Position } from '../types/game.types';
+import {
+  type EditorTool,
+  type PaintShape,
+  type PaintOptions,
+  type LevelValidation,
+  getLineCells,
+  getRectangleCells,
+  paintCells,
+  validateLevel
+} from '../utilities/levelEditor';
+
+export interface LevelEditorHook {
+  level: Level;
+  tool: EditorTool;
+  shape: PaintShape;
+  /** Channel and conveyor direction for the tools that come in variants */
+  paintOptions: Required<PaintOptions>;
+  /** First corner of a line or rectangle waiting for its second click */
+  anchor: Position | null;
+  validation: LevelValidation;
+  canUndo: boolean;
+  canRedo: boolean;
+  setTool: (tool: EditorTool) => void;
+  setShape: (shape: PaintShape) => void;
+  setPaintOptions: (changes: PaintOptions) => void;
+  clickCell: (x: number, y: number) => void;
+  /** Change level properties other than the layout, e.g. name or time limit */
+  updateLevel: (changes: Partial<Level>) => void;
+  /** Start over from another level; this can be undone too */
+  loadLevel: (level: Level) => void;
+  undo: () => void;
+  redo: () => void;
+}
+
+interface EditorHistory {
+  past: Level[];
+  present: Level;
+  future: Level[];
+}
+
+const HISTORY_LIMIT = 100;
+
+export const useLevelEditor = (initialLevel: Level): LevelEditorHook => {
+  const [history, setHistory] = useState<EditorHistory>({ past: [], present: initialLevel, future: [] });
+  const [tool, setToolState] = useState<EditorTool>('wall');
+  const [shape, setShapeState] = useState<PaintShape>('pencil');
+  const [paintOptions, setPaintOptionsState] = useState<Required<PaintOptions>>({ channel: 0, direction: 'right' });
+  const [anchor, setAnchor] = useState<Position | null>(null);
+
+  const commit = useCallback((update: (level: Level) => Level) => {
+    setHistory(prev => {
+      const next = update(prev.present);
+      if (next === prev.present) return prev;
+      return {
+        past: [...prev.past, prev.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: []
+      };
+    });
+  }, []);
+
+  const clickCell = useCallback((x: number, y: number) => {
+    const cell = { x, y };
+
+    // Start and exit are single cells whatever the shape
+    if (shape === 'pencil' || tool === 'start' || tool === 'exit') {
+      commit(level => paintCells(level, [cell], tool, paintOptions));
+      return;
+    }
+
+    if (!anchor) {
+      setAnchor(cell);
+      return;
+    }
+
+    const cells = shape === 'line' ? getLineCells(anchor, cell) : getRectangleCells(anchor, cell);
+    commit(level => paintCells(level, cells, tool, paintOptions));
+    setAnchor(null);
+  }, [shape, tool, paintOptions, anchor, commit]);
+
+  const setTool = useCallback((next: EditorTool) => {
+    setToolState(next);
+    setAnchor(null);
+  }, []);
+
+  const setShape = useCallback((next: PaintShape) => {
+    setShapeState(next);
+    setAnchor(null);
+  }, []);
+
+  const setPaintOptions = useCallback((changes: PaintOptions) => {
+    setPaintOptionsState(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  const updateLevel = useCallback((changes: Partial<Level>) => {
+    commit(level => ({ ...level, ...changes }));
+  }, [commit]);
+
+  const loadLevel = useCallback((level: Level) => {
+    commit(() => level);
+    setAnchor(null);
+  }, [commit]);
+
+  const undo = useCallback(() => {
+    setHistory(prev => prev.past.length === 0 ? prev : {
+      past: prev.past.slice(0, -1),
+      present: prev.past[prev.past.length - 1],
+      future: [prev.present, ...prev.future]
+    });
+    setAnchor(null);
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => prev.future.length === 0 ? prev : {
+      past: [...prev.past, prev.present],
+      present: prev.future[0],
+      future: prev.future.slice(1)
+    });
+    setAnchor(null);
+  }, []);
+
+  const validation = useMemo(() => validateLevel(history.present), [history.present]);
+
+  return {
+    level: history.present,
+    tool,
+    shape,
+    paintOptions,
+    anchor,
+    validation,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    setTool,
+    setShape,
+    setPaintOptions,
+    clickCell,
+    updateLevel,
+    loadLevel,
+    undo,
+    redo
+  };
+};
@@ -0,0 +1,82 @@
+// src/hooks/useReplayPlayer.ts - Replay Playback Hook
+import { useState, useEffect, useCallback } from 'react';
+import type { Level } from '../types/game.types';
+import type { EngineState } from '../services/gameEngine';
+import { type Replay, startReplay, seekReplay } from '../services/replay';
+import { GAME_CONFIG } from '../utilities/gameConstant';
+
+interface ReplayPlayerHook {
+  engine: EngineState;
+  positionMs: number;
+  durationMs: number;
+  isPlaying: boolean;
+  speed: number;
+  play: () => void;
+  pause: () => void;
+  togglePlay: () => void;
+  seek: (atMs: number) => void;
+  setSpeed: (speed: number) => void;
+}
+
+/**
+ * Plays a replay back through the game engine. Mount it with a `key` per
+ * replay; the replay and level are read once on mount.
+ */
+export const useReplayPlayer = (replay: Replay, level: Level): ReplayPlayerHook => {
+  const [cursor, setCursor] = useState(() => startReplay(replay, level));
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+
+  const durationMs = replay.durationMs;
+  const isRunning = isPlaying && cursor.atMs < durationMs;
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    let lastTick = performance.now();
+    const interval = setInterval(() => {
+      const now = performance.now();
+      const dtMs = Math.round((now - lastTick) * speed);
+      lastTick = now;
+
+      setCursor(prev => seekReplay(replay, level, prev.atMs + dtMs, prev));
+    }, GAME_CONFIG.TICK_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [isRunning, speed, replay, level]);
+
+  const seek = useCallback((atMs: number) => {
+    setCursor(prev => seekReplay(replay, level, Math.round(atMs), prev));
+  }, [replay, level]);
+
+  const play = useCallback(() => {
+    // Playing a finished replay starts it over
+    setCursor(prev => prev.atMs >= durationMs ? startReplay(replay, level) : prev);
+    setIsPlaying(true);
+  }, [replay, level, durationMs]);
+
+  const pause = useCallback(() => {
+    setIsPlaying(false);
+  }, []);
+
+  const togglePlay = useCallback(() => {
+    if (isRunning) {
+      pause();
+    } else {
+      play();
+    }
+  }, [isRunning, play, pause]);
+
+  return {
+    engine: cursor.state,
+    positionMs: cursor.atMs,
+    durationMs,
+    isPlaying: isRunning,
+    speed,
+    play,
+    pause,
+    togglePlay,
+    seek,
+    setSpeed
+  };
+};
@@ -61,6 +61,21 @@ export const useSound = (soundEnabled: boolean = true): SoundHook => {
       case 'pause':
         playTone(400, 0.2, volume * 0.5);
         break;
+      case 'checkpoint':
+        playTone(392, 0.15, volume);
+        setTimeout(() => playTone(523, 0.25, volume), 100);
+        break;
+      case 'unlock':
+        playTone(330, 0.1, volume);
+        setTimeout(() => playTone(440, 0.2, volume), 80);
+        break;
+      case 'teleport':
+        playTone(880, 0.1, volume);
+        setTimeout(() => playTone(1320, 0.15, volume), 60);
+        break;
+      case 'crumble':
+        playTone(110, 0.2, volume * 0.5);
+        break;
       default:
         playTone(440, 0.2, volume);
     }
@@ -0,0 +1,149 @@
+// src/services/basicEnemyStrategy.ts - Chase, Patrol and Wander Enemies
+import type { Position, Difficulty, Enemy } from '../types/game.types';
+import { GAME_CONFIG } from '../utilities/gameConstant';
+import { canStep, getDistance } from '../utilities/collision';
+import { type DistanceField, getDownhillStep } from './distanceField';
+import type { EnemyStrategy } from './enemyController';
+
+// ==================== TYPES ====================
+
+export interface EnemyMove {
+  /** Next cell; null to stay put */
+  position: Position | null;
+  behavior: 'chase' | 'patrol' | 'wander';
+}
+
+// ==================== CONSTANTS ====================
+
+const DIRECTIONS: Position[] = [
+  { x: 0, y: -1 }, // up
+  { x: 0, y: 1 },  // down
+  { x: -1, y: 0 }, // left
+  { x: 1, y: 0 }   // right
+];
+
+// ==================== MOVES ====================
+
+/**
+ * Step along a shortest route to the player, around walls rather than into them
+ */
+const chaseStep = (playerField: DistanceField, enemy: Position): Position | null => {
+  return getDownhillStep(playerField, enemy);
+};
+
+/**
+ * Random step that avoids recently visited cells when possible
+ */
+const wanderStep = (
+  maze: number[][],
+  enemy: Position,
+  trail: Position[],
+  random: () => number
+): Position | null => {
+  const validMoves = DIRECTIONS
+    .map(dir => ({ x: enemy.x + dir.x, y: enemy.y + dir.y }))
+    .filter(pos => canStep(maze, enemy, pos));
+
+  if (validMoves.length === 0) return null;
+
+  const freshMoves = validMoves.filter(pos =>
+    !trail.some(prev => prev.x === pos.x && prev.y === pos.y)
+  );
+  const candidates = freshMoves.length > 0 ? freshMoves : validMoves;
+
+  return candidates[Math.floor(random() * candidates.length)];
+};
+
+/**
+ * Keep walking in a straight line, otherwise turn randomly
+ */
+const patrolStep = (
+  maze: number[][],
+  enemy: Position,
+  trail: Position[],
+  random: () => number
+): Position | null => {
+  const validMoves = DIRECTIONS
+    .map(dir => ({ x: enemy.x + dir.x, y: enemy.y + dir.y }))
+    .filter(pos => canStep(maze, enemy, pos));
+
+  if (validMoves.length === 0) return null;
+
+  if (trail.length > 0) {
+    const lastPos = trail[trail.length - 1];
+    const straight = {
+      x: enemy.x + (enemy.x - lastPos.x),
+      y: enemy.y + (enemy.y - lastPos.y)
+    };
+
+    if (canStep(maze, enemy, straight)) {
+      return straight;
+    }
+  }
+
+  return validMoves[Math.floor(random() * validMoves.length)];
+};
+
+/**
+ * Pick the next cell for an enemy. Easy enemies chase on a coin flip and
+ * otherwise wander; normal and hard enemies react to how close the player is.
+ */
+export const chooseEnemyMove = (
+  maze: number[][],
+  enemy: Position,
+  trail: Position[],
+  playerPos: Position,
+  playerField: DistanceField,
+  difficulty: Difficulty,
+  random: () => number
+): EnemyMove => {
+  const { chaseChance } = GAME_CONFIG.DIFFICULTY_MODIFIERS[difficulty];
+
+  if (difficulty === 'easy') {
+    const chased = random() < chaseChance ? chaseStep(playerField, enemy) : null;
+    return chased
+      ? { position: chased, behavior: 'chase' }
+      : { position: wanderStep(maze, enemy, trail, random), behavior: 'wander' };
+  }
+
+  const distanceToPlayer = getDistance(enemy, playerPos);
+
+  if (distanceToPlayer <= 2 && difficulty === 'hard') {
+    return { position: chaseStep(playerField, enemy), behavior: 'chase' };
+  } else if (distanceToPlayer <= 4 && random() < chaseChance) {
+    return { position: chaseStep(playerField, enemy), behavior: 'chase' };
+  } else if (distanceToPlayer > 5) {
+    return { position: patrolStep(maze, enemy, trail, random), behavior: 'patrol' };
+  }
+
+  return { position: wanderStep(maze, enemy, trail, random), behavior: 'wander' };
+};
+
+// ==================== STRATEGY ====================
+
+/**
+ * The engine's own enemies: no memory beyond their trail, a fresh choice every tick
+ */
+export const BASIC_STRATEGY: EnemyStrategy<Enemy> = {
+  init: enemy => ({ ...enemy, behavior: 'patrol' }),
+
+  tick: (enemies, { maze, playerPos, playerField, difficulty, rng }) => {
+    const random = rng.asFunction();
+    return enemies.map(enemy => {
+      const { position, behavior } = chooseEnemyMove(
+        maze, enemy.position, enemy.trail, playerPos, playerField, difficulty, random
+      );
+      return { ...enemy, position: position ?? enemy.position, behavior };
+    });
+  },
+
+  debugState: enemy => ({
+    id: enemy.id,
+    kind: enemy.kind,
+    type: enemy.kind,
+    behavior: enemy.behavior,
+    position: enemy.position,
+    speed: enemy.speed,
+    activePath: [enemy.behavior]
+  })
+};
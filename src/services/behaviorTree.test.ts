@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type BehaviorLibrary,
+  type BehaviorMemory,
+  type NodeStatus,
+  action,
+  condition,
+  cooldown,
+  createBehaviorMemory,
+  selector,
+  sequence,
+  tickBehaviorTree
+} from './behaviorTree';
+
+interface Context {
+  seesPlayer: boolean;
+  performed: string[];
+  searchStatus?: NodeStatus;
+}
+
+const library: BehaviorLibrary<Context> = {
+  conditions: {
+    seesPlayer: context => context.seesPlayer
+  },
+  actions: {
+    chase: context => {
+      context.performed.push('chase');
+      return 'success';
+    },
+    search: context => {
+      context.performed.push('search');
+      return context.searchStatus ?? 'success';
+    },
+    wander: context => {
+      context.performed.push('wander');
+      return 'success';
+    }
+  }
+};
+
+const tree = selector('root', [
+  sequence('hunt', [condition('seesPlayer'), action('chase')]),
+  cooldown('rest', 2, action('search')),
+  action('wander')
+]);
+
+const tickWith = (context: Partial<Context>, memory: BehaviorMemory = createBehaviorMemory()) => {
+  const full: Context = { seesPlayer: false, performed: [], ...context };
+  return { ...tickBehaviorTree(tree, library, full, memory), performed: full.performed };
+};
+
+describe('tickBehaviorTree', () => {
+  it('takes the first branch of a selector that succeeds', () => {
+    const result = tickWith({ seesPlayer: true });
+
+    expect(result.status).toBe('success');
+    expect(result.performed).toEqual(['chase']);
+    expect(result.activePath).toEqual(['root', 'hunt', 'chase']);
+  });
+
+  it('stops a sequence at the first child that fails', () => {
+    const result = tickWith({ seesPlayer: false });
+
+    expect(result.performed).toEqual(['search']);
+    expect(result.activePath).toEqual(['root', 'rest', 'search']);
+  });
+
+  it('reports a running action without trying later branches', () => {
+    const result = tickWith({ searchStatus: 'running' });
+
+    expect(result.status).toBe('running');
+    expect(result.performed).toEqual(['search']);
+  });
+
+  it('keeps a cooldown shut for its ticks after its child succeeds', () => {
+    let memory = createBehaviorMemory();
+    const performed: string[][] = [];
+
+    for (let i = 0; i < 5; i++) {
+      const result = tickWith({}, memory);
+      memory = result.memory;
+      performed.push(result.performed);
+    }
+
+    expect(performed).toEqual([['search'], ['wander'], ['wander'], ['search'], ['wander']]);
+  });
+
+  it('leaves the memory it was given untouched', () => {
+    const memory = createBehaviorMemory();
+
+    tickWith({}, memory);
+
+    expect(memory).toEqual(createBehaviorMemory());
+  });
+
+  it('throws on a name the library lacks', () => {
+    expect(() => tickBehaviorTree(action('fly'), library, { seesPlayer: false, performed: [] }, createBehaviorMemory()))
+      .toThrow('Unknown behavior action: fly');
+  });
+});
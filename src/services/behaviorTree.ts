@@ -0,0 +1,107 @@
+// src/services/behaviorTree.ts - Behavior Tree Runtime
+
+// ==================== TYPES ====================
+
+export type NodeStatus = 'success' | 'failure' | 'running';
+
+/**
+ * A behavior tree as plain data. Conditions and actions only name entries of
+ * a `BehaviorLibrary`, so trees can be tuned and added to without code.
+ */
+export type BehaviorNode =
+  /** Tries children in order until one doesn't fail */
+  | { type: 'selector'; name: string; children: BehaviorNode[] }
+  /** Runs children in order until one doesn't succeed */
+  | { type: 'sequence'; name: string; children: BehaviorNode[] }
+  | { type: 'condition'; name: string }
+  | { type: 'action'; name: string }
+  /** Fails without running its child for `ticks` ticks after the child succeeds */
+  | { type: 'cooldown'; name: string; ticks: number; child: BehaviorNode };
+
+/** What the names in a tree stand for, given some context `C` */
+export interface BehaviorLibrary<C> {
+  conditions: Record<string, (context: C) => boolean>;
+  actions: Record<string, (context: C) => NodeStatus>;
+}
+
+/** What a tree needs to remember between ticks; one per agent running it */
+export interface BehaviorMemory {
+  tick: number;
+  /** Tick each cooldown's child last succeeded on, by the cooldown's place in the tree */
+  cooldowns: Record<string, number>;
+}
+
+export interface TickResult {
+  status: NodeStatus;
+  memory: BehaviorMemory;
+  /** Node names from the root down to the node that settled the outcome */
+  activePath: string[];
+}
+
+// ==================== BUILDERS ====================
+
+export const selector = (name: string, children: BehaviorNode[]): BehaviorNode => ({ type: 'selector', name, children });
+
+export const sequence = (name: string, children: BehaviorNode[]): BehaviorNode => ({ type: 'sequence', name, children });
+
+export const condition = (name: string): BehaviorNode => ({ type: 'condition', name });
+
+export const action = (name: string): BehaviorNode => ({ type: 'action', name });
+
+export const cooldown = (name: string, ticks: number, child: BehaviorNode): BehaviorNode => ({ type: 'cooldown', name, ticks, child });
+
+export const createBehaviorMemory = (): BehaviorMemory => ({ tick: 0, cooldowns: {} });
+
+// ==================== RUNTIME ====================
+
+/**
+ * Evaluate a tree from the root. Nothing carries over between ticks but the
+ * cooldowns, so a `running` action is simply asked again next tick.
+ */
+export const tickBehaviorTree = <C>(
+  tree: BehaviorNode,
+  library: BehaviorLibrary<C>,
+  context: C,
+  memory: BehaviorMemory
+): TickResult => {
+  const tick = memory.tick + 1;
+  const cooldowns = { ...memory.cooldowns };
+
+  const run = (node: BehaviorNode, path: string): Omit<TickResult, 'memory'> => {
+    switch (node.type) {
+      case 'condition': {
+        const test = library.conditions[node.name];
+        if (!test) throw new Error(`Unknown behavior condition: ${node.name}`);
+        return { status: test(context) ? 'success' : 'failure', activePath: [node.name] };
+      }
+      case 'action': {
+        const perform = library.actions[node.name];
+        if (!perform) throw new Error(`Unknown behavior action: ${node.name}`);
+        return { status: perform(context), activePath: [node.name] };
+      }
+      case 'selector':
+      case 'sequence': {
+        const carryOn: NodeStatus = node.type === 'selector' ? 'failure' : 'success';
+        let result: Omit<TickResult, 'memory'> = { status: carryOn, activePath: [] };
+        for (let index = 0; index < node.children.length && result.status === carryOn; index++) {
+          result = run(node.children[index], `${path}.${index}`);
+        }
+        return { status: result.status, activePath: [node.name, ...result.activePath] };
+      }
+      case 'cooldown': {
+        const lastSuccess = cooldowns[path];
+        if (lastSuccess !== undefined && tick - lastSuccess <= node.ticks) {
+          return { status: 'failure', activePath: [node.name] };
+        }
+        const result = run(node.child, `${path}.0`);
+        if (result.status === 'success') {
+          cooldowns[path] = tick;
+        }
+        return { status: result.status, activePath: [node.name, ...result.activePath] };
+      }
+    }
+  };
+
+  const { status, activePath } = run(tree, '0');
+  return { status, memory: { tick, cooldowns }, activePath };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { DailyResult } from '../types/game.types';
+import { createDailyChallenge, getDailyStreak, shiftDailyDate } from './daily';
+
+const TODAY = '2025-03-14';
+
+const result = (date: string, changes: Partial<DailyResult> = {}): DailyResult => ({
+  date,
+  won: true,
+  score: 1000,
+  timeMs: 60000,
+  moves: 80,
+  stars: 5,
+  collectibles: 5,
+  ...changes
+});
+
+/** Results for the days `offsets` before today, all cleared */
+const cleared = (...offsets: number[]): Record<string, DailyResult> => {
+  return Object.fromEntries(offsets.map(offset => {
+    const date = shiftDailyDate(TODAY, -offset);
+    return [date, result(date)];
+  }));
+};
+
+describe('getDailyStreak', () => {
+  it('counts consecutive cleared days up to today', () => {
+    expect(getDailyStreak(cleared(0, 1, 2), TODAY)).toBe(3);
+  });
+
+  it('keeps yesterday\'s streak while today is still unplayed', () => {
+    expect(getDailyStreak(cleared(1, 2), TODAY)).toBe(2);
+  });
+
+  it('keeps yesterday\'s streak while today\'s run is unfinished', () => {
+    const results = { ...cleared(1, 2), [TODAY]: result(TODAY, { won: false, unfinished: true }) };
+
+    expect(getDailyStreak(results, TODAY)).toBe(2);
+  });
+
+  it('resets after a missed day', () => {
+    expect(getDailyStreak(cleared(0, 2, 3), TODAY)).toBe(1);
+    expect(getDailyStreak(cleared(2, 3), TODAY)).toBe(0);
+  });
+
+  it('resets after a day that wasn\'t cleared', () => {
+    const results = { ...cleared(1, 2), [TODAY]: result(TODAY, { won: false }) };
+
+    expect(getDailyStreak(results, TODAY)).toBe(0);
+  });
+
+  it('carries across month and year ends', () => {
+    expect(shiftDailyDate('2025-03-01', -1)).toBe('2025-02-28');
+
+    const results = Object.fromEntries(['2024-12-30', '2024-12-31', '2025-01-01'].map(date => [date, result(date)]));
+    expect(getDailyStreak(results, '2025-01-01')).toBe(3);
+  });
+});
+
+describe('createDailyChallenge', () => {
+  it('builds the same level for everyone on the same day', () => {
+    expect(createDailyChallenge(TODAY)).toEqual(createDailyChallenge(TODAY));
+    expect(createDailyChallenge(TODAY).seed).not.toBe(createDailyChallenge(shiftDailyDate(TODAY, 1)).seed);
+  });
+});
@@ -0,0 +1,118 @@
+// src/services/daily.ts - Daily Challenge Level, Streaks and Result Cards
+import { type Level, type DailyResult } from '../types/game.types';
+import { GAME_CONFIG } from '../utilities/gameConstant';
+import { generateLevel } from '../utilities/mazeUtilities';
+import { getLevelPar } from '../utilities/levelPar';
+import { SeededRandom, seedFromString } from './random';
+
+// ==================== TYPES ====================
+
+export interface DailyChallenge {
+  /** UTC day, YYYY-MM-DD */
+  date: string;
+  /** Seeds the layout and the engine, so enemies move alike for everyone too */
+  seed: number;
+  algorithm: string;
+  level: Level;
+}
+
+// ==================== CONSTANTS ====================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MEDAL_EMOJI = { gold: '🥇', silver: '🥈', bronze: '🥉' } as const;
+
+// ==================== DATES ====================
+
+/**
+ * The UTC day a moment falls on; everyone shares the same daily at the same time
+ */
+export const getDailyDate = (now: Date = new Date()): string => {
+  return now.toISOString().slice(0, 10);
+};
+
+/**
+ * The day `days` after a YYYY-MM-DD date (negative for earlier days)
+ */
+export const shiftDailyDate = (date: string, days: number): string => {
+  return getDailyDate(new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS));
+};
+
+// ==================== CHALLENGE ====================
+
+/**
+ * Level id of a day's challenge: the date as a number, e.g. 20250314, so
+ * daily scores stay apart from pack levels on chain
+ */
+export const getDailyLevelId = (date: string): number => {
+  return Number(date.replace(/-/g, ''));
+};
+
+/**
+ * Build the day's challenge. Everything follows from the date: the seed,
+ * the generator it picks, the layout and where the enemies start.
+ */
+export const createDailyChallenge = (date: string = getDailyDate()): DailyChallenge => {
+  const config = GAME_CONFIG.DAILY;
+  const seed = seedFromString(`daily:${date}`);
+  const algorithm = new SeededRandom(seed).pick(config.ALGORITHMS);
+
+  const level = generateLevel({
+    id: getDailyLevelId(date),
+    name: `Daily ${date}`,
+    width: config.SIZE,
+    height: config.SIZE,
+    collectibles: config.COLLECTIBLES,
+    enemyCount: config.ENEMIES,
+    algorithm,
+    loops: config.LOOPS,
+    safeDistance: config.SAFE_DISTANCE,
+    seed
+  });
+
+  const par = getLevelPar(level);
+  if (par) {
+    level.timeLimit = Math.max(30, Math.ceil((par.timeMs / 1000) * config.TIME_BUDGET));
+  }
+  return { date, seed, algorithm, level };
+};
+
+// ==================== STREAKS ====================
+
+/**
+ * Days in a row the daily was cleared, up to `today`. A streak that hasn't
+ * been extended today yet still counts until the day is over, including while
+ * today's run is still going.
+ */
+export const getDailyStreak = (
+  results: Record<string, DailyResult>,
+  today: string = getDailyDate()
+): number => {
+  let date = results[today] && !results[today].unfinished ? today : shiftDailyDate(today, -1);
+  let streak = 0;
+  while (results[date]?.won) {
+    streak++;
+    date = shiftDailyDate(date, -1);
+  }
+  return streak;
+};
+
+// ==================== SHARING ====================
+
+/**
+ * Spoiler-free text card of a result for pasting into chats
+ */
+export const formatDailyResult = (result: DailyResult, streak: number): string => {
+  const seconds = Math.round(result.timeMs / 1000);
+  const time = `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+  const stars = '⭐'.repeat(result.stars) + '⬛'.repeat(Math.max(0, result.collectibles - result.stars));
+
+  return [
+    `Maze Master Daily ${result.date}`,
+    result.won
+      ? `✅ ${result.score.toLocaleString()} pts • ${time} • ${result.moves} moves${result.medal ? ` ${MEDAL_EMOJI[result.medal]}` : ''}`
+      : `❌ ${result.score.toLocaleString()} pts • ${time}`,
+    stars,
+    streak > 0 ? `🔥 ${streak}-day streak` : ''
+  ].filter(Boolean).join('\n');
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { type Position, CELL_TYPES } from '../types/game.types';
+import { getAdjacentPositions } from '../utilities/collision';
+import { addLoops, generateMaze, updateMazeCell } from '../utilities/mazeUtilities';
+import { breadthFirstSearch } from '../utilities/mazeSolver';
+import { SeededRandom } from './random';
+import { createDistanceField, getDownhillStep, getFieldDistance, updateDistanceField } from './distanceField';
+
+const maze = addLoops(generateMaze(25, 25, 0, 99), 60, 99);
+
+const expectSameDistances = (actual: number[], targets: Position[], layout: number[][] = maze) => {
+  expect(actual).toEqual(createDistanceField(layout, targets).distances);
+};
+
+describe('createDistanceField', () => {
+  it('holds the BFS distance to the target at every open cell', () => {
+    const target = { x: 11, y: 13 };
+    const field = createDistanceField(maze, [target]);
+    const { distance } = breadthFirstSearch(maze, target);
+
+    maze.forEach((row, y) => row.forEach((cell, x) => {
+      expect(getFieldDistance(field, { x, y })).toBe(
+        cell === CELL_TYPES.WALL ? Infinity : distance.get(`${x},${y}`) ?? Infinity
+      );
+    }));
+  });
+
+  it('measures to the nearest of several targets', () => {
+    const targets = [{ x: 1, y: 1 }, { x: 23, y: 23 }];
+    const field = createDistanceField(maze, targets);
+    const searches = targets.map(target => breadthFirstSearch(maze, target).distance);
+
+    expect(getFieldDistance(field, { x: 13, y: 13 })).toBe(Math.min(...searches.map(search => search.get('13,13')!)));
+  });
+});
+
+describe('updateDistanceField', () => {
+  it('matches a fresh field as the target walks through the maze', () => {
+    const rng = new SeededRandom(7);
+    let target = { x: 1, y: 1 };
+    let field = createDistanceField(maze, [target]);
+
+    for (let i = 0; i < 200; i++) {
+      target = rng.pick(getAdjacentPositions(target, maze));
+      field = updateDistanceField(field, [target]);
+      expectSameDistances(field.distances, [target]);
+    }
+  });
+
+  it('matches a fresh field when targets are added and dropped', () => {
+    const field = createDistanceField(maze, [{ x: 1, y: 1 }]);
+    const both = updateDistanceField(field, [{ x: 1, y: 1 }, { x: 23, y: 23 }]);
+    const moved = updateDistanceField(both, [{ x: 23, y: 23 }]);
+
+    expectSameDistances(both.distances, [{ x: 1, y: 1 }, { x: 23, y: 23 }]);
+    expectSameDistances(moved.distances, [{ x: 23, y: 23 }]);
+  });
+
+  it('returns the same field when the targets are unchanged', () => {
+    const field = createDistanceField(maze, [{ x: 5, y: 5 }]);
+
+    expect(updateDistanceField(field, [{ x: 5, y: 5 }])).toBe(field);
+  });
+
+  it('starts over when the walls change', () => {
+    const field = createDistanceField(maze, [{ x: 1, y: 1 }]);
+    const [exit] = getAdjacentPositions({ x: 1, y: 1 }, maze);
+    const walled = updateMazeCell(maze, exit.x, exit.y, CELL_TYPES.WALL);
+
+    expectSameDistances(updateDistanceField(field, [{ x: 1, y: 1 }], walled).distances, [{ x: 1, y: 1 }], walled);
+  });
+});
+
+describe('getDownhillStep', () => {
+  it('walks to the target one step closer at a time', () => {
+    const target = { x: 23, y: 23 };
+    const field = createDistanceField(maze, [target]);
+    let pos: Position = { x: 1, y: 1 };
+    let steps = 0;
+
+    for (let next = getDownhillStep(field, pos); next; next = getDownhillStep(field, pos)) {
+      expect(getFieldDistance(field, next)).toBe(getFieldDistance(field, pos) - 1);
+      pos = next;
+      steps++;
+    }
+
+    expect(pos).toEqual(target);
+    expect(steps).toBe(getFieldDistance(createDistanceField(maze, [target]), { x: 1, y: 1 }));
+  });
+});
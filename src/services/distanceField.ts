@@ -0,0 +1,233 @@
+// src/services/distanceField.ts - Shared BFS Distance Fields for Enemy Navigation
+import type { Position } from '../types/game.types';
+import { isValidPosition } from '../utilities/collision';
+import { isStepAllowed } from '../utilities/hazards';
+
+// ==================== TYPES ====================
+
+/**
+ * Steps from every open cell to the nearest target, computed once and shared
+ * by every enemy heading for those targets. Cells that can't reach a target
+ * (and walls) are Infinity.
+ */
+export interface DistanceField {
+  maze: number[][];
+  width: number;
+  height: number;
+  targets: Position[];
+  /** Indexed y * width + x */
+  distances: number[];
+  /** Open neighbors of each cell, shared by every field over the same layout */
+  neighbors: number[][];
+}
+
+// ==================== CONSTANTS ====================
+
+const DIRECTIONS: Position[] = [
+  { x: 0, y: -1 }, // up
+  { x: 0, y: 1 },  // down
+  { x: -1, y: 0 }, // left
+  { x: 1, y: 0 }   // right
+];
+
+/** Past this share of cells to re-search, a fresh BFS is cheaper than patching */
+const REBUILD_SHARE = 0.25;
+
+// ==================== HELPERS ====================
+
+const getNeighborLists = (maze: number[][], width: number): number[][] => {
+  return maze.flatMap((row, y) => row.map((_, x) => isValidPosition(x, y, maze)
+    ? DIRECTIONS
+      .filter(dir => isValidPosition(x + dir.x, y + dir.y, maze))
+      .map(dir => (y + dir.y) * width + x + dir.x)
+    : []
+  ));
+};
+
+const getTargetIndices = (field: Pick<DistanceField, 'maze' | 'width'>, targets: Position[]): number[] => {
+  return targets
+    .filter(target => isValidPosition(target.x, target.y, field.maze))
+    .map(target => target.y * field.width + target.x);
+};
+
+/**
+ * Whether two mazes have walls in the same places; pickups don't change routes
+ */
+const isSameLayout = (a: number[][], b: number[][]): boolean => {
+  return a.length === b.length && a.every((row, y) =>
+    row.length === b[y].length && row.every((_, x) => isValidPosition(x, y, a) === isValidPosition(x, y, b))
+  );
+};
+
+/**
+ * Lower distances outward from `seeds`, a bucket per distance since every
+ * step costs 1. Cells only ever move to a smaller distance.
+ */
+const propagate = (field: DistanceField, seeds: number[]) => {
+  const { distances } = field;
+  const buckets: number[][] = [];
+  seeds.forEach(index => {
+    (buckets[distances[index]] ??= []).push(index);
+  });
+
+  for (let distance = 0; distance < buckets.length; distance++) {
+    const bucket = buckets[distance];
+    if (!bucket) continue;
+
+    for (let i = 0; i < bucket.length; i++) {
+      const index = bucket[i];
+      if (distances[index] !== distance) continue;
+
+      for (const neighbor of field.neighbors[index]) {
+        if (distance + 1 < distances[neighbor]) {
+          distances[neighbor] = distance + 1;
+          (buckets[distance + 1] ??= []).push(neighbor);
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Multi-source BFS over precomputed neighbor lists
+ */
+const buildField = (maze: number[][], targets: Position[], neighbors: number[][]): DistanceField => {
+  const height = maze.length;
+  const width = maze[0]?.length ?? 0;
+  const field: DistanceField = {
+    maze,
+    width,
+    height,
+    targets: targets.map(target => ({ ...target })),
+    distances: new Array(width * height).fill(Infinity),
+    neighbors
+  };
+
+  const seeds = getTargetIndices(field, targets);
+  seeds.forEach(index => {
+    field.distances[index] = 0;
+  });
+  propagate(field, seeds);
+  return field;
+};
+
+// ==================== FIELDS ====================
+
+/**
+ * Multi-source BFS from the targets over the maze's open cells
+ */
+export const createDistanceField = (maze: number[][], targets: Position[]): DistanceField => {
+  return buildField(maze, targets, getNeighborLists(maze, maze[0]?.length ?? 0));
+};
+
+/**
+ * The field for new targets over the same maze, reusing the old distances.
+ * Only cells whose every shortest route ran through a dropped target are
+ * cleared and searched again, and only cells a new target brings closer are
+ * lowered. When most of the maze would change anyway, as in a maze without
+ * loops, it falls back to a fresh BFS. A maze with different walls also gets
+ * a fresh field.
+ */
+export const updateDistanceField = (
+  field: DistanceField,
+  targets: Position[],
+  maze: number[][] = field.maze
+): DistanceField => {
+  if (maze !== field.maze && !isSameLayout(maze, field.maze)) {
+    return createDistanceField(maze, targets);
+  }
+
+  const kept = new Set(getTargetIndices(field, targets));
+  const previous = new Set(getTargetIndices(field, field.targets));
+  if (maze === field.maze && previous.size === kept.size && [...previous].every(index => kept.has(index))) {
+    return field;
+  }
+
+  const next: DistanceField = {
+    ...field,
+    maze,
+    targets: targets.map(target => ({ ...target })),
+    distances: [...field.distances]
+  };
+  const { distances } = next;
+  const removed = [...previous].filter(index => !kept.has(index));
+  const rebuildAt = next.width * next.height * REBUILD_SHARE;
+
+  // Cells left without a neighbor one step closer lose their distance, in
+  // distance order so each cell's supports are settled before it is checked
+  const cleared: number[] = [];
+  const clearedSet = new Set<number>();
+  const buckets: number[][] = [];
+  removed.forEach(index => (buckets[0] ??= []).push(index));
+
+  for (let distance = 0; distance < buckets.length; distance++) {
+    for (const index of buckets[distance] ?? []) {
+      if (clearedSet.has(index) || distances[index] !== distance) continue;
+
+      const supported = distance > 0 && next.neighbors[index].some(neighbor =>
+        !clearedSet.has(neighbor) && distances[neighbor] === distance - 1
+      );
+      if (supported) continue;
+
+      clearedSet.add(index);
+      cleared.push(index);
+      if (cleared.length > rebuildAt) {
+        return buildField(maze, targets, next.neighbors);
+      }
+      next.neighbors[index]
+        .filter(neighbor => distances[neighbor] === distance + 1)
+        .forEach(neighbor => (buckets[distance + 1] ??= []).push(neighbor));
+    }
+  }
+
+  // Cleared cells restart from their best remaining neighbor, new targets from 0
+  const seeds: number[] = [];
+  cleared.forEach(index => {
+    distances[index] = Infinity;
+  });
+  cleared.forEach(index => {
+    const best = Math.min(...next.neighbors[index].map(neighbor => distances[neighbor]));
+    if (best < Infinity) {
+      distances[index] = best + 1;
+      seeds.push(index);
+    }
+  });
+  kept.forEach(index => {
+    if (distances[index] !== 0) {
+      distances[index] = 0;
+      seeds.push(index);
+    }
+  });
+
+  propagate(next, seeds);
+  return next;
+};
+
+// ==================== NAVIGATION ====================
+
+/**
+ * Steps from a cell to the nearest target, Infinity if it can't get there
+ */
+export const getFieldDistance = (field: DistanceField, pos: Position): number => {
+  if (pos.x < 0 || pos.x >= field.width || pos.y < 0 || pos.y >= field.height) return Infinity;
+  return field.distances[pos.y * field.width + pos.x];
+};
+
+/**
+ * The neighbor one step closer to the nearest target; null when already on a
+ * target or cut off from every target. Ties go to the first direction in
+ * up, down, left, right order, so the choice is deterministic. Distances
+ * treat conveyors as two-way, so a step against one is never taken.
+ */
+export const getDownhillStep = (field: DistanceField, pos: Position): Position | null => {
+  const here = getFieldDistance(field, pos);
+  if (here === 0 || here === Infinity) return null;
+
+  for (const dir of DIRECTIONS) {
+    const next = { x: pos.x + dir.x, y: pos.y + dir.y };
+    if (getFieldDistance(field, next) === here - 1 && isStepAllowed(field.maze, pos, next)) {
+      return next;
+    }
+  }
+  return null;
+};
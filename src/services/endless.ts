@@ -0,0 +1,91 @@
+// src/services/endless.ts - Endless Mode Level Generation and Difficulty Curve
+import { type Level, type EndlessRun } from '../types/game.types';
+import { GAME_CONFIG } from '../utilities/gameConstant';
+import { generateLevel } from '../utilities/mazeUtilities';
+import { getLevelPar } from '../utilities/levelPar';
+
+// ==================== TYPES ====================
+
+/** One value on the curve: `start`, moved by `step` every `every` levels, up to `limit` */
+export interface CurveParam {
+  start: number;
+  step: number;
+  every: number;
+  limit: number;
+}
+
+export interface EndlessCurve {
+  SIZE: CurveParam;
+  COLLECTIBLES: CurveParam;
+  ENEMIES: CurveParam;
+  ENEMY_SPEED: CurveParam;
+  TIME_BUDGET: CurveParam;
+  LOOPS: CurveParam;
+  POWER_UPS: CurveParam;
+  SAFE_DISTANCE: number;
+}
+
+// ==================== CONSTANTS ====================
+
+export const ENDLESS_LEADERBOARD_SIZE = 10;
+
+// ==================== CURVE ====================
+
+/**
+ * Value of a curve parameter at a depth (0 for the first level)
+ */
+export const getCurveValue = (param: CurveParam, depth: number): number => {
+  const value = param.start + param.step * Math.floor(depth / Math.max(1, param.every));
+  return param.step >= 0 ? Math.min(value, param.limit) : Math.max(value, param.limit);
+};
+
+/**
+ * Seed of the level at `depth` in a run; every level of a run follows from
+ * the run's seed
+ */
+const getLevelSeed = (runSeed: number, depth: number): number => {
+  return (runSeed ^ Math.imul(depth + 1, 0x9e3779b1)) | 0;
+};
+
+// ==================== GENERATION ====================
+
+/**
+ * Build the endless level at `depth`. Size, pickups, power-ups, enemies, enemy
+ * speed and the time limit all follow the curve; the time limit is a multiple of
+ * the level's par, so every level stays beatable.
+ */
+export const createEndlessLevel = (
+  depth: number,
+  runSeed: number,
+  curve: EndlessCurve = GAME_CONFIG.ENDLESS
+): Level => {
+  const size = Math.round(getCurveValue(curve.SIZE, depth));
+  const level = generateLevel({
+    id: depth + 1,
+    name: `Endless ${depth + 1}`,
+    width: size,
+    height: size,
+    collectibles: Math.round(getCurveValue(curve.COLLECTIBLES, depth)),
+    enemyCount: Math.round(getCurveValue(curve.ENEMIES, depth)),
+    loops: Math.round(getCurveValue(curve.LOOPS, depth)),
+    powerUps: Math.round(getCurveValue(curve.POWER_UPS, depth)),
+    safeDistance: curve.SAFE_DISTANCE,
+    enemySpeed: getCurveValue(curve.ENEMY_SPEED, depth),
+    seed: getLevelSeed(runSeed, depth)
+  });
+
+  const par = getLevelPar(level);
+  if (par) {
+    level.timeLimit = Math.max(20, Math.ceil((par.timeMs / 1000) * getCurveValue(curve.TIME_BUDGET, depth)));
+  }
+  return level;
+};
+
+// ==================== LEADERBOARD ====================
+
+/**
+ * Leaderboard order: more levels cleared first, then higher score
+ */
+export const compareEndlessRuns = (a: EndlessRun, b: EndlessRun): number => {
+  return b.levels - a.levels || b.score - a.score;
+};
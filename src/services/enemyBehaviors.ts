@@ -0,0 +1,283 @@
+// src/services/enemyBehaviors.ts - Enemy Personalities as Behavior Trees
+import type { Position, Enemy } from '../types/game.types';
+import type { SeededRandom } from './random';
+import {
+  type BehaviorNode,
+  type BehaviorLibrary,
+  type BehaviorMemory,
+  selector,
+  sequence,
+  condition,
+  action,
+  cooldown
+} from './behaviorTree';
+import { isValidPosition } from '../utilities/collision';
+
+// ==================== TYPES ====================
+
+export type PersonalityType = 'hunter' | 'guardian' | 'scout' | 'ambusher' | 'swarm';
+
+export interface EnemyPersonality {
+  type: PersonalityType;
+  aggressiveness: number; // 0-1
+  intelligence: number;   // 0-1
+  patience: number;       // 0-1
+  cooperation: number;    // 0-1
+}
+
+export type SmartEnemyState = 'patrolling' | 'chasing' | 'searching' | 'ambushing' | 'coordinating';
+
+export interface SmartEnemy extends Enemy {
+  personality: EnemyPersonality;
+  behavior: SmartEnemyState;
+  energy: number; // 0-100
+  lastPlayerSight: Position | null;
+  /** Direction of the last step; null until the enemy first moves */
+  facing: Position | null;
+  patrolRoute: Position[];
+  currentTarget: Position | null;
+  frustrationLevel: number;
+  cooperationGroup?: string;
+  /** The personality tree's memory, e.g. its cooldowns */
+  treeMemory: BehaviorMemory;
+  /** Nodes the tree went through on its last tick, for debugging */
+  activePath: string[];
+  /** Moves left in the current sprint, then moves until it can sprint again */
+  sprintMoves: number;
+  sprintRecovery: number;
+}
+
+export interface PlayerPattern {
+  favoriteDirections: Record<string, number>;
+  commonSequences: Map<string, number>;
+  retreatBehavior: 'corner' | 'backtrack' | 'random' | 'predictable';
+  averageSpeed: number;
+  decisionTime: number;
+}
+
+/** What an enemy's tree sees on a tick; its actions update `enemy` in place */
+export interface EnemyContext {
+  enemy: SmartEnemy;
+  playerPos: Position;
+  canSeePlayer: boolean;
+  distanceToPlayer: number;
+  /** The player's likeliest next cells, best first; empty until a pattern is known */
+  predictPlayerMoves: () => Position[];
+  /** Next cell to check while searching for the player */
+  findSearchTarget: () => Position | null;
+  rng: SeededRandom;
+}
+
+/** What an enemy knows when weighing cells on its way somewhere */
+export interface PositionContext {
+  maze: number[][];
+  playerPos: Position;
+  enemy: SmartEnemy;
+  /** Enemies sharing the enemy's cooperation group, itself included */
+  allies: Enemy[];
+  predictPlayerMoves: () => Position[];
+}
+
+export type PositionValue = 'closeness' | 'standoff' | 'coverage' | 'interception' | 'flocking';
+
+/** How fast an enemy goes, as a multiple of the level's enemy pace */
+export interface PersonalityPace {
+  /** While patrolling */
+  patrol: number;
+  /** A burst of `moves` fast moves when it starts chasing, `recovery` moves apart */
+  sprint?: { speed: number; moves: number; recovery: number };
+}
+
+export interface PersonalityDefinition {
+  /** Traits before the difficulty scales them; cooperation isn't scaled */
+  traits: Omit<EnemyPersonality, 'type'>;
+  /** How the enemy rates cells; its routes prefer highly rated ones */
+  positionValue: PositionValue;
+  pace: PersonalityPace;
+  tree: BehaviorNode;
+}
+
+// ==================== CONSTANTS ====================
+
+/** Enemies this smart go looking for a player they've lost sight of */
+const SEARCH_INTELLIGENCE = 0.7;
+/** Ambushers pounce once the player is this close */
+const AMBUSH_RANGE = 2;
+/** Ambushers give up waiting when their energy drops below this */
+const AMBUSH_MIN_ENERGY = 20;
+/** Chance a patrolling ambusher lies in wait, and ticks before it considers it again */
+const AMBUSH_CHANCE = 0.3;
+const AMBUSH_COOLDOWN = 5;
+/** Chasers past this distance grow frustrated */
+const FRUSTRATION_DISTANCE = 3;
+
+// ==================== BEHAVIORS ====================
+
+const distance = (a: Position, b: Position): number => Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+
+export const ENEMY_BEHAVIORS: BehaviorLibrary<EnemyContext> = {
+  conditions: {
+    canSeePlayer: ({ canSeePlayer }) => canSeePlayer,
+    playerInAmbushRange: ({ distanceToPlayer }) => distanceToPlayer <= AMBUSH_RANGE,
+    isPatrolling: ({ enemy }) => enemy.behavior === 'patrolling',
+    isChasing: ({ enemy }) => enemy.behavior === 'chasing',
+    isSearching: ({ enemy }) => enemy.behavior === 'searching',
+    isAmbushing: ({ enemy }) => enemy.behavior === 'ambushing',
+    isSmart: ({ enemy }) => enemy.personality.intelligence > SEARCH_INTELLIGENCE,
+    isPatient: ({ enemy }) => enemy.frustrationLevel <= enemy.personality.patience * 10,
+    hasEnergy: ({ enemy }) => enemy.energy >= AMBUSH_MIN_ENERGY,
+    rollAggression: ({ enemy, rng }) => rng.next() < enemy.personality.aggressiveness,
+    rollAmbush: ({ rng }) => rng.next() < AMBUSH_CHANCE
+  },
+  actions: {
+    // Spotting the player is a burst of energy; a chase that isn't closing in frustrates
+    chasePlayer: ({ enemy, playerPos, distanceToPlayer }) => {
+      if (enemy.behavior === 'patrolling') {
+        enemy.energy = Math.min(100, enemy.energy + 20);
+      }
+      const wasChasing = enemy.behavior === 'chasing';
+      enemy.frustrationLevel = wasChasing && distanceToPlayer > FRUSTRATION_DISTANCE ? enemy.frustrationLevel + 1 : 0;
+      enemy.behavior = 'chasing';
+      enemy.currentTarget = playerPos;
+      return 'success';
+    },
+    searchForPlayer: ({ enemy, findSearchTarget }) => {
+      const target = findSearchTarget();
+      if (!target) return 'failure';
+      enemy.behavior = 'searching';
+      enemy.currentTarget = target;
+      enemy.frustrationLevel += 1;
+      return 'success';
+    },
+    lieInWait: () => 'success',
+    setAmbush: ({ enemy, predictPlayerMoves }) => {
+      const [spot] = predictPlayerMoves();
+      if (!spot) return 'failure';
+      enemy.behavior = 'ambushing';
+      enemy.currentTarget = spot;
+      return 'success';
+    },
+    patrol: ({ enemy }) => {
+      enemy.behavior = 'patrolling';
+      enemy.currentTarget = null;
+      enemy.frustrationLevel = 0;
+      return 'success';
+    }
+  }
+};
+
+// ==================== TREES ====================
+
+/** Stay on a player already being hunted while they're in sight */
+const PRESS_CHASE = sequence('press the chase', [
+  condition('canSeePlayer'),
+  selector('already hunting', [condition('isChasing'), condition('isSearching')]),
+  action('chasePlayer')
+]);
+
+/** A patrol that sees the player may, by temperament, give chase */
+const SPOT_PLAYER = sequence('spot the player', [
+  condition('isPatrolling'),
+  condition('canSeePlayer'),
+  condition('rollAggression'),
+  action('chasePlayer')
+]);
+
+/** Smart enemies look around where the player vanished until they lose patience */
+const SEARCH = sequence('search', [
+  selector('lost the player', [
+    condition('isSearching'),
+    sequence('worth a look', [condition('isChasing'), condition('isSmart')])
+  ]),
+  condition('isPatient'),
+  action('searchForPlayer')
+]);
+
+const PATROL = action('patrol');
+
+/** Hunters, guardians, scouts and swarms differ in traits and taste in cells, not in decisions */
+const standardTree = (name: string): BehaviorNode => selector(name, [PRESS_CHASE, SPOT_PLAYER, SEARCH, PATROL]);
+
+const AMBUSHER_TREE = selector('ambusher', [
+  sequence('spring the ambush', [
+    condition('isAmbushing'),
+    condition('canSeePlayer'),
+    condition('playerInAmbushRange'),
+    action('chasePlayer')
+  ]),
+  sequence('lie in wait', [condition('isAmbushing'), condition('hasEnergy'), action('lieInWait')]),
+  PRESS_CHASE,
+  SPOT_PLAYER,
+  SEARCH,
+  cooldown('now and then', AMBUSH_COOLDOWN, sequence('set an ambush', [
+    condition('rollAmbush'),
+    action('setAmbush')
+  ])),
+  PATROL
+]);
+
+export const PERSONALITIES: Record<PersonalityType, PersonalityDefinition> = {
+  hunter: {
+    traits: { aggressiveness: 0.9, intelligence: 0.6, patience: 0.2, cooperation: 0.3 },
+    positionValue: 'closeness',
+    pace: { patrol: 1, sprint: { speed: 1.8, moves: 4, recovery: 8 } },
+    tree: standardTree('hunter')
+  },
+  guardian: {
+    traits: { aggressiveness: 0.4, intelligence: 0.8, patience: 0.9, cooperation: 0.7 },
+    positionValue: 'standoff',
+    pace: { patrol: 0.6 },
+    tree: standardTree('guardian')
+  },
+  scout: {
+    traits: { aggressiveness: 0.5, intelligence: 0.9, patience: 0.6, cooperation: 0.8 },
+    positionValue: 'coverage',
+    pace: { patrol: 1 },
+    tree: standardTree('scout')
+  },
+  ambusher: {
+    traits: { aggressiveness: 0.7, intelligence: 0.7, patience: 0.9, cooperation: 0.4 },
+    positionValue: 'interception',
+    pace: { patrol: 1 },
+    tree: AMBUSHER_TREE
+  },
+  swarm: {
+    traits: { aggressiveness: 0.6, intelligence: 0.5, patience: 0.4, cooperation: 0.9 },
+    positionValue: 'flocking',
+    pace: { patrol: 1 },
+    tree: standardTree('swarm')
+  }
+};
+
+export const PERSONALITY_TYPES = Object.keys(PERSONALITIES) as PersonalityType[];
+
+// ==================== POSITION VALUES ====================
+
+/** How much open space there is around a cell, nearer cells counting more */
+const getCoverage = (maze: number[][], pos: Position): number => {
+  const maxDistance = 5;
+  let score = 0;
+  for (let dx = -maxDistance; dx <= maxDistance; dx++) {
+    for (let dy = -maxDistance; dy <= maxDistance; dy++) {
+      if (isValidPosition(pos.x + dx, pos.y + dy, maze)) {
+        score += Math.max(0, maxDistance - Math.abs(dx) - Math.abs(dy));
+      }
+    }
+  }
+  return score;
+};
+
+export const POSITION_VALUES: Record<PositionValue, (pos: Position, context: PositionContext) => number> = {
+  // Closer is better
+  closeness: (pos, { playerPos }) => Math.max(0, 10 - distance(pos, playerPos)),
+  // Hold off at about four cells, controlling the chokepoints around the player
+  standoff: (pos, { playerPos }) => 5 - Math.abs(distance(pos, playerPos) - 4),
+  // Cells that see a lot
+  coverage: (pos, { maze }) => getCoverage(maze, pos),
+  // Cells near where the player is likely headed
+  interception: (pos, { predictPlayerMoves }) =>
+    predictPlayerMoves().reduce((sum, predicted) => sum + Math.max(0, 3 - distance(pos, predicted)), 0),
+  // Stay reasonably close to the rest of the group
+  flocking: (pos, { enemy, allies }) =>
+    allies.reduce((sum, ally) => ally.id === enemy.id ? sum : sum + Math.max(0, 5 - distance(pos, ally.position)), 0)
+};
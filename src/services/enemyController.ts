@@ -0,0 +1,198 @@
+// src/services/enemyController.ts - One Controller for Every Kind of Enemy
+import type { Position, Level, Difficulty, Enemy, EnemyKind } from '../types/game.types';
+import { findEnemyCollision } from '../utilities/collision';
+import type { SeededRandom } from './random';
+import type { DistanceField } from './distanceField';
+import type { SmartEnemy } from './enemyBehaviors';
+import { BASIC_STRATEGY } from './basicEnemyStrategy';
+import { ENHANCED_STRATEGY } from './enhancedEnemyStrategy';
+import { type GuidedEnemy, LLM_STRATEGY } from './llmEnemyStrategy';
+
+// ==================== TYPES ====================
+
+/** What enemies know about the game on a tick */
+export interface EnemyWorld {
+  maze: number[][];
+  playerPos: Position;
+  /** The player's latest positions, oldest first, the current one last */
+  playerTrail: Position[];
+  /** Distances to the player; chasing is a step down it */
+  playerField: DistanceField;
+  difficulty: Difficulty;
+  rng: SeededRandom;
+  /** Every enemy, including those not moving this tick, for strategies that work as a group */
+  enemies: Enemy[];
+}
+
+/** An order from outside the engine for one enemy, such as a language model's move */
+export interface EnemyPlan {
+  enemyId: string;
+  /** Where the enemy should head; it gets there a step per tick */
+  position: Position;
+  behavior?: string;
+  reasoning?: string;
+}
+
+/** What an enemy is up to, for debug panels */
+export interface EnemyDebugState {
+  id: string;
+  kind: EnemyKind;
+  /** Flavor within the kind, e.g. a personality */
+  type: string;
+  behavior: string;
+  position: Position;
+  speed: number;
+  /** What settled the last move, from the broadest decision down */
+  activePath: string[];
+  /** 0-100, for enemies that tire */
+  energy?: number;
+  /** 0-100, for enemies with a personality */
+  intelligence?: number;
+}
+
+/**
+ * Drives one kind of enemy. Strategies are pure: everything they need is in
+ * the enemies and the world, and the world's rng is their only randomness.
+ */
+export interface EnemyStrategy<E extends Enemy> {
+  /** Fit out an enemy fresh on its spawn; `index` counts all of the level's enemies */
+  init: (enemy: Enemy, index: number, difficulty: Difficulty) => E;
+  /** Move the strategy's enemies a step; enemies due at the same moment are ticked together */
+  tick: (enemies: E[], world: EnemyWorld) => E[];
+  /** Take an order; strategies without one ignore orders */
+  plan?: (enemy: E, plan: EnemyPlan) => E;
+  debugState: (enemy: E) => EnemyDebugState;
+}
+
+interface EnemiesByKind {
+  basic: Enemy;
+  enhanced: SmartEnemy;
+  llm: GuidedEnemy;
+}
+
+// ==================== CONSTANTS ====================
+
+const STRATEGIES: { [K in EnemyKind]: EnemyStrategy<EnemiesByKind[K]> } = {
+  basic: BASIC_STRATEGY,
+  enhanced: ENHANCED_STRATEGY,
+  llm: LLM_STRATEGY
+};
+
+export const ENEMY_KINDS = Object.keys(STRATEGIES) as EnemyKind[];
+
+/** Cells an enemy remembers moving from */
+const TRAIL_LENGTH = 3;
+
+// ==================== HELPERS ====================
+
+/**
+ * The enemies of one kind; each was made by that kind's strategy
+ */
+const ofKind = <K extends EnemyKind>(enemies: Enemy[], kind: K): EnemiesByKind[K][] => {
+  return enemies.filter(enemy => enemy.kind === kind) as EnemiesByKind[K][];
+};
+
+const tickKind = <K extends EnemyKind>(enemies: Enemy[], kind: K, world: EnemyWorld, due: Set<string>): Enemy[] => {
+  const own = ofKind(enemies, kind).filter(enemy => due.has(enemy.id));
+  return own.length > 0 ? STRATEGIES[kind].tick(own, world) : [];
+};
+
+const planKind = <K extends EnemyKind>(enemy: EnemiesByKind[K], kind: K, plan: EnemyPlan): Enemy => {
+  const strategy = STRATEGIES[kind];
+  return strategy.plan ? strategy.plan(enemy, plan) : enemy;
+};
+
+const debugKind = <K extends EnemyKind>(enemy: EnemiesByKind[K], kind: K): EnemyDebugState => {
+  return STRATEGIES[kind].debugState(enemy);
+};
+
+const isKind = (value: unknown): value is EnemyKind => {
+  return ENEMY_KINDS.includes(value as EnemyKind);
+};
+
+// ==================== CONTROLLER ====================
+
+/**
+ * The level's enemies on their spawns, each driven by the kind the level
+ * gives it or else `kind`
+ */
+export const initEnemies = (level: Level, kind: EnemyKind, difficulty: Difficulty): Enemy[] => {
+  return level.enemyPositions.map((pos, index) => {
+    const levelKind = level.enemyKinds?.[index];
+    const enemyKind = isKind(levelKind) ? levelKind : kind;
+    return STRATEGIES[enemyKind].init({
+      id: `enemy-${index}`,
+      kind: enemyKind,
+      position: { ...pos },
+      trail: [],
+      behavior: 'idle',
+      speed: 1
+    }, index, difficulty);
+  });
+};
+
+/**
+ * Milliseconds between an enemy's moves at its current speed, given the
+ * level's interval; whole milliseconds so the clock stays exact
+ */
+export const getMoveInterval = (enemy: Enemy, levelInterval: number): number => {
+  return Math.max(1, Math.round(levelInterval / enemy.speed));
+};
+
+/**
+ * Move the enemies whose ids are `due` a step, kind by kind, keeping every
+ * enemy's place in the list
+ */
+export const tickEnemies = (enemies: Enemy[], world: Omit<EnemyWorld, 'enemies'>, due: Set<string>): Enemy[] => {
+  const moved = new Map<string, Enemy>();
+  ENEMY_KINDS.forEach(kind => {
+    tickKind(enemies, kind, { ...world, enemies }, due).forEach(enemy => moved.set(enemy.id, enemy));
+  });
+
+  return enemies.map(enemy => {
+    const next = moved.get(enemy.id) ?? enemy;
+    const stayed = next.position.x === enemy.position.x && next.position.y === enemy.position.y;
+    return stayed ? next : { ...next, trail: [...enemy.trail, enemy.position].slice(-TRAIL_LENGTH) };
+  });
+};
+
+/**
+ * Hand orders to the enemies they're for; enemies whose strategy takes no
+ * orders, and orders for no enemy, are left alone
+ */
+export const planEnemies = (enemies: Enemy[], plans: EnemyPlan[]): Enemy[] => {
+  return enemies.map(enemy => {
+    const plan = plans.find(candidate => candidate.enemyId === enemy.id);
+    return plan ? planKind(enemy as EnemiesByKind[EnemyKind], enemy.kind, plan) : enemy;
+  });
+};
+
+/**
+ * The enemy on `pos`, which catches a player there; null when there is none.
+ * The engine names this enemy in its hit events.
+ */
+export const findCatcher = (enemies: Enemy[], pos: Position): Enemy | null => {
+  const index = findEnemyCollision(pos, enemies.map(enemy => enemy.position));
+  return index >= 0 ? enemies[index] : null;
+};
+
+/**
+ * Whether any enemy is on `pos`
+ */
+export const collides = (enemies: Enemy[], pos: Position): boolean => {
+  return findCatcher(enemies, pos) !== null;
+};
+
+export const getEnemyDebugState = (enemies: Enemy[]): EnemyDebugState[] => {
+  return enemies.map(enemy => debugKind(enemy as EnemiesByKind[EnemyKind], enemy.kind));
+};
+
+export const EnemyController = {
+  init: initEnemies,
+  tick: tickEnemies,
+  getMoveInterval,
+  plan: planEnemies,
+  collides,
+  findCatcher,
+  debugState: getEnemyDebugState
+};
@@ -0,0 +1,328 @@
+// src/services/enhancedEnemyStrategy.ts - Enemies with Personalities, Sight and Memory
+import type { Position, Difficulty, Enemy } from '../types/game.types';
+import { findPathAStar, getNextStep, isValidPosition, getDistance } from '../utilities/collision';
+import { computeFieldOfView, isCellVisible } from '../utilities/fieldOfView';
+import { getDownhillStep } from './distanceField';
+import { createBehaviorMemory, tickBehaviorTree } from './behaviorTree';
+import {
+  type EnemyPersonality,
+  type SmartEnemy,
+  type PlayerPattern,
+  ENEMY_BEHAVIORS,
+  PERSONALITIES,
+  PERSONALITY_TYPES,
+  POSITION_VALUES
+} from './enemyBehaviors';
+import type { EnemyStrategy, EnemyWorld } from './enemyController';
+
+// ==================== CONSTANTS ====================
+
+// How far enemies see, and how wide a cone ahead of them once they've moved
+const SIGHT_RADIUS = 6;
+const SIGHT_CONE = 120;
+// Searchers check hidden cells this close to where the player was last seen
+const SEARCH_RADIUS = 3;
+// Positions it takes before the player's habits say anything
+const PATTERN_MIN_HISTORY = 10;
+
+const DIFFICULTY_MODIFIERS: Record<Difficulty, Omit<EnemyPersonality, 'type' | 'cooperation'>> = {
+  easy: { intelligence: 0.3, aggressiveness: 0.4, patience: 0.6 },
+  normal: { intelligence: 0.6, aggressiveness: 0.6, patience: 0.5 },
+  hard: { intelligence: 0.9, aggressiveness: 0.8, patience: 0.3 }
+};
+
+const DIRECTIONS = [
+  { x: 0, y: -1, name: 'up' },
+  { x: 0, y: 1, name: 'down' },
+  { x: -1, y: 0, name: 'left' },
+  { x: 1, y: 0, name: 'right' }
+];
+
+// ==================== PLAYER PATTERNS ====================
+
+/**
+ * Personalities take turns down the level's enemies; the difficulty scales
+ * every trait but cooperation
+ */
+export const createEnemyPersonality = (index: number, difficulty: Difficulty): EnemyPersonality => {
+  const type = PERSONALITY_TYPES[index % PERSONALITY_TYPES.length];
+  const mods = DIFFICULTY_MODIFIERS[difficulty];
+  const { traits } = PERSONALITIES[type];
+
+  return {
+    type,
+    aggressiveness: traits.aggressiveness * mods.aggressiveness,
+    intelligence: traits.intelligence * mods.intelligence,
+    patience: traits.patience * mods.patience,
+    cooperation: traits.cooperation
+  };
+};
+
+/**
+ * The player's habits from their latest positions; null until there are enough of them
+ */
+export const analyzePlayerPattern = (history: Position[]): PlayerPattern | null => {
+  if (history.length < PATTERN_MIN_HISTORY) return null;
+
+  const directions = { up: 0, down: 0, left: 0, right: 0 };
+  const sequences = new Map<string, number>();
+
+  // Analyze direction preferences
+  for (let i = 1; i < history.length; i++) {
+    const dx = history[i].x - history[i-1].x;
+    const dy = history[i].y - history[i-1].y;
+
+    if (dx === 0 && dy === -1) directions.up++;
+    else if (dx === 0 && dy === 1) directions.down++;
+    else if (dx === -1 && dy === 0) directions.left++;
+    else if (dx === 1 && dy === 0) directions.right++;
+  }
+
+  // Analyze 3-move sequences
+  for (let i = 2; i < history.length; i++) {
+    const seq = `${history[i-2].x},${history[i-2].y}-${history[i-1].x},${history[i-1].y}-${history[i].x},${history[i].y}`;
+    sequences.set(seq, (sequences.get(seq) || 0) + 1);
+  }
+
+  // Detect retreat behavior
+  let retreatBehavior: PlayerPattern['retreatBehavior'] = 'random';
+  const recentMoves = history.slice(-10);
+  const backtrackCount = recentMoves.filter((pos, i) =>
+    i > 1 && pos.x === recentMoves[i-2].x && pos.y === recentMoves[i-2].y
+  ).length;
+
+  if (backtrackCount > 2) retreatBehavior = 'backtrack';
+  else if (recentMoves.some(pos => pos.x <= 2 || pos.y <= 2)) retreatBehavior = 'corner';
+
+  return {
+    favoriteDirections: directions,
+    commonSequences: sequences,
+    retreatBehavior,
+    averageSpeed: (history.length - 1) / 10,
+    decisionTime: 1
+  };
+};
+
+/**
+ * The player's likeliest next cells, best first, going by the directions they favor
+ */
+const predictPlayerMoves = (maze: number[][], playerPos: Position, pattern: PlayerPattern | null): Position[] => {
+  if (!pattern) return [];
+
+  return DIRECTIONS
+    .map(dir => ({
+      pos: { x: playerPos.x + dir.x, y: playerPos.y + dir.y },
+      probability: Math.min(0.25 + (pattern.favoriteDirections[dir.name] || 0) / 100, 0.8)
+    }))
+    .filter(move => isValidPosition(move.pos.x, move.pos.y, maze))
+    .sort((a, b) => b.probability - a.probability)
+    .slice(0, 2)
+    .map(move => move.pos);
+};
+
+/**
+ * What the enemies have worked out about the player, for the AI panels
+ */
+export const getPatternInsights = (playerTrail: Position[]): string[] => {
+  const pattern = analyzePlayerPattern(playerTrail);
+  if (!pattern) return [];
+
+  const insights: string[] = [];
+  const topDirection = Object.entries(pattern.favoriteDirections)
+    .sort(([,a], [,b]) => b - a)[0];
+  if (topDirection) {
+    insights.push(`Player prefers moving ${topDirection[0]} (${topDirection[1]} times)`);
+  }
+  insights.push(`Retreat behavior: ${pattern.retreatBehavior}`);
+  return insights;
+};
+
+// ==================== DECISIONS ====================
+
+/** What every enemy of a tick shares */
+interface SmartWorld extends EnemyWorld {
+  predictions: Position[];
+}
+
+const isSmartEnemy = (enemy: Enemy): enemy is SmartEnemy => 'personality' in enemy;
+
+/**
+ * What an enemy can see; scouts keep watch all around
+ */
+const getEnemyView = (enemy: SmartEnemy, maze: number[][]): Set<string> => {
+  return computeFieldOfView(enemy.position, maze, {
+    radius: SIGHT_RADIUS,
+    facing: enemy.personality.type === 'scout' ? undefined : enemy.facing ?? undefined,
+    coneAngle: SIGHT_CONE
+  });
+};
+
+/**
+ * Where to look next: the last sighting until it's in view, then the nearest hidden cell around it
+ */
+const findSearchTarget = (enemy: SmartEnemy, view: Set<string>, maze: number[][]): Position | null => {
+  const lastSight = enemy.lastPlayerSight;
+  if (!lastSight || !isCellVisible(view, lastSight)) return lastSight;
+
+  let bestCell: Position | null = null;
+  let shortestDistance = Infinity;
+  for (let dy = -SEARCH_RADIUS; dy <= SEARCH_RADIUS; dy++) {
+    for (let dx = -SEARCH_RADIUS; dx <= SEARCH_RADIUS; dx++) {
+      const cell = { x: lastSight.x + dx, y: lastSight.y + dy };
+      if (!isValidPosition(cell.x, cell.y, maze) || isCellVisible(view, cell)) continue;
+
+      const distance = getDistance(cell, enemy.position);
+      if (distance < shortestDistance) {
+        shortestDistance = distance;
+        bestCell = cell;
+      }
+    }
+  }
+  return bestCell;
+};
+
+/**
+ * Next step toward `target` on a route through cells the personality values;
+ * smarter enemies plan further ahead
+ */
+const findSmartStep = (enemy: SmartEnemy, target: Position, world: SmartWorld): Position | null => {
+  const valuePosition = POSITION_VALUES[PERSONALITIES[enemy.personality.type].positionValue];
+  const context = {
+    maze: world.maze,
+    playerPos: world.playerPos,
+    enemy,
+    allies: world.enemies.filter(ally => isSmartEnemy(ally) && ally.cooperationGroup === enemy.cooperationGroup),
+    predictPlayerMoves: () => world.predictions
+  };
+
+  const path = findPathAStar(enemy.position, target, world.maze, {
+    costMap: pos => 1 - valuePosition(pos, context) * 0.1,
+    maxSteps: Math.floor(enemy.personality.intelligence * 15)
+  });
+  return getNextStep(path);
+};
+
+/**
+ * One tick of the enemy's personality tree, which decides its behavior and target
+ */
+const decide = <E extends SmartEnemy>(enemy: E, world: SmartWorld): E => {
+  const { playerPos, maze } = world;
+  const view = getEnemyView(enemy, maze);
+  const canSeePlayer = isCellVisible(view, playerPos);
+  const draft = { ...enemy, energy: Math.max(0, enemy.energy - 1) }; // Energy decreases over time
+
+  const { memory, activePath } = tickBehaviorTree(PERSONALITIES[enemy.personality.type].tree, ENEMY_BEHAVIORS, {
+    enemy: draft,
+    playerPos,
+    canSeePlayer,
+    distanceToPlayer: getDistance(enemy.position, playerPos),
+    predictPlayerMoves: () => world.predictions,
+    findSearchTarget: () => findSearchTarget(enemy, view, maze),
+    rng: world.rng
+  }, enemy.treeMemory);
+
+  return {
+    ...draft,
+    treeMemory: memory,
+    activePath,
+    lastPlayerSight: canSeePlayer ? playerPos : enemy.lastPlayerSight
+  };
+};
+
+/**
+ * How fast the enemy goes next. Chasing can set off a sprint, which takes a
+ * while to recover from; patrols go at the personality's own pace.
+ */
+const getPace = (enemy: SmartEnemy): Pick<SmartEnemy, 'speed' | 'sprintMoves' | 'sprintRecovery'> => {
+  const { pace } = PERSONALITIES[enemy.personality.type];
+  let { sprintMoves, sprintRecovery } = enemy;
+
+  if (sprintMoves > 0) {
+    sprintMoves -= 1;
+    if (sprintMoves === 0) sprintRecovery = pace.sprint?.recovery ?? 0;
+  } else if (sprintRecovery > 0) {
+    sprintRecovery -= 1;
+  } else if (pace.sprint && enemy.behavior === 'chasing') {
+    sprintMoves = pace.sprint.moves;
+  }
+
+  const speed = sprintMoves > 0 && pace.sprint
+    ? pace.sprint.speed
+    : enemy.behavior === 'patrolling' ? pace.patrol : 1;
+  return { speed, sprintMoves, sprintRecovery };
+};
+
+/**
+ * Decide and move each enemy; how eagerly it moves depends on its aggression.
+ * Generic so strategies building on these enemies keep their own fields.
+ */
+export const tickSmartEnemies = <E extends SmartEnemy>(enemies: E[], world: EnemyWorld): E[] => {
+  const smartWorld: SmartWorld = {
+    ...world,
+    predictions: predictPlayerMoves(world.maze, world.playerPos, analyzePlayerPattern(world.playerTrail))
+  };
+
+  return enemies.map(enemy => {
+    const decided = decide(enemy, smartWorld);
+
+    // Chasing the player is a step down the shared field; other targets get their own search
+    const target = decided.currentTarget;
+    const chasing = !!target && target.x === world.playerPos.x && target.y === world.playerPos.y;
+    const step = chasing
+      ? getDownhillStep(world.playerField, enemy.position)
+      : target && findSmartStep(decided, target, smartWorld);
+    const nextPos = step ?? enemy.position;
+
+    const shouldMove = world.rng.next() < decided.personality.aggressiveness * 0.8 + 0.2;
+    return {
+      ...decided,
+      ...getPace(decided),
+      position: shouldMove ? nextPos : enemy.position,
+      facing: shouldMove && nextPos !== enemy.position
+        ? { x: nextPos.x - enemy.position.x, y: nextPos.y - enemy.position.y }
+        : enemy.facing
+    };
+  });
+};
+
+/**
+ * Fit out an enemy with a personality; neighbors pair up to cooperate
+ */
+export const initSmartEnemy = (enemy: Enemy, index: number, difficulty: Difficulty): SmartEnemy => {
+  const personality = createEnemyPersonality(index, difficulty);
+  return {
+    ...enemy,
+    personality,
+    behavior: 'patrolling',
+    speed: PERSONALITIES[personality.type].pace.patrol,
+    energy: 100,
+    lastPlayerSight: null,
+    facing: null,
+    patrolRoute: [],
+    currentTarget: null,
+    frustrationLevel: 0,
+    cooperationGroup: Math.floor(index / 2).toString(),
+    treeMemory: createBehaviorMemory(),
+    activePath: [],
+    sprintMoves: 0,
+    sprintRecovery: 0
+  };
+};
+
+// ==================== STRATEGY ====================
+
+export const ENHANCED_STRATEGY: EnemyStrategy<SmartEnemy> = {
+  init: initSmartEnemy,
+  tick: tickSmartEnemies,
+  debugState: enemy => ({
+    id: enemy.id,
+    kind: enemy.kind,
+    type: enemy.personality.type,
+    behavior: enemy.behavior,
+    position: enemy.position,
+    speed: enemy.speed,
+    activePath: enemy.activePath,
+    energy: enemy.energy,
+    intelligence: Math.round(enemy.personality.intelligence * 100)
+  })
+};
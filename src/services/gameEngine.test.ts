@@ -0,0 +1,222 @@
+import { describe, expect, it } from 'vitest';
+import { type Level, CELL_TYPES } from '../types/game.types';
+import { GAME_CONFIG, LEVELS } from '../utilities/gameConstant';
+import { type EngineInput, type EngineState, GameEngine } from './gameEngine';
+
+const { WALL: W, PATH: P, EXIT: E, COLLECTIBLE: C, CHECKPOINT: K } = CELL_TYPES;
+
+/** The player at the mouth of a dead end, the enemy inside it: the enemy can only step onto the player */
+const DEAD_END_LEVEL: Level = {
+  id: 1,
+  name: 'Dead end',
+  maze: [
+    [W, W, W, W],
+    [W, P, P, W],
+    [W, E, W, W],
+    [W, W, W, W]
+  ],
+  timeLimit: 60,
+  collectibles: 0,
+  enemyCount: 1,
+  enemyPositions: [{ x: 2, y: 1 }],
+  playerStart: { x: 1, y: 1 },
+  exitPosition: { x: 1, y: 2 }
+};
+
+/** A short corridor with the exit off its start and the only star at its far end */
+const CORRIDOR_LEVEL: Level = {
+  id: 1,
+  name: 'Corridor',
+  maze: [
+    [W, W, W, W, W],
+    [W, P, P, C, W],
+    [W, E, W, W, W],
+    [W, W, W, W, W]
+  ],
+  timeLimit: 10,
+  collectibles: 1,
+  enemyCount: 0,
+  enemyPositions: [],
+  playerStart: { x: 1, y: 1 },
+  exitPosition: { x: 1, y: 2 }
+};
+
+const UP = { move: { dx: 0, dy: -1 } };
+const DOWN = { move: { dx: 0, dy: 1 } };
+const LEFT = { move: { dx: -1, dy: 0 } };
+const RIGHT = { move: { dx: 1, dy: 0 } };
+
+/** Step through `moves`, waiting out the move cooldown before each */
+const play = (state: EngineState, moves: EngineInput[]): EngineState => {
+  return moves.reduce((current, input) => GameEngine.step(current, input, GAME_CONFIG.MOVE_COOLDOWN), state);
+};
+
+const countEvents = (state: EngineState, type: string): number => {
+  return state.events.filter(event => event.type === type).length;
+};
+
+describe('GameEngine.step', () => {
+  it('keeps the player in place when they move into a wall', () => {
+    const state = GameEngine.create(CORRIDOR_LEVEL, { seed: 1 });
+
+    const next = GameEngine.step(state, UP, 0);
+
+    expect(next.playerPos).toEqual({ x: 1, y: 1 });
+    expect(countEvents(next, 'move')).toBe(0);
+  });
+
+  it('picks up a star the player steps onto', () => {
+    const state = GameEngine.create(CORRIDOR_LEVEL, { seed: 1 });
+
+    const next = play(state, [RIGHT, RIGHT]);
+
+    expect(next.playerPos).toEqual({ x: 3, y: 1 });
+    expect(next.collectedItems).toBe(1);
+    expect(next.score).toBe(GAME_CONFIG.SCORE.COLLECTIBLE);
+    expect(next.maze[1][3]).toBe(P);
+    expect(countEvents(next, 'collect')).toBe(1);
+  });
+
+  it('keeps the exit locked until every star is collected', () => {
+    const state = GameEngine.create(CORRIDOR_LEVEL, { seed: 1 });
+
+    const early = play(state, [DOWN]);
+    expect(early.playerPos).toEqual({ x: 1, y: 2 });
+    expect(early.status).toBe('playing');
+
+    const cleared = play(early, [UP, RIGHT, RIGHT, LEFT, LEFT, DOWN]);
+    expect(cleared.status).toBe('won');
+    expect(countEvents(cleared, 'level_complete')).toBe(1);
+  });
+
+  it('ends the level when the time runs out', () => {
+    const state = GameEngine.create(CORRIDOR_LEVEL, { seed: 1 });
+
+    const almost = GameEngine.step(state, null, CORRIDOR_LEVEL.timeLimit * 1000 - 1);
+    expect(almost.status).toBe('playing');
+
+    const next = GameEngine.step(almost, null, 1);
+    expect(next.status).toBe('lost');
+    expect(next.lossReason).toBe('timeout');
+    expect(next.timeLeft).toBe(0);
+    expect(countEvents(next, 'game_over')).toBe(1);
+  });
+
+  it('catches a player and an enemy that step into each other in the same step', () => {
+    const state = GameEngine.create(DEAD_END_LEVEL, { seed: 1 });
+    const interval = Math.ceil(GameEngine.getLevelEnemyInterval(state));
+
+    // The enemy's step falls due within this step and the player moves toward it
+    const next = GameEngine.step(state, RIGHT, interval);
+    const types = next.events.map(event => event.type);
+    const hit = next.events.find(event => event.type === 'enemy_hit');
+
+    // The clock runs first, so the enemy reaches the player before the player's
+    // move lands: the hit is on the player's cell, not after the two have passed
+    expect(hit?.data?.position).toEqual({ x: 1, y: 1 });
+    expect(hit?.data?.enemyId).toBe(next.enemies[0].id);
+    expect(next.enemies[0].position).toEqual({ x: 1, y: 1 });
+    expect(types.indexOf('enemy_hit')).toBeGreaterThan(0);
+    expect(types.slice(0, types.indexOf('enemy_hit'))).not.toContain('move');
+    expect(next.lives).toBe(state.lives - 1);
+  });
+
+  it('catches a player who steps onto an enemy that stays put', () => {
+    const state = GameEngine.create(DEAD_END_LEVEL, { seed: 1 });
+
+    const next = GameEngine.step(state, RIGHT, 0);
+    const hit = next.events.find(event => event.type === 'enemy_hit');
+
+    expect(next.enemies[0].position).toEqual({ x: 2, y: 1 });
+    expect(next.events.map(event => event.type).slice(1, 3)).toEqual(['move', 'enemy_hit']);
+    expect(hit?.data?.position).toEqual({ x: 2, y: 1 });
+    expect(next.lives).toBe(state.lives - 1);
+  });
+
+  it('leaves the state it was given untouched', () => {
+    const state = GameEngine.create(CORRIDOR_LEVEL, { seed: 1 });
+    const snapshot = structuredClone(state);
+
+    play(state, [RIGHT, RIGHT]);
+
+    expect(state).toEqual(snapshot);
+  });
+});
+
+/** A checkpoint, then a star, then an enemy waiting at the end of the corridor */
+const GAUNTLET_LEVEL: Level = {
+  id: 1,
+  name: 'Gauntlet',
+  maze: [
+    [W, W, W, W, W, W],
+    [W, P, K, C, P, W],
+    [W, E, W, W, W, W],
+    [W, W, W, W, W, W]
+  ],
+  timeLimit: 60,
+  collectibles: 1,
+  enemyCount: 1,
+  enemyPositions: [{ x: 4, y: 1 }],
+  playerStart: { x: 1, y: 1 },
+  exitPosition: { x: 1, y: 2 }
+};
+
+describe('GameEngine lives', () => {
+  it('sends the player back to their checkpoint when an enemy takes a life', () => {
+    const state = GameEngine.create(GAUNTLET_LEVEL, { seed: 1, difficulty: 'normal' });
+    const { lives, deathPenalty } = GAME_CONFIG.DIFFICULTY_MODIFIERS.normal;
+
+    const next = play(state, [RIGHT, RIGHT, RIGHT]);
+
+    expect(next.status).toBe('playing');
+    expect(next.lives).toBe(lives - 1);
+    expect(next.checkpoint).toEqual({ x: 2, y: 1 });
+    expect(next.playerPos).toEqual({ x: 2, y: 1 });
+    expect(next.score).toBe(GAME_CONFIG.SCORE.COLLECTIBLE - Math.min(GAME_CONFIG.SCORE.COLLECTIBLE, deathPenalty));
+    expect(next.invulnerableMs).toBe(GAME_CONFIG.RESPAWN.INVULNERABLE_MS);
+    expect(next.events.map(event => event.type).slice(-2)).toEqual(['enemy_hit', 'respawn']);
+  });
+
+  it('loses the level when the last life is taken', () => {
+    const state = GameEngine.create({ ...GAUNTLET_LEVEL, enemyPositions: [{ x: 2, y: 1 }] }, { seed: 1, difficulty: 'hard' });
+    expect(state.lives).toBe(1);
+
+    const next = GameEngine.step(state, RIGHT, 0);
+
+    expect(next.status).toBe('lost');
+    expect(next.lossReason).toBe('enemy');
+    expect(next.lives).toBe(0);
+    expect(countEvents(next, 'respawn')).toBe(0);
+  });
+});
+
+describe('GameEngine determinism', () => {
+  const level = LEVELS[1];
+  const run: [EngineInput | null, number][] = [
+    [RIGHT, 400], [RIGHT, 400], [DOWN, 900], [DOWN, 250], [null, 1700],
+    [LEFT, 300], [UP, 650], [RIGHT, 1200], [DOWN, 500], [null, 2300]
+  ];
+
+  const playRun = (slices: number): EngineState => {
+    return run.reduce((state, [input, dtMs]) => {
+      // Spread the time over `slices` steps; the input comes with the last one
+      for (let i = 1; i < slices; i++) {
+        state = GameEngine.step(state, null, dtMs / slices);
+      }
+      return GameEngine.step(state, input, dtMs / slices);
+    }, GameEngine.create(level, { seed: 42 }));
+  };
+
+  it('reaches the same state from the same seed and inputs', () => {
+    expect(playRun(1)).toEqual(playRun(1));
+  });
+
+  it('reaches the same state however the time is sliced', () => {
+    const whole = playRun(1);
+
+    expect(whole.enemies.length).toBeGreaterThan(0);
+    expect(playRun(2)).toEqual(whole);
+    expect(playRun(5)).toEqual(whole);
+    expect(playRun(10)).toEqual(whole);
+  });
+});
@@ -0,0 +1,612 @@
+// src/services/gameEngine.ts - Headless, Deterministic Game Engine
+import {
+  type Position,
+  type Level,
+  type Difficulty,
+  type GameEvent,
+  type Enemy,
+  type EnemyKind,
+  CELL_TYPES
+} from '../types/game.types';
+import { GAME_CONFIG } from '../utilities/gameConstant';
+import { cloneMaze, removeCollectible, updateMazeCell } from '../utilities/mazeUtilities';
+import { isValidPosition } from '../utilities/collision';
+import { getChannelCellInfo, isStepAllowed, findTeleportTarget, toggleGates } from '../utilities/hazards';
+import { SeededRandom, randomSeed } from './random';
+import { computeFieldOfView } from '../utilities/fieldOfView';
+import { type DistanceField, createDistanceField, updateDistanceField } from './distanceField';
+import { type EnemyPlan, EnemyController } from './enemyController';
+import {
+  type StatusEffect,
+  getPowerUpType,
+  hasEffect,
+  addEffect,
+  removeEffect,
+  tickEffects,
+  getNextExpiry
+} from './statusEffects';
+import { solveMaze } from '../utilities/mazeSolver';
+
+// ==================== TYPES ====================
+
+export type EngineStatus = 'playing' | 'won' | 'lost';
+
+/** The enemy behind a hit, as events and the game over screen name it */
+export interface Catcher {
+  id: string;
+  /** Its flavor, e.g. a personality, or its kind */
+  type: string;
+}
+export type LossReason = 'timeout' | 'enemy';
+
+export interface EngineOptions {
+  difficulty?: Difficulty;
+  seed?: number;
+  /** How enemies the level doesn't assign a kind are driven; basic by default */
+  enemyKind?: EnemyKind;
+  /** Play in fog of war with this torch radius, before the difficulty modifier */
+  torchRadius?: number;
+}
+
+export interface EngineInput {
+  move?: { dx: number; dy: number };
+  /** Orders for enemies that take them (see `EnemyStrategy.plan`) */
+  enemyPlans?: EnemyPlan[];
+}
+
+/** An input as it reached the engine, stamped with the engine clock */
+export interface RecordedInput extends EngineInput {
+  at: number;
+  /** Enemies were handed to this kind at this point (see `setEnemyControl`) */
+  enemyKind?: EnemyKind;
+}
+
+export interface EngineState {
+  level: Level;
+  difficulty: Difficulty;
+  maze: number[][];
+  playerPos: Position;
+  /** Distances to the player, updated as they move; chasing enemies step down it */
+  playerField: DistanceField;
+  /** The player's latest positions, oldest first; smart enemies learn their habits from it */
+  playerTrail: Position[];
+  enemies: Enemy[];
+  /** How enemies the level doesn't assign a kind are driven */
+  enemyKind: EnemyKind;
+  status: EngineStatus;
+  lossReason: LossReason | null;
+  /** The enemy that last took a life, if any has */
+  caughtBy: Catcher | null;
+  score: number;
+  collectedItems: number;
+  timeLeft: number;
+  elapsedMs: number;
+  timerMs: number;
+  /** Time each enemy has waited toward its next move, by index */
+  enemyMs: number[];
+  moveCooldownMs: number;
+  /** Seed the level was started with; replaying it reproduces the run */
+  seed: number;
+  rngState: number;
+  /** Every event of the level so far; timestamps are milliseconds since level start */
+  events: GameEvent[];
+  /** Every input the engine has acted on; together with the seed this replays the level */
+  inputs: RecordedInput[];
+  /** What the player can see and has seen; null when the whole maze is shown */
+  fog: FogState | null;
+  /** Lives left, counting the current one; the level is lost when an enemy takes the last */
+  lives: number;
+  /** Where the player comes back after losing a life: the start or the last checkpoint reached */
+  checkpoint: Position;
+  /** Milliseconds left during which enemies can't hurt the player */
+  invulnerableMs: number;
+  /** Power-up effects still running */
+  effects: StatusEffect[];
+  /** Channels of the keys picked up; each opens every door of its channel */
+  keys: number[];
+}
+
+/** Cells as "x,y" keys */
+export interface FogState {
+  radius: number;
+  visible: Set<string>;
+  explored: Set<string>;
+}
+
+// ==================== CONSTANTS ====================
+
+const DIRECTIONS: Position[] = [
+  { x: 0, y: -1 }, // up
+  { x: 0, y: 1 },  // down
+  { x: -1, y: 0 }, // left
+  { x: 1, y: 0 }   // right
+];
+
+const PLAYER_TRAIL_LENGTH = 30;
+
+/** Level enemy speeds outside this range are clamped; editor and test-play levels skip pack validation */
+const LEVEL_ENEMY_SPEED = { min: 0.25, max: 4 };
+
+// ==================== RULES ====================
+
+/**
+ * Whether enough collectibles have been picked up to leave through the exit
+ */
+export const canExitLevel = (state: EngineState): boolean => {
+  return state.collectedItems >= state.level.collectibles;
+};
+
+/**
+ * The enemy sharing the player's cell. Only the cell is checked: the player
+ * and the enemies move one after the other and this runs after every move
+ * (`applyMove`, `tickEnemies`), so a player and an enemy trading cells always
+ * meet on one of them first.
+ */
+const findCatcher = (state: EngineState): Enemy | null => {
+  return EnemyController.findCatcher(state.enemies, state.playerPos);
+};
+
+/**
+ * Whether any enemy shares the player's cell
+ */
+export const isPlayerCaught = (state: EngineState): boolean => {
+  return EnemyController.collides(state.enemies, state.playerPos);
+};
+
+/**
+ * Whether the player could step from where they are onto a neighboring cell:
+ * it must be open, or a door they hold the key to, and no conveyor may point
+ * against the step
+ */
+export const canEnterCell = (state: EngineState, pos: Position): boolean => {
+  const cell = state.maze[pos.y]?.[pos.x];
+  if (cell === undefined) return false;
+
+  const door = getChannelCellInfo(cell);
+  const unlocked = door?.kind === 'door' && state.keys.includes(door.channel);
+  return (unlocked || isValidPosition(pos.x, pos.y, state.maze)) && isStepAllowed(state.maze, state.playerPos, pos);
+};
+
+/**
+ * Whether the player could step by (dx, dy), ignoring the move cooldown
+ */
+export const canMove = (state: EngineState, dx: number, dy: number): boolean => {
+  if (state.status !== 'playing') return false;
+  return canEnterCell(state, { x: state.playerPos.x + dx, y: state.playerPos.y + dy });
+};
+
+/**
+ * Cells orthogonally adjacent to the player that they could step onto
+ */
+export const getValidMoves = (state: EngineState): Position[] => {
+  return DIRECTIONS
+    .map(dir => ({ x: state.playerPos.x + dir.x, y: state.playerPos.y + dir.y }))
+    .filter(pos => canEnterCell(state, pos));
+};
+
+/**
+ * Bonus points awarded for the seconds left on the clock
+ */
+export const getTimeBonus = (timeLeft: number): number => {
+  return timeLeft * GAME_CONFIG.SCORE.TIME_BONUS;
+};
+
+/**
+ * Torch radius after the difficulty modifier; never below one cell
+ */
+export const getTorchRadius = (torchRadius: number, difficulty: Difficulty): number => {
+  return Math.max(1, Math.round(torchRadius * GAME_CONFIG.DIFFICULTY_MODIFIERS[difficulty].torchMultiplier));
+};
+
+/**
+ * Milliseconds the player must wait between moves; the speed boost shortens it
+ */
+export const getMoveCooldown = (state: EngineState): number => {
+  return hasEffect(state.effects, 'speed')
+    ? Math.round(GAME_CONFIG.MOVE_COOLDOWN * GAME_CONFIG.POWER_UPS.SPEED_MULTIPLIER)
+    : GAME_CONFIG.MOVE_COOLDOWN;
+};
+
+/**
+ * The route the reveal power-up shows: the shortest walk from `from` to the
+ * exit, through every star left in the maze unless the exit is already open
+ */
+export const getRevealRoute = (
+  maze: number[][],
+  from: Position,
+  exit: Position,
+  exitOpen: boolean,
+  keys: number[] = []
+): Position[] | null => {
+  const solution = solveMaze(maze, { start: from, exit, collectibles: exitOpen ? [] : undefined, keys });
+  return solution?.path ?? null;
+};
+
+/**
+ * Add (or with a negative value, remove) seconds from the level timer
+ */
+export const addTime = (state: EngineState, seconds: number): EngineState => {
+  return { ...state, timeLeft: Math.max(0, state.timeLeft + seconds) };
+};
+
+// ==================== STATE TRANSITIONS ====================
+
+/**
+ * Create the starting state for a level
+ */
+export const createEngineState = (level: Level, options: EngineOptions = {}): EngineState => {
+  const seed = options.seed ?? randomSeed();
+  const difficulty = options.difficulty ?? 'normal';
+  const enemyKind = options.enemyKind ?? 'basic';
+
+  return {
+    level,
+    difficulty,
+    maze: cloneMaze(level.maze),
+    playerPos: { ...level.playerStart },
+    playerField: createDistanceField(level.maze, [level.playerStart]),
+    playerTrail: [{ ...level.playerStart }],
+    enemies: EnemyController.init(level, enemyKind, difficulty),
+    enemyKind,
+    status: 'playing',
+    lossReason: null,
+    caughtBy: null,
+    score: 0,
+    collectedItems: 0,
+    timeLeft: level.timeLimit,
+    elapsedMs: 0,
+    timerMs: 0,
+    enemyMs: level.enemyPositions.map(() => 0),
+    moveCooldownMs: 0,
+    seed,
+    rngState: seed,
+    events: [{
+      type: 'level_start',
+      timestamp: 0,
+      seed,
+      data: { levelId: level.id, name: level.name, difficulty, enemyKind }
+    }],
+    inputs: [],
+    fog: options.torchRadius === undefined ? null : revealAround(
+      level.maze,
+      level.playerStart,
+      getTorchRadius(options.torchRadius, difficulty),
+      new Set()
+    ),
+    lives: GAME_CONFIG.DIFFICULTY_MODIFIERS[difficulty].lives,
+    checkpoint: { ...level.playerStart },
+    invulnerableMs: 0,
+    effects: [],
+    keys: []
+  };
+};
+
+/**
+ * Hand the enemies the level doesn't assign a kind to another kind, returning
+ * every enemy to its spawn point
+ */
+export const setEnemyControl = (state: EngineState, enemyKind: EnemyKind): EngineState => {
+  return {
+    ...state,
+    enemyKind,
+    enemies: EnemyController.init(state.level, enemyKind, state.difficulty),
+    enemyMs: state.level.enemyPositions.map(() => 0),
+    inputs: [...state.inputs, { at: state.elapsedMs, enemyKind }]
+  };
+};
+
+/**
+ * Light up what the player sees from `pos` and add it to what they've explored
+ */
+const revealAround = (maze: number[][], pos: Position, radius: number, explored: Set<string>): FogState => {
+  const visible = computeFieldOfView(pos, maze, { radius });
+  return { radius, visible, explored: new Set([...explored, ...visible]) };
+};
+
+/**
+ * Put the player on `pos` and catch up what follows from where they are and
+ * from the current layout: the enemies' distance field and the fog
+ */
+const placePlayer = (state: EngineState, pos: Position) => {
+  state.playerPos = pos;
+  state.playerTrail = [...state.playerTrail, pos].slice(-PLAYER_TRAIL_LENGTH);
+  state.playerField = updateDistanceField(state.playerField, [pos], state.maze);
+  if (state.fog) {
+    state.fog = revealAround(state.maze, pos, state.fog.radius, state.fog.explored);
+  }
+};
+
+const emit = (state: EngineState, type: GameEvent['type'], data?: Record<string, unknown>) => {
+  state.events = [...state.events, { type, timestamp: state.elapsedMs, seed: state.seed, data }];
+};
+
+const loseTo = (state: EngineState, reason: LossReason) => {
+  state.status = 'lost';
+  state.lossReason = reason;
+  if (reason === 'enemy') {
+    emit(state, 'enemy_hit', { position: { ...state.playerPos }, ...getCatcherData(state.caughtBy) });
+  }
+  emit(state, 'game_over', { reason });
+};
+
+const getCatcherData = (catcher: Catcher | null) => {
+  return catcher ? { enemyId: catcher.id, enemyType: catcher.type } : {};
+};
+
+/**
+ * Take a life for `enemy` reaching the player. With lives to spare the player
+ * goes back to their checkpoint, pays the difficulty's penalty and is briefly
+ * invulnerable; hits during that time don't count. A shield takes the hit
+ * instead, leaving the player where they are.
+ */
+const hitPlayer = (state: EngineState, enemy: Enemy) => {
+  if (state.invulnerableMs > 0) return;
+
+  const [{ type }] = EnemyController.debugState([enemy]);
+  const catcher: Catcher = { id: enemy.id, type };
+
+  if (hasEffect(state.effects, 'shield')) {
+    state.effects = removeEffect(state.effects, 'shield');
+    state.invulnerableMs = GAME_CONFIG.RESPAWN.INVULNERABLE_MS;
+    emit(state, 'shield_break', { position: { ...state.playerPos }, ...getCatcherData(catcher) });
+    return;
+  }
+
+  state.caughtBy = catcher;
+  state.lives = Math.max(0, state.lives - 1);
+  if (state.lives === 0) {
+    loseTo(state, 'enemy');
+    return;
+  }
+
+  const penalty = Math.min(state.score, GAME_CONFIG.DIFFICULTY_MODIFIERS[state.difficulty].deathPenalty);
+  emit(state, 'enemy_hit', { position: { ...state.playerPos }, livesLeft: state.lives, penalty, ...getCatcherData(catcher) });
+
+  placePlayer(state, { ...state.checkpoint });
+  state.score -= penalty;
+  state.invulnerableMs = GAME_CONFIG.RESPAWN.INVULNERABLE_MS;
+  emit(state, 'respawn', { position: { ...state.playerPos }, livesLeft: state.lives });
+};
+
+const tickTimer = (state: EngineState) => {
+  state.timerMs -= 1000;
+  state.timeLeft = Math.max(0, state.timeLeft - 1);
+  if (state.timeLeft === 0) {
+    loseTo(state, 'timeout');
+  }
+};
+
+/**
+ * Milliseconds between moves of an enemy at normal speed, for the level and
+ * the difficulty. The difficulty sets both the base interval and a speed
+ * modifier every enemy moves under, sprints and patrols included.
+ */
+export const getLevelEnemyInterval = (state: EngineState): number => {
+  const { enemySpeed = 1 } = state.level;
+  const levelSpeed = Number.isFinite(enemySpeed)
+    ? Math.min(LEVEL_ENEMY_SPEED.max, Math.max(LEVEL_ENEMY_SPEED.min, enemySpeed))
+    : 1;
+  const { enemySpeed: difficultySpeed } = GAME_CONFIG.DIFFICULTY_MODIFIERS[state.difficulty];
+  return GAME_CONFIG.ENEMY_MOVE_INTERVAL[state.difficulty] / (levelSpeed * difficultySpeed);
+};
+
+/**
+ * Milliseconds between an enemy's moves, the level's interval scaled by the
+ * enemy's own speed
+ */
+const getEnemyInterval = (state: EngineState, enemy: Enemy): number => {
+  return EnemyController.getMoveInterval(enemy, getLevelEnemyInterval(state));
+};
+
+/**
+ * Milliseconds until the next enemy is due to move
+ */
+const getTimeToEnemyMove = (state: EngineState): number => {
+  return state.enemies.reduce(
+    (soonest, enemy, index) => Math.min(soonest, Math.max(0, getEnemyInterval(state, enemy) - state.enemyMs[index])),
+    Infinity
+  );
+};
+
+/**
+ * Move the enemies that are due, each at its own pace. Enemies due at the
+ * same moment move together, and the player is checked after every such
+ * move, so no enemy can step through them unnoticed.
+ */
+const tickEnemies = (state: EngineState) => {
+  const due = new Set<string>();
+  state.enemyMs = state.enemies.map((enemy, index) => {
+    const interval = getEnemyInterval(state, enemy);
+    if (state.enemyMs[index] < interval) return state.enemyMs[index];
+    due.add(enemy.id);
+    return state.enemyMs[index] - interval;
+  });
+  if (due.size === 0) return;
+
+  const rng = new SeededRandom(state.rngState);
+  state.enemies = EnemyController.tick(state.enemies, {
+    maze: state.maze,
+    playerPos: state.playerPos,
+    playerTrail: state.playerTrail,
+    playerField: state.playerField,
+    difficulty: state.difficulty,
+    rng
+  }, due);
+  state.rngState = rng.state;
+
+  const catcher = findCatcher(state);
+  if (catcher) {
+    hitPlayer(state, catcher);
+  }
+};
+
+/**
+ * Advance the clocks by dtMs, firing timer and enemy ticks in the order they
+ * fall due so the result does not depend on how time is sliced.
+ */
+const advanceClock = (state: EngineState, dtMs: number) => {
+  const movesEnemies = state.enemies.length > 0;
+  let remaining = dtMs;
+
+  while (remaining > 0 && state.status === 'playing') {
+    // Frozen enemies lose no ground: their clock stops until the freeze wears off
+    const enemiesMove = movesEnemies && !hasEffect(state.effects, 'freeze');
+    const untilSecond = 1000 - state.timerMs;
+    const untilEnemy = enemiesMove ? getTimeToEnemyMove(state) : Infinity;
+    const slice = Math.min(remaining, untilSecond, untilEnemy, getNextExpiry(state.effects));
+
+    state.elapsedMs += slice;
+    state.timerMs += slice;
+    if (enemiesMove) state.enemyMs = state.enemyMs.map(ms => ms + slice);
+    state.moveCooldownMs = Math.max(0, state.moveCooldownMs - slice);
+    state.invulnerableMs = Math.max(0, state.invulnerableMs - slice);
+    state.effects = tickEffects(state.effects, slice);
+    remaining -= slice;
+
+    if (state.timerMs >= 1000) tickTimer(state);
+    if (state.status === 'playing' && enemiesMove && getTimeToEnemyMove(state) === 0) {
+      tickEnemies(state);
+    }
+  }
+};
+
+/**
+ * Keys, switches and teleporters act as the player steps onto them
+ */
+const triggerChannelCell = (state: EngineState, pos: Position, cellType: number) => {
+  const info = getChannelCellInfo(cellType);
+  switch (info?.kind) {
+    case 'key':
+      state.maze = updateMazeCell(state.maze, pos.x, pos.y, CELL_TYPES.PATH);
+      state.keys = state.keys.includes(info.channel) ? state.keys : [...state.keys, info.channel];
+      emit(state, 'key_pickup', { channel: info.channel, position: pos });
+      break;
+    case 'switch':
+      state.maze = toggleGates(state.maze, info.channel);
+      emit(state, 'switch', { channel: info.channel, position: pos });
+      break;
+    case 'teleporter': {
+      const target = findTeleportTarget(state.maze, pos);
+      if (target) {
+        state.playerPos = target;
+        emit(state, 'teleport', { from: pos, to: target });
+      }
+      break;
+    }
+  }
+};
+
+const applyMove = (state: EngineState, dx: number, dy: number) => {
+  if (state.moveCooldownMs > 0 || !canMove(state, dx, dy)) return;
+
+  const from = state.playerPos;
+  const to = { x: from.x + dx, y: from.y + dy };
+
+  // canMove only lets the player at a door with its key, which opens it for good
+  const door = getChannelCellInfo(state.maze[to.y][to.x]);
+  if (door?.kind === 'door') {
+    state.maze = updateMazeCell(state.maze, to.x, to.y, CELL_TYPES.PATH);
+    emit(state, 'door_open', { channel: door.channel, position: to });
+  }
+  const cellType = state.maze[to.y][to.x];
+
+  state.playerPos = to;
+  state.moveCooldownMs = getMoveCooldown(state);
+  emit(state, 'move', { from, to });
+
+  if (state.maze[from.y][from.x] === CELL_TYPES.CRUMBLING) {
+    state.maze = updateMazeCell(state.maze, from.x, from.y, CELL_TYPES.WALL);
+    emit(state, 'crumble', { position: from });
+  }
+
+  if (cellType === CELL_TYPES.COLLECTIBLE) {
+    state.maze = removeCollectible(state.maze, to.x, to.y);
+    state.collectedItems += 1;
+    state.score += GAME_CONFIG.SCORE.COLLECTIBLE;
+    emit(state, 'collect', {
+      position: to,
+      remaining: Math.max(0, state.level.collectibles - state.collectedItems)
+    });
+  }
+
+  const powerUp = getPowerUpType(cellType);
+  if (powerUp) {
+    state.maze = removeCollectible(state.maze, to.x, to.y);
+    if (powerUp === 'time') {
+      state.timeLeft = addTime(state, GAME_CONFIG.POWER_UPS.TIME_BONUS).timeLeft;
+    } else {
+      state.effects = addEffect(state.effects, powerUp);
+    }
+    emit(state, 'power_up', { type: powerUp, position: to });
+  }
+
+  triggerChannelCell(state, to, cellType);
+  placePlayer(state, state.playerPos);
+
+  if (cellType === CELL_TYPES.CHECKPOINT && (state.checkpoint.x !== to.x || state.checkpoint.y !== to.y)) {
+    state.checkpoint = to;
+    emit(state, 'checkpoint', { position: to });
+  }
+
+  const catcher = findCatcher(state);
+  if (catcher) {
+    hitPlayer(state, catcher);
+    return;
+  }
+
+  if (cellType === CELL_TYPES.EXIT && canExitLevel(state)) {
+    state.status = 'won';
+    emit(state, 'level_complete', {
+      level: state.level.id,
+      score: state.score,
+      timeLeft: state.timeLeft,
+      perfect: state.collectedItems >= state.level.collectibles
+    });
+  }
+};
+
+/**
+ * Advance the game by dtMs and then apply the input. Pure: the given state is
+ * never mutated, and the same state, input and dtMs always give the same result.
+ */
+export const step = (state: EngineState, input: EngineInput | null, dtMs: number): EngineState => {
+  if (state.status !== 'playing') return state;
+
+  const next: EngineState = { ...state };
+  advanceClock(next, Math.max(0, dtMs));
+
+  if (next.status === 'playing' && (input?.move || input?.enemyPlans)) {
+    next.inputs = [...next.inputs, {
+      at: next.elapsedMs,
+      ...(input.move && { move: { ...input.move } }),
+      ...(input.enemyPlans && { enemyPlans: input.enemyPlans.map(plan => ({ ...plan, position: { ...plan.position } })) })
+    }];
+  }
+
+  // Orders only set where enemies head; they still move on the engine clock
+  if (next.status === 'playing' && input?.enemyPlans) {
+    next.enemies = EnemyController.plan(next.enemies, input.enemyPlans);
+  }
+
+  if (next.status === 'playing' && input?.move) {
+    applyMove(next, input.move.dx, input.move.dy);
+  }
+
+  return next;
+};
+
+export const GameEngine = {
+  create: createEngineState,
+  step,
+  canMove,
+  canEnterCell,
+  canExitLevel,
+  isPlayerCaught,
+  getValidMoves,
+  getTimeBonus,
+  getTorchRadius,
+  getMoveCooldown,
+  getLevelEnemyInterval,
+  getRevealRoute,
+  addTime
+};
@@ -0,0 +1,68 @@
+// src/services/ghostRun.ts - Personal Best Ghost Recording and Splits
+import type { GhostFrame, GhostRun, Position } from '../types/game.types';
+import type { EngineState } from './gameEngine';
+
+/**
+ * Build a ghost from a cleared level: the player's timed path and the time of
+ * each collectible pickup. Returns null if the level was not won.
+ */
+export const createGhostRun = (state: EngineState): GhostRun | null => {
+  if (state.status !== 'won') return null;
+
+  const path = [{ t: 0, ...state.level.playerStart }];
+  const splits: number[] = [];
+  let finishTime = state.elapsedMs;
+
+  state.events.forEach(event => {
+    if (event.type === 'move' || event.type === 'teleport') {
+      // A teleport lands the same moment as the move onto its pad, so the later frame wins
+      path.push({ t: event.timestamp, x: event.data.to.x, y: event.data.to.y });
+    } else if (event.type === 'respawn') {
+      path.push({ t: event.timestamp, x: event.data.position.x, y: event.data.position.y });
+    } else if (event.type === 'collect') {
+      splits.push(event.timestamp);
+    } else if (event.type === 'level_complete') {
+      finishTime = event.timestamp;
+    }
+  });
+
+  return {
+    level: state.level.id,
+    time: finishTime,
+    path,
+    splits,
+    date: new Date().toISOString()
+  };
+};
+
+/**
+ * Whether `candidate` clears the level faster than `current`
+ */
+export const isFasterGhost = (candidate: GhostRun, current?: GhostRun | null): boolean => {
+  return !current || candidate.time < current.time;
+};
+
+/**
+ * Cell the ghost occupies `elapsedMs` into the level; it stays on its last
+ * cell once its run is over
+ */
+export const getGhostPosition = (ghost: GhostRun, elapsedMs: number): Position | null => {
+  let frame: GhostFrame | null = null;
+  for (const candidate of ghost.path) {
+    if (candidate.t > elapsedMs) break;
+    frame = candidate;
+  }
+  return frame && { x: frame.x, y: frame.y };
+};
+
+/**
+ * Seconds ahead (negative) or behind (positive) the ghost at the latest
+ * pickup, or null before the first pickup or past the ghost's pickups
+ */
+export const getLatestSplit = (ghost: GhostRun, state: EngineState): number | null => {
+  const pickups = state.events.filter(event => event.type === 'collect');
+  const index = pickups.length - 1;
+  if (index < 0 || index >= ghost.splits.length) return null;
+
+  return (pickups[index].timestamp - ghost.splits[index]) / 1000;
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { CELL_TYPES } from '../types/game.types';
+import { LEVELS } from '../utilities/gameConstant';
+import { type PackLevel, BUILT_IN_LEVEL_PACK, createLevelPack, loadLevelPack, validateLevelPack } from './levelPacks';
+
+const MANIFEST = { id: 'test-pack', name: 'Test pack', version: '1.0.0', createdAt: '2025-01-01T00:00:00.000Z' };
+
+const packWith = (changes: Partial<PackLevel>) => {
+  return createLevelPack(MANIFEST, [{ ...LEVELS[0], ...changes }]);
+};
+
+describe('validateLevelPack', () => {
+  it('accepts a well-formed pack', () => {
+    const { pack, errors } = validateLevelPack(packWith({}));
+
+    expect(errors).toEqual([]);
+    expect(pack?.levels).toHaveLength(1);
+  });
+
+  it('accepts every built-in level under a pack of its own', () => {
+    const { errors } = validateLevelPack({ ...BUILT_IN_LEVEL_PACK, manifest: MANIFEST });
+
+    expect(errors).toEqual([]);
+  });
+
+  it.each([
+    ['a negative time limit', { timeLimit: -5 }],
+    ['a zero time limit', { timeLimit: 0 }],
+    ['a negative collectible count', { collectibles: -3 }],
+    ['a fractional collectible count', { collectibles: 1.5 }]
+  ])('rejects a level with %s', (_, changes) => {
+    const { pack, errors } = validateLevelPack(packWith(changes));
+
+    expect(pack).toBeNull();
+    expect(errors).toContain('Level 1 is malformed');
+  });
+
+  it('rejects an infinite time limit from the file', () => {
+    const json = JSON.stringify(packWith({})).replace('"timeLimit":60', '"timeLimit":1e309');
+
+    const { pack, errors } = loadLevelPack(json);
+
+    expect(json).toContain('1e309');
+    expect(pack).toBeNull();
+    expect(errors).toContain('Level 1 is malformed');
+  });
+
+  it('rejects an exit position away from the exit cell', () => {
+    const level = LEVELS[0];
+    const exit = level.exitPosition;
+    expect(level.maze[exit.y][exit.x]).toBe(CELL_TYPES.EXIT);
+
+    const { pack, errors } = validateLevelPack(packWith({ exitPosition: { x: 1, y: 1 } }));
+
+    expect(pack).toBeNull();
+    expect(errors).toContain(`${level.name}: The exit position is not on the exit cell`);
+  });
+});
@@ -0,0 +1,259 @@
+// src/services/levelPacks.ts - Level Pack Format, Validation and Sharing
+import { type Level, type Medal, type Position, CELL_TYPES } from '../types/game.types';
+import { LEVELS } from '../utilities/gameConstant';
+import { type LevelPar, getLevelPar, isBetterMedal } from '../utilities/levelPar';
+import { validateLevel } from '../utilities/levelEditor';
+import { ENEMY_KINDS } from './enemyController';
+
+// ==================== TYPES ====================
+
+export interface LevelMetadata {
+  author?: string;
+  /** Seed and generator the layout came from, when it was generated */
+  seed?: number;
+  generator?: string;
+  par?: LevelPar;
+}
+
+export type PackLevel = Level & { metadata?: LevelMetadata };
+
+export interface LevelPackManifest {
+  /** Stable identifier; progress is tracked under it */
+  id: string;
+  name: string;
+  /** Version of the pack's content, e.g. "1.2.0" */
+  version: string;
+  author?: string;
+  description?: string;
+  createdAt: string;
+}
+
+export interface LevelPack {
+  /** Version of the file format itself */
+  format: number;
+  manifest: LevelPackManifest;
+  levels: PackLevel[];
+}
+
+export interface PackLoadResult {
+  pack: LevelPack | null;
+  errors: string[];
+}
+
+/** A player's progress through one pack, by level id */
+export interface PackProgress {
+  completed: number[];
+  bestScores: Record<number, number>;
+  medals: Record<number, Medal>;
+}
+
+// ==================== CONSTANTS ====================
+
+export const LEVEL_PACK_FORMAT = 1;
+export const BUILT_IN_PACK_ID = 'classic';
+
+const PACK_URL_FRAGMENT = 'pack';
+const PACK_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+// ==================== CREATION ====================
+
+/**
+ * Bundle levels into a pack, filling in each level's par
+ */
+export const createLevelPack = (
+  manifest: Omit<LevelPackManifest, 'createdAt'> & { createdAt?: string },
+  levels: PackLevel[]
+): LevelPack => {
+  return {
+    format: LEVEL_PACK_FORMAT,
+    manifest: { ...manifest, createdAt: manifest.createdAt ?? new Date().toISOString() },
+    levels: levels.map(level => {
+      const par = getLevelPar(level);
+      return par ? { ...level, metadata: { ...level.metadata, par } } : level;
+    })
+  };
+};
+
+export const BUILT_IN_LEVEL_PACK: LevelPack = createLevelPack({
+  id: BUILT_IN_PACK_ID,
+  name: 'Classic',
+  version: '1.0.0',
+  author: 'Maze Master',
+  description: 'The original three levels',
+  createdAt: '2025-01-01T00:00:00.000Z'
+}, LEVELS);
+
+// ==================== VALIDATION ====================
+
+const isPosition = (value: unknown): value is Position => {
+  const pos = value as Partial<Position> | null;
+  return !!pos && Number.isInteger(pos.x) && Number.isInteger(pos.y);
+};
+
+const isLevelShape = (value: unknown): value is PackLevel => {
+  const level = value as Partial<Level> | null;
+  return !!level
+    && Number.isInteger(level.id)
+    && typeof level.name === 'string'
+    && typeof level.timeLimit === 'number' && Number.isFinite(level.timeLimit) && level.timeLimit > 0
+    && typeof level.collectibles === 'number' && Number.isInteger(level.collectibles) && level.collectibles >= 0
+    && Array.isArray(level.maze)
+    && level.maze.every(row => Array.isArray(row) && row.every(cell => Number.isInteger(cell)))
+    && Array.isArray(level.enemyPositions)
+    && level.enemyPositions.every(isPosition)
+    && isPosition(level.playerStart)
+    && isPosition(level.exitPosition)
+    && (level.enemySpeed === undefined || (Number.isFinite(level.enemySpeed) && level.enemySpeed > 0))
+    && (level.enemyKinds === undefined
+      || (Array.isArray(level.enemyKinds) && level.enemyKinds.every(kind => ENEMY_KINDS.includes(kind))));
+};
+
+/**
+ * Check a pack's manifest and that every level is well formed and can be
+ * cleared: mazes pass validateMaze, the exit position is the maze's exit cell
+ * and every collectible and the exit are reachable from the start
+ */
+export const validateLevelPack = (value: unknown): PackLoadResult => {
+  const candidate = value as Partial<LevelPack> | null;
+  const errors: string[] = [];
+
+  if (!candidate || typeof candidate !== 'object') {
+    return { pack: null, errors: ['Not a level pack'] };
+  }
+  if (candidate.format !== LEVEL_PACK_FORMAT) {
+    errors.push(`Unsupported pack format ${String(candidate.format)} (expected ${LEVEL_PACK_FORMAT})`);
+  }
+
+  const manifest = candidate.manifest;
+  if (!manifest || typeof manifest !== 'object') {
+    errors.push('Missing manifest');
+  } else {
+    if (typeof manifest.id !== 'string' || !PACK_ID_PATTERN.test(manifest.id)) {
+      errors.push('Manifest id must be lowercase letters, digits and dashes');
+    } else if (manifest.id === BUILT_IN_PACK_ID) {
+      errors.push(`"${BUILT_IN_PACK_ID}" is reserved for the built-in pack`);
+    }
+    if (typeof manifest.name !== 'string' || !manifest.name.trim()) {
+      errors.push('Manifest needs a name');
+    }
+    if (typeof manifest.version !== 'string') {
+      errors.push('Manifest needs a version');
+    }
+  }
+
+  if (!Array.isArray(candidate.levels) || candidate.levels.length === 0) {
+    errors.push('A pack needs at least one level');
+  } else {
+    const seenIds = new Set<number>();
+    candidate.levels.forEach((level: unknown, index) => {
+      if (!isLevelShape(level)) {
+        errors.push(`Level ${index + 1} is malformed`);
+        return;
+      }
+      if (seenIds.has(level.id)) {
+        errors.push(`Level id ${level.id} is used more than once`);
+      }
+      seenIds.add(level.id);
+      // Par and the solvability check route to exitPosition, but only the exit cell wins
+      if (level.maze[level.exitPosition.y]?.[level.exitPosition.x] !== CELL_TYPES.EXIT) {
+        errors.push(`${level.name || `Level ${level.id}`}: The exit position is not on the exit cell`);
+      }
+      validateLevel(level).errors.forEach(error => errors.push(`${level.name || `Level ${level.id}`}: ${error}`));
+    });
+  }
+
+  return { pack: errors.length === 0 ? candidate as LevelPack : null, errors };
+};
+
+// ==================== PROGRESS ====================
+
+/**
+ * Progress after clearing a level, keeping the best score and medal
+ */
+export const updatePackProgress = (
+  progress: PackProgress | undefined,
+  levelId: number,
+  score: number,
+  medal?: Medal
+): PackProgress => {
+  const current = progress ?? { completed: [], bestScores: {}, medals: {} };
+  return {
+    completed: current.completed.includes(levelId) ? current.completed : [...current.completed, levelId],
+    bestScores: {
+      ...current.bestScores,
+      [levelId]: Math.max(score, current.bestScores[levelId] ?? 0)
+    },
+    medals: medal && isBetterMedal(medal, current.medals[levelId])
+      ? { ...current.medals, [levelId]: medal }
+      : current.medals
+  };
+};
+
+// ==================== SHARING ====================
+
+/**
+ * Parse and validate a pack from its JSON file form
+ */
+export const loadLevelPack = (json: string): PackLoadResult => {
+  try {
+    return validateLevelPack(JSON.parse(json));
+  } catch (error) {
+    console.warn('Failed to parse level pack:', error);
+    return { pack: null, errors: ['The file is not valid JSON'] };
+  }
+};
+
+/**
+ * URL-safe share code for a pack; UTF-8 so names and authors survive
+ */
+export const encodeLevelPack = (pack: LevelPack): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(pack));
+  return btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+/**
+ * Read a share code back into a validated pack
+ */
+export const decodeLevelPack = (code: string): PackLoadResult => {
+  try {
+    const binary = atob(code.trim().replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    return loadLevelPack(new TextDecoder().decode(bytes));
+  } catch (error) {
+    console.warn('Failed to decode level pack:', error);
+    return { pack: null, errors: ['That does not look like a level pack code'] };
+  }
+};
+
+/**
+ * Link that installs the pack when opened; the pack rides in the URL
+ * fragment, which browsers never send to the server
+ */
+export const getLevelPackShareUrl = (pack: LevelPack): string => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = `${PACK_URL_FRAGMENT}=${encodeLevelPack(pack)}`;
+  return url.toString();
+};
+
+/**
+ * Share code from a pack link, or from a bare code
+ */
+export const getPackCodeFromText = (text: string): string => {
+  const trimmed = text.trim();
+  const marker = `#${PACK_URL_FRAGMENT}=`;
+  return trimmed.includes(marker) ? trimmed.slice(trimmed.indexOf(marker) + marker.length) : trimmed;
+};
+
+/**
+ * Pack passed in the page URL by a share link, if any
+ */
+export const getLevelPackFromUrl = (): PackLoadResult | null => {
+  const prefix = `#${PACK_URL_FRAGMENT}=`;
+  return window.location.hash.startsWith(prefix)
+    ? decodeLevelPack(window.location.hash.slice(prefix.length))
+    : null;
+};
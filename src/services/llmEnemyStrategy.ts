@@ -0,0 +1,70 @@
+// src/services/llmEnemyStrategy.ts - Enemies Steered by a Language Model
+import { findPathAStar, getNextStep } from '../utilities/collision';
+import type { SmartEnemy } from './enemyBehaviors';
+import { initSmartEnemy, tickSmartEnemies, ENHANCED_STRATEGY } from './enhancedEnemyStrategy';
+import type { EnemyPlan, EnemyStrategy } from './enemyController';
+
+// ==================== TYPES ====================
+
+/**
+ * A smart enemy that takes orders. Models answer far slower than enemies
+ * move, so it follows its latest order a step per tick and acts on its own
+ * personality between orders.
+ */
+export interface GuidedEnemy extends SmartEnemy {
+  plan: EnemyPlan | null;
+}
+
+// ==================== CONSTANTS ====================
+
+/** Orders further away than this many steps are dropped */
+const PLAN_RANGE = 20;
+
+// ==================== STRATEGY ====================
+
+/**
+ * The enemy a step along its order, or null when it has none it can follow:
+ * no order, already there, or no way through
+ */
+const followPlan = (enemy: GuidedEnemy, maze: number[][]): GuidedEnemy | null => {
+  const { plan } = enemy;
+  if (!plan) return null;
+
+  const step = getNextStep(findPathAStar(enemy.position, plan.position, maze, { maxSteps: PLAN_RANGE }));
+  if (!step || (step.x === enemy.position.x && step.y === enemy.position.y)) return null;
+
+  const arrived = step.x === plan.position.x && step.y === plan.position.y;
+  return {
+    ...enemy,
+    position: step,
+    facing: { x: step.x - enemy.position.x, y: step.y - enemy.position.y },
+    plan: arrived ? null : plan,
+    activePath: ['plan', plan.reasoning ?? 'move']
+  };
+};
+
+export const LLM_STRATEGY: EnemyStrategy<GuidedEnemy> = {
+  init: (enemy, index, difficulty) => ({ ...initSmartEnemy(enemy, index, difficulty), plan: null }),
+
+  tick: (enemies, world) => {
+    const guided = new Map<string, GuidedEnemy>();
+    enemies.forEach(enemy => {
+      const followed = followPlan(enemy, world.maze);
+      if (followed) guided.set(enemy.id, followed);
+    });
+
+    const onTheirOwn = new Map(tickSmartEnemies(
+      enemies.filter(enemy => !guided.has(enemy.id)).map(enemy => ({ ...enemy, plan: null })),
+      world
+    ).map(enemy => [enemy.id, enemy]));
+
+    return enemies.map(enemy => guided.get(enemy.id) ?? onTheirOwn.get(enemy.id) ?? enemy);
+  },
+
+  plan: (enemy, plan) => ({ ...enemy, plan }),
+
+  debugState: enemy => ({
+    ...ENHANCED_STRATEGY.debugState(enemy),
+    behavior: enemy.plan?.behavior ?? enemy.behavior
+  })
+};
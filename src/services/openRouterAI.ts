@@ -1,6 +1,7 @@
 // src/services/openRouterAI.ts - OpenRouter AI Integration for Enemy Behavior (Corrected)
-import { useState, useCallback } from 'react';
+import { useMemo } from 'react';
 import type { Position } from '../types/game.types';
+import { canStep } from '../utilities/collision';
 
 interface OpenRouterConfig {
   apiKey: string;
@@ -8,7 +9,7 @@ interface OpenRouterConfig {
   model: string;
 }
 
-interface GameContext {
+export interface GameContext {
   maze: number[][];
   playerPos: Position;
   playerHistory: Position[];
@@ -24,7 +25,7 @@ interface GameContext {
   difficulty: string;
 }
 
-interface AIResponse {
+export interface AIResponse {
   enemyMoves: Array<{
     enemyId: string;
     newPosition: Position;
@@ -332,10 +333,8 @@ Games Analyzed: ${recent.length}`;
     for (const dir of directions) {
       const newPos = { x: enemyPos.x + dir.x, y: enemyPos.y + dir.y };
       
-      // Check bounds and walls
-      if (newPos.y < 0 || newPos.y >= maze.length || 
-          newPos.x < 0 || newPos.x >= maze[0].length || 
-          maze[newPos.y][newPos.x] === 1) {
+      // Check bounds, walls, doors, gates and conveyors
+      if (!canStep(maze, enemyPos, newPos)) {
         continue;
       }
       
@@ -367,13 +366,14 @@ Games Analyzed: ${recent.length}`;
   }
 }
 
-// Hook for using OpenRouter AI in the game
+// Hook for using OpenRouter AI in the game; the service, and what it has
+// learned of the player, lasts as long as the key and model
 export const useOpenRouterAI = (apiKey: string, model: string = "openai/gpt-4") => {
-  const aiService = new OpenRouterAIService({
+  const aiService = useMemo(() => new OpenRouterAIService({
     apiKey,
     baseURL: "https://openrouter.ai/api/v1",
     model
-  });
+  }), [apiKey, model]);
 
   const getAIDecisions = async (gameContext: GameContext): Promise<AIResponse> => {
     return await aiService.getEnemyDecisions(gameContext);
@@ -389,80 +389,3 @@ export const useOpenRouterAI = (apiKey: string, model: string = "openai/gpt-4")
     isAvailable: !!apiKey
   };
 };
-
-// Integration with existing enemy AI hook
-export const useAIEnhancedEnemyAI = (
-  maze: number[][],
-  playerPos: Position,
-  gameState: string,
-  difficulty: string,
-  openRouterApiKey?: string
-) => {
-  const [enemies, setEnemies] = useState<any[]>([]);
-  const [playerHistory, setPlayerHistory] = useState<Position[]>([]);
-  const [aiInsights, setAIInsights] = useState<string[]>([]);
-  
-  const openRouterAI = useOpenRouterAI(openRouterApiKey || '', "openai/gpt-3.5-turbo");
-  
-  const updateEnemies = useCallback(async () => {
-    if (gameState !== 'playing' || enemies.length === 0) return;
-    
-    // Update player history
-    setPlayerHistory((prev: Position[]) => [...prev.slice(-20), playerPos]); // Keep last 20 moves
-    
-    if (openRouterAI.isAvailable && playerHistory.length > 5) {
-      try {
-        const gameContext: GameContext = {
-          maze,
-          playerPos,
-          playerHistory,
-          enemies: enemies.map((e: any) => ({
-            id: e.id,
-            pos: { x: e.x, y: e.y },
-            personality: e.personality.type,
-            state: e.currentState,
-            energy: e.energy
-          })),
-          collectibles: [], // Would need to extract from maze
-          gameTime: Date.now(),
-          difficulty
-        };
-        
-        const aiResponse = await openRouterAI.getAIDecisions(gameContext);
-        
-        // Apply AI decisions to enemies
-        setEnemies((prevEnemies: any[]) => 
-          prevEnemies.map((enemy: any) => {
-            const aiMove = aiResponse.enemyMoves.find(m => m.enemyId === enemy.id);
-            if (aiMove) {
-              return {
-                ...enemy,
-                x: aiMove.newPosition.x,
-                y: aiMove.newPosition.y,
-                currentState: aiMove.newState,
-                aiReasoning: aiMove.reasoning,
-                aiConfidence: aiMove.confidence
-              };
-            }
-            return enemy;
-          })
-        );
-        
-        setAIInsights(aiResponse.strategicInsights);
-        
-      } catch (error) {
-        console.warn('AI decision failed, using fallback:', error);
-        // Fall back to basic AI logic
-      }
-    }
-  }, [gameState, enemies, playerPos, playerHistory, maze, difficulty, openRouterAI]);
-  
-  return {
-    enemies,
-    updateEnemies,
-    setEnemies,
-    aiInsights,
-    playerHistory,
-    usageStats: openRouterAI.getUsageStats()
-  };
-};
\ No newline at end of file
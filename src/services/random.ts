@@ -0,0 +1,93 @@
+// src/services/random.ts - Seedable Pseudo-Random Number Generator
+
+/**
+ * Pick a fresh seed for a run that was not given one. This is the only place
+ * where the platform's non-deterministic randomness is used.
+ */
+export const randomSeed = (): number => {
+  return Math.floor(Math.random() * 0x100000000) | 0;
+};
+
+/**
+ * Hash a string (e.g. a date or share code) into a 32-bit seed
+ */
+export const seedFromString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash | 0;
+};
+
+/**
+ * Mulberry32 step; returns the next state and a float in [0, 1)
+ */
+export const nextRandom = (state: number): [number, number] => {
+  const nextState = (state + 0x6d2b79f5) | 0;
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [nextState, ((t ^ (t >>> 14)) >>> 0) / 4294967296];
+};
+
+/**
+ * Small, fast PRNG whose whole state is one 32-bit integer, so it can be
+ * stored in game state and resumed exactly.
+ */
+export class SeededRandom {
+  private current: number;
+
+  constructor(seed: number = randomSeed()) {
+    this.current = seed | 0;
+  }
+
+  /**
+   * Internal state; pass it back to the constructor to continue the sequence
+   */
+  get state(): number {
+    return this.current;
+  }
+
+  /**
+   * Float in [0, 1), a drop-in replacement for Math.random()
+   */
+  next(): number {
+    const [nextState, value] = nextRandom(this.current);
+    this.current = nextState;
+    return value;
+  }
+
+  /**
+   * Integer in [0, max)
+   */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Random element of a non-empty array
+   */
+  pick<T>(items: T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+
+  /**
+   * Fisher-Yates shuffle into a new array
+   */
+  shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  /**
+   * Bound `next` for APIs that take a plain `() => number`
+   */
+  asFunction(): () => number {
+    return () => this.next();
+  }
+}
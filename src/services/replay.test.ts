@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { EnemyKind } from '../types/game.types';
+import { LEVELS } from '../utilities/gameConstant';
+import { type EngineInput, type EngineState, GameEngine, setEnemyControl } from './gameEngine';
+import { createReplay, decodeReplay, encodeReplay, seekReplay } from './replay';
+
+const level = LEVELS[2];
+
+const RIGHT = { move: { dx: 1, dy: 0 } };
+const LEFT = { move: { dx: -1, dy: 0 } };
+const DOWN = { move: { dx: 0, dy: 1 } };
+const UP = { move: { dx: 0, dy: -1 } };
+
+/** A run with uneven frame times, idle stretches and an enemy hand-over */
+const playRun = (enemyKind: EnemyKind): EngineState => {
+  const frames: [EngineInput | null, number][] = [
+    [RIGHT, 170], [RIGHT, 230], [null, 640], [DOWN, 155], [LEFT, 410], [LEFT, 160],
+    [DOWN, 900], [DOWN, 180], [null, 1300], [DOWN, 250], [RIGHT, 330], [UP, 175], [null, 2100]
+  ];
+  let state = GameEngine.create(level, { seed: 31337, enemyKind });
+
+  frames.forEach(([input, dtMs], index) => {
+    state = GameEngine.step(state, input, dtMs);
+    if (index === 6) {
+      state = setEnemyControl(state, 'enhanced');
+    }
+  });
+  return state;
+};
+
+describe('seekReplay', () => {
+  it.each(['basic', 'enhanced'] as EnemyKind[])('reproduces the final state of a recorded run (%s enemies)', enemyKind => {
+    const played = playRun(enemyKind);
+    const replay = createReplay(played);
+
+    const { state } = seekReplay(replay, level, replay.durationMs);
+
+    expect(played.enemies.length).toBeGreaterThan(0);
+    expect(state).toEqual(played);
+  });
+
+  it('reaches the same state stepping forward in chunks or seeking back', () => {
+    const played = playRun('basic');
+    const replay = createReplay(played);
+
+    let cursor = seekReplay(replay, level, 0);
+    for (let atMs = 500; atMs < replay.durationMs; atMs += 500) {
+      cursor = seekReplay(replay, level, atMs, cursor);
+    }
+    cursor = seekReplay(replay, level, replay.durationMs, cursor);
+    expect(cursor.state).toEqual(played);
+
+    const back = seekReplay(replay, level, 1000, cursor);
+    expect(back.state).toEqual(seekReplay(replay, level, 1000).state);
+  });
+});
+
+describe('encodeReplay', () => {
+  it('round-trips through a share code', () => {
+    const replay = createReplay(playRun('basic'));
+
+    expect(decodeReplay(encodeReplay(replay))).toEqual(replay);
+  });
+
+  it('rejects a code that is not a replay', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(decodeReplay('not a replay')).toBeNull();
+    warn.mockRestore();
+  });
+});
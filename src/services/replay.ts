@@ -0,0 +1,193 @@
+// src/services/replay.ts - Replay Format, Sharing and Deterministic Playback
+import type { Difficulty, EnemyKind, Level } from '../types/game.types';
+import {
+  type EngineState,
+  type EngineStatus,
+  type RecordedInput,
+  createEngineState,
+  setEnemyControl,
+  step
+} from './gameEngine';
+import { ENEMY_KINDS } from './enemyController';
+
+// ==================== TYPES ====================
+
+export interface Replay {
+  version: number;
+  levelId: number;
+  seed: number;
+  difficulty: Difficulty;
+  /** How enemies the level doesn't assign a kind were driven when it started */
+  enemyKind: EnemyKind;
+  inputs: RecordedInput[];
+  durationMs: number;
+  result: EngineStatus;
+  score: number;
+  recordedAt: string;
+}
+
+/** A point in a replay: the engine state at `atMs` and the next input to apply */
+export interface ReplayCursor {
+  state: EngineState;
+  atMs: number;
+  nextInput: number;
+}
+
+// ==================== CONSTANTS ====================
+
+// Bumped whenever the engine changes how a run plays out; older replays would desync
+export const REPLAY_VERSION = 8;
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4] as const;
+
+const REPLAY_URL_PARAM = 'replay';
+
+// ==================== RECORDING ====================
+
+/**
+ * Package a level's recorded inputs so it can be played back, saved or shared
+ */
+export const createReplay = (state: EngineState): Replay => {
+  // Hand-overs only record the kind taken over, so the level's start tells the first one
+  const levelStart = state.events.find(event => event.type === 'level_start');
+
+  return {
+    version: REPLAY_VERSION,
+    levelId: state.level.id,
+    seed: state.seed,
+    difficulty: state.difficulty,
+    enemyKind: levelStart?.data?.enemyKind ?? state.enemyKind,
+    inputs: state.inputs,
+    durationMs: state.elapsedMs,
+    result: state.status,
+    score: state.score,
+    recordedAt: new Date().toISOString()
+  };
+};
+
+/**
+ * Whether `candidate` should replace `current` as a level's best run:
+ * wins beat losses, then the faster win is better
+ */
+export const isBetterReplay = (candidate: Replay, current?: Replay | null): boolean => {
+  if (!current) return true;
+  if ((candidate.result === 'won') !== (current.result === 'won')) {
+    return candidate.result === 'won';
+  }
+  return candidate.durationMs < current.durationMs;
+};
+
+// ==================== PLAYBACK ====================
+
+/**
+ * Cursor at the very start of a replay
+ */
+export const startReplay = (replay: Replay, level: Level): ReplayCursor => {
+  return {
+    state: createEngineState(level, {
+      difficulty: replay.difficulty,
+      seed: replay.seed,
+      enemyKind: replay.enemyKind
+    }),
+    atMs: 0,
+    nextInput: 0
+  };
+};
+
+/**
+ * Move a replay to `atMs`. Going forward continues from `from`; going back
+ * re-simulates from the start, which is cheap for a single level.
+ */
+export const seekReplay = (
+  replay: Replay,
+  level: Level,
+  atMs: number,
+  from?: ReplayCursor
+): ReplayCursor => {
+  const targetMs = Math.max(0, Math.min(atMs, replay.durationMs));
+  const start = from && from.atMs <= targetMs ? from : startReplay(replay, level);
+  let { state, nextInput } = start;
+
+  while (nextInput < replay.inputs.length && replay.inputs[nextInput].at <= targetMs) {
+    const { at, enemyKind, ...input } = replay.inputs[nextInput];
+    state = step(state, null, at - state.elapsedMs);
+    state = enemyKind === undefined
+      ? step(state, input, 0)
+      : setEnemyControl(state, enemyKind);
+    nextInput++;
+  }
+
+  return {
+    state: step(state, null, targetMs - state.elapsedMs),
+    atMs: targetMs,
+    nextInput
+  };
+};
+
+// ==================== SHARING ====================
+
+const isReplay = (value: unknown): value is Replay => {
+  const replay = value as Partial<Replay> | null;
+  return !!replay
+    && replay.version === REPLAY_VERSION
+    && Number.isInteger(replay.levelId)
+    && Number.isInteger(replay.seed)
+    && ['easy', 'normal', 'hard'].includes(replay.difficulty as string)
+    && ENEMY_KINDS.includes(replay.enemyKind as EnemyKind)
+    && typeof replay.durationMs === 'number'
+    && Array.isArray(replay.inputs)
+    && replay.inputs.every(input => typeof input?.at === 'number');
+};
+
+/**
+ * Parse a replay from its JSON file form, or null if it is not a valid replay
+ */
+export const parseReplay = (json: string): Replay | null => {
+  try {
+    const value = JSON.parse(json);
+    return isReplay(value) ? value : null;
+  } catch (error) {
+    console.warn('Failed to parse replay:', error);
+    return null;
+  }
+};
+
+/**
+ * URL-safe share code for a replay
+ */
+export const encodeReplay = (replay: Replay): string => {
+  return btoa(JSON.stringify(replay))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+/**
+ * Read a share code back into a replay, or null if it is not a valid code
+ */
+export const decodeReplay = (code: string): Replay | null => {
+  try {
+    return parseReplay(atob(code.trim().replace(/-/g, '+').replace(/_/g, '/')));
+  } catch (error) {
+    console.warn('Failed to decode replay:', error);
+    return null;
+  }
+};
+
+/**
+ * Link that opens the game straight into the replay
+ */
+export const getReplayShareUrl = (replay: Replay): string => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(REPLAY_URL_PARAM, encodeReplay(replay));
+  return url.toString();
+};
+
+/**
+ * Replay passed in the page URL by a share link, if any
+ */
+export const getReplayFromUrl = (): Replay | null => {
+  const code = new URLSearchParams(window.location.search).get(REPLAY_URL_PARAM);
+  return code ? decodeReplay(code) : null;
+};
@@ -0,0 +1,367 @@
+// src/services/spriteAtlas.ts - Pre-drawn Cell Sprites for the Canvas Renderer
+import type { Theme } from '../types/game.types';
+import { type ChannelKind, CHANNEL_KINDS, CHANNEL_NAMES, CHANNEL_COLORS } from '../utilities/hazards';
+
+// ==================== TYPES ====================
+
+export type SpriteName =
+  | 'path'
+  | 'wall'
+  | 'exit'
+  | 'collectible'
+  | 'checkpoint'
+  | 'speedBoost'
+  | 'freeze'
+  | 'shield'
+  | 'timeBonus'
+  | 'reveal'
+  | 'conveyorUp'
+  | 'conveyorDown'
+  | 'conveyorLeft'
+  | 'conveyorRight'
+  | 'crumbling'
+  | ChannelSprite
+  | 'route'
+  | 'player'
+  | 'enemy'
+  | 'fog';
+
+/** Keys, doors, switches, gates and teleporters, one sprite per channel */
+export type ChannelSprite = `${ChannelKind}-${number}`;
+
+export interface SpriteAtlas {
+  canvas: HTMLCanvasElement;
+  /** CSS pixels per cell */
+  cellSize: number;
+  /** Device pixels per CSS pixel the atlas was drawn at */
+  scale: number;
+  palette: ThemePalette;
+}
+
+export interface ThemePalette {
+  wall: string;
+  wallEdge: string;
+  path: string;
+  pathEdge: string;
+  exit: string;
+  collectible: string;
+  checkpoint: string;
+  speedBoost: string;
+  freeze: string;
+  shield: string;
+  timeBonus: string;
+  /** Also the color of the route the reveal power-up shows */
+  reveal: string;
+  conveyor: string;
+  crumbling: string;
+  player: string;
+  enemy: string;
+  grid: string;
+  fog: string;
+}
+
+// ==================== CONSTANTS ====================
+
+/** The renderer's Tailwind theme colors as plain values a canvas can use */
+export const THEME_PALETTES: Record<Theme, ThemePalette> = {
+  default: {
+    wall: '#1f2937',
+    wallEdge: '#374151',
+    path: '#f3f4f6',
+    pathEdge: '#e5e7eb',
+    exit: '#4ade80',
+    collectible: '#fde047',
+    checkpoint: '#bae6fd',
+    speedBoost: '#fcd34d',
+    freeze: '#a5f3fc',
+    shield: '#a5b4fc',
+    timeBonus: '#5eead4',
+    reveal: '#f0abfc',
+    conveyor: '#cbd5e1',
+    crumbling: '#fde68a',
+    player: '#3b82f6',
+    enemy: '#ef4444',
+    grid: '#d1d5db',
+    fog: '#030712'
+  },
+  neon: {
+    wall: '#581c87',
+    wallEdge: '#7e22ce',
+    path: '#111827',
+    pathEdge: '#155e75',
+    exit: '#4ade80',
+    collectible: '#facc15',
+    checkpoint: '#0c4a6e',
+    speedBoost: '#fbbf24',
+    freeze: '#a5f3fc',
+    shield: '#818cf8',
+    timeBonus: '#2dd4bf',
+    reveal: '#d946ef',
+    conveyor: '#1f2937',
+    crumbling: '#7c2d12',
+    player: '#22d3ee',
+    enemy: '#ef4444',
+    grid: '#0e7490',
+    fog: '#000000'
+  },
+  forest: {
+    wall: '#14532d',
+    wallEdge: '#166534',
+    path: '#f0fdf4',
+    pathEdge: '#dcfce7',
+    exit: '#fbbf24',
+    collectible: '#fb923c',
+    checkpoint: '#d9f99d',
+    speedBoost: '#fde047',
+    freeze: '#bae6fd',
+    shield: '#a8a29e',
+    timeBonus: '#6ee7b7',
+    reveal: '#d8b4fe',
+    conveyor: '#d6d3d1',
+    crumbling: '#fcd34d',
+    player: '#2563eb',
+    enemy: '#b91c1c',
+    grid: '#bbf7d0',
+    fog: '#052e16'
+  },
+  space: {
+    wall: '#1e1b4b',
+    wallEdge: '#3730a3',
+    path: '#0f172a',
+    pathEdge: '#1e293b',
+    exit: '#34d399',
+    collectible: '#facc15',
+    checkpoint: '#075985',
+    speedBoost: '#fbbf24',
+    freeze: '#67e8f9',
+    shield: '#a78bfa',
+    timeBonus: '#2dd4bf',
+    reveal: '#f472b6',
+    conveyor: '#334155',
+    crumbling: '#7c2d12',
+    player: '#60a5fa',
+    enemy: '#dc2626',
+    grid: '#334155',
+    fog: '#000000'
+  }
+};
+
+/** Column of each sprite in the atlas strip */
+const SPRITE_ORDER: SpriteName[] = [
+  'path', 'wall', 'exit', 'collectible', 'checkpoint',
+  'speedBoost', 'freeze', 'shield', 'timeBonus', 'reveal',
+  'conveyorUp', 'conveyorDown', 'conveyorLeft', 'conveyorRight', 'crumbling',
+  ...CHANNEL_KINDS.flatMap(kind => CHANNEL_NAMES.map((_, channel) => `${kind}-${channel}` as const)),
+  'route', 'player', 'enemy', 'fog'
+];
+
+const SPRITE_ICONS: Partial<Record<SpriteName, string>> = {
+  exit: '🚪',
+  collectible: '⭐',
+  checkpoint: '🚩',
+  speedBoost: '⚡',
+  freeze: '❄️',
+  shield: '🛡️',
+  timeBonus: '⏳',
+  reveal: '👁️',
+  conveyorUp: '⬆',
+  conveyorDown: '⬇',
+  conveyorLeft: '⬅',
+  conveyorRight: '➡',
+  player: '😊',
+  enemy: '👾'
+};
+
+const CHANNEL_ICONS: Partial<Record<ChannelKind, string>> = {
+  key: '🔑',
+  door: '🔒',
+  switch: '🔘',
+  teleporter: '🌀'
+};
+
+// ==================== DRAWING ====================
+
+/**
+ * Sprite for a channeled cell
+ */
+export const getChannelSprite = (kind: ChannelKind, channel: number): ChannelSprite => {
+  return `${kind}-${channel}`;
+};
+
+const parseChannelSprite = (name: SpriteName): { kind: ChannelKind; channel: number } | null => {
+  const [kind, channel] = name.split('-');
+  return channel === undefined ? null : { kind: kind as ChannelKind, channel: Number(channel) };
+};
+
+const drawSprite = (
+  ctx: CanvasRenderingContext2D,
+  name: SpriteName,
+  size: number,
+  palette: ThemePalette,
+  showGrid: boolean
+) => {
+  const center = size / 2;
+
+  const fillCell = (fill: string, edge: string) => {
+    ctx.fillStyle = fill;
+    ctx.fillRect(0, 0, size, size);
+    ctx.strokeStyle = showGrid ? palette.grid : edge;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(0.5, 0.5, size - 1, size - 1);
+  };
+
+  const fillCircle = (fill: string, radius = 0.45) => {
+    ctx.fillStyle = fill;
+    ctx.beginPath();
+    ctx.arc(center, center, size * radius, 0, Math.PI * 2);
+    ctx.fill();
+  };
+
+  // Doors and closed gates are solid in their channel's color, the rest marked with it
+  const channelCell = parseChannelSprite(name);
+  const drawChannelSprite = () => {
+    if (!channelCell) return;
+    const color = CHANNEL_COLORS[channelCell.channel];
+    switch (channelCell.kind) {
+      case 'door':
+      case 'gateClosed':
+        fillCell(color, palette.wallEdge);
+        break;
+      case 'gateOpen':
+        fillCell(palette.path, palette.pathEdge);
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 2;
+        ctx.setLineDash([size / 8, size / 8]);
+        ctx.strokeRect(size * 0.1, size * 0.1, size * 0.8, size * 0.8);
+        ctx.setLineDash([]);
+        break;
+      default:
+        fillCell(palette.path, palette.pathEdge);
+        fillCircle(color, 0.4);
+    }
+  };
+
+  switch (name) {
+    case 'path':
+      fillCell(palette.path, palette.pathEdge);
+      break;
+    case 'wall':
+      fillCell(palette.wall, palette.wallEdge);
+      break;
+    case 'fog':
+      ctx.fillStyle = palette.fog;
+      ctx.fillRect(0, 0, size, size);
+      break;
+    case 'exit':
+      fillCell(palette.exit, palette.exit);
+      break;
+    case 'collectible':
+      fillCell(palette.path, palette.pathEdge);
+      fillCircle(palette.collectible);
+      break;
+    case 'checkpoint':
+      fillCell(palette.checkpoint, palette.pathEdge);
+      break;
+    case 'speedBoost':
+    case 'freeze':
+    case 'shield':
+    case 'timeBonus':
+    case 'reveal':
+      fillCell(palette.path, palette.pathEdge);
+      fillCircle(palette[name]);
+      break;
+    case 'conveyorUp':
+    case 'conveyorDown':
+    case 'conveyorLeft':
+    case 'conveyorRight':
+      fillCell(palette.conveyor, palette.pathEdge);
+      break;
+    case 'crumbling':
+      fillCell(palette.crumbling, palette.crumbling);
+      ctx.strokeStyle = palette.wallEdge;
+      ctx.setLineDash([size / 8, size / 8]);
+      ctx.strokeRect(size * 0.15, size * 0.15, size * 0.7, size * 0.7);
+      ctx.setLineDash([]);
+      break;
+    // Entities and overlays have no background of their own; they're drawn over the cell
+    case 'route':
+      fillCircle(palette.reveal, 0.2);
+      break;
+    case 'player':
+      fillCircle(palette.player);
+      break;
+    case 'enemy':
+      fillCircle(palette.enemy);
+      break;
+    default:
+      drawChannelSprite();
+  }
+
+  const icon = SPRITE_ICONS[name] ?? (channelCell && CHANNEL_ICONS[channelCell.kind]);
+  if (icon) {
+    ctx.font = `${Math.floor(size * 0.6)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(icon, center, center + size * 0.04);
+  }
+};
+
+// ==================== ATLAS ====================
+
+const atlasCache = new Map<string, SpriteAtlas>();
+
+/**
+ * The sprite strip for a theme and cell size, drawn once and cached. Sprites
+ * are drawn at device resolution so they stay sharp on high-DPI screens.
+ */
+export const getSpriteAtlas = (
+  theme: Theme,
+  cellSize: number,
+  scale: number,
+  showGrid: boolean
+): SpriteAtlas => {
+  const key = `${theme}:${cellSize}:${scale}:${showGrid}`;
+  const cached = atlasCache.get(key);
+  if (cached) return cached;
+
+  const palette = THEME_PALETTES[theme] ?? THEME_PALETTES.default;
+  const size = Math.round(cellSize * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = size * SPRITE_ORDER.length;
+  canvas.height = size;
+
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    SPRITE_ORDER.forEach((name, index) => {
+      ctx.save();
+      ctx.translate(index * size, 0);
+      ctx.beginPath();
+      ctx.rect(0, 0, size, size);
+      ctx.clip();
+      drawSprite(ctx, name, size, palette, showGrid);
+      ctx.restore();
+    });
+  }
+
+  const atlas = { canvas, cellSize, scale, palette };
+  atlasCache.set(key, atlas);
+  return atlas;
+};
+
+/**
+ * Draw a sprite with its top-left corner at (x, y), in CSS pixels
+ */
+export const drawAtlasSprite = (
+  ctx: CanvasRenderingContext2D,
+  atlas: SpriteAtlas,
+  name: SpriteName,
+  x: number,
+  y: number
+) => {
+  const size = Math.round(atlas.cellSize * atlas.scale);
+  ctx.drawImage(
+    atlas.canvas,
+    SPRITE_ORDER.indexOf(name) * size, 0, size, size,
+    x, y, atlas.cellSize, atlas.cellSize
+  );
+};
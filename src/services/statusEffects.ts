@@ -0,0 +1,77 @@
+// src/services/statusEffects.ts - Power-up Cells and the Timed Effects They Give
+import { type PowerUpType, CELL_TYPES } from '../types/game.types';
+import { GAME_CONFIG } from '../utilities/gameConstant';
+
+// ==================== TYPES ====================
+
+/** Every power-up but the time bonus, which takes effect at once */
+export type EffectType = Exclude<PowerUpType, 'time'>;
+
+export interface StatusEffect {
+  type: EffectType;
+  /** Milliseconds left; null for effects that last until used up */
+  remainingMs: number | null;
+}
+
+// ==================== CONSTANTS ====================
+
+/** Cell type of each power-up, for generators and the editor */
+export const POWER_UP_CELLS: Record<PowerUpType, number> = {
+  speed: CELL_TYPES.SPEED_BOOST,
+  freeze: CELL_TYPES.FREEZE,
+  shield: CELL_TYPES.SHIELD,
+  time: CELL_TYPES.TIME_BONUS,
+  reveal: CELL_TYPES.REVEAL
+};
+
+export const POWER_UP_TYPES = Object.keys(POWER_UP_CELLS) as PowerUpType[];
+
+// ==================== POWER-UPS ====================
+
+/**
+ * The power-up lying on a cell, if any
+ */
+export const getPowerUpType = (cell: number): PowerUpType | null => {
+  return POWER_UP_TYPES.find(type => POWER_UP_CELLS[type] === cell) ?? null;
+};
+
+// ==================== EFFECTS ====================
+
+/**
+ * Whether an effect is active
+ */
+export const hasEffect = (effects: StatusEffect[], type: EffectType): boolean => {
+  return effects.some(effect => effect.type === type);
+};
+
+/**
+ * Start an effect; picking up one that is already active restarts its timer
+ */
+export const addEffect = (effects: StatusEffect[], type: EffectType): StatusEffect[] => {
+  const remainingMs = type === 'shield' ? null : GAME_CONFIG.POWER_UPS.DURATION_MS[type];
+  return [...removeEffect(effects, type), { type, remainingMs }];
+};
+
+/**
+ * End an effect early, e.g. a shield taking a hit
+ */
+export const removeEffect = (effects: StatusEffect[], type: EffectType): StatusEffect[] => {
+  return effects.filter(effect => effect.type !== type);
+};
+
+/**
+ * Run the effect timers down by dtMs, dropping those that run out
+ */
+export const tickEffects = (effects: StatusEffect[], dtMs: number): StatusEffect[] => {
+  if (effects.length === 0) return effects;
+  return effects
+    .map(effect => effect.remainingMs === null ? effect : { ...effect, remainingMs: effect.remainingMs - dtMs })
+    .filter(effect => effect.remainingMs === null || effect.remainingMs > 0);
+};
+
+/**
+ * Milliseconds until the next timed effect runs out; Infinity when none will
+ */
+export const getNextExpiry = (effects: StatusEffect[]): number => {
+  return Math.min(Infinity, ...effects.map(effect => effect.remainingMs ?? Infinity));
+};
@@ -9,6 +9,8 @@ export type GameState = 'menu' | 'playing' | 'paused' | 'won' | 'lost' | 'comple
 export type Difficulty = 'easy' | 'normal' | 'hard';
 export type Theme = 'default' | 'neon' | 'forest' | 'space';
 export type ControlStyle = 'compact' | 'comfortable' | 'large';
+/** DOM grid of cells, or a single canvas for large mazes */
+export type RendererType = 'dom' | 'canvas';
 
 export interface Level {
   id: number;
@@ -20,6 +22,10 @@ export interface Level {
   enemyPositions: Position[];
   playerStart: Position;
   exitPosition: Position;
+  /** Multiplier on how often enemies move; 2 moves them twice as often */
+  enemySpeed?: number;
+  /** How each spawn's enemy is controlled, by index; the rest follow the game's setting */
+  enemyKinds?: EnemyKind[];
 }
 
 export interface GameSettings {
@@ -29,15 +35,66 @@ export interface GameSettings {
   theme: Theme;
   controlStyle: ControlStyle;
   animations: boolean;
+  /** Only cells in the player's sight, or seen before, are shown */
+  fogOfWar: boolean;
+  /** How far the player sees in fog of war, before the difficulty modifier */
+  torchRadius: number;
+  renderer: RendererType;
 }
 
+export type Medal = 'bronze' | 'silver' | 'gold';
+
 export interface HighScore {
   level: number;
+  /** Level pack the level belongs to */
+  pack?: string;
   score: number;
   time: number;
   stars: number;
   date: string;
   perfect: boolean;
+  medal?: Medal;
+  moves?: number;
+}
+
+/** A finished endless run; `levels` counts the levels cleared */
+export interface EndlessRun {
+  levels: number;
+  score: number;
+  seed: number;
+  difficulty: Difficulty;
+  date: string;
+}
+
+/** The first attempt at a day's daily challenge; later attempts don't count */
+export interface DailyResult {
+  /** UTC day, YYYY-MM-DD */
+  date: string;
+  won: boolean;
+  score: number;
+  timeMs: number;
+  moves: number;
+  stars: number;
+  collectibles: number;
+  medal?: Medal;
+  /** Stand-in saved as the counted run starts; the run's result replaces it, so one left over was cut short */
+  unfinished?: boolean;
+}
+
+/** A timed player position; `t` is milliseconds since level start */
+export interface GhostFrame {
+  t: number;
+  x: number;
+  y: number;
+}
+
+/** Path and pickup splits of a level's fastest clear, raced against as a ghost */
+export interface GhostRun {
+  level: number;
+  time: number;
+  path: GhostFrame[];
+  splits: number[];
+  date: string;
 }
 
 export interface PlayerStats {
@@ -86,22 +143,52 @@ export const CELL_TYPES = {
   PLAYER: 2,
   EXIT: 3,
   COLLECTIBLE: 4,
-  ENEMY: 5
+  ENEMY: 5,
+  CHECKPOINT: 6,
+  SPEED_BOOST: 7,
+  FREEZE: 8,
+  SHIELD: 9,
+  TIME_BONUS: 10,
+  REVEAL: 11,
+  CONVEYOR_UP: 12,
+  CONVEYOR_DOWN: 13,
+  CONVEYOR_LEFT: 14,
+  CONVEYOR_RIGHT: 15,
+  CRUMBLING: 16,
+  // Channeled cells take one value per channel (color), from base to base + 3
+  KEY: 20,
+  DOOR: 24,
+  SWITCH: 28,
+  GATE_CLOSED: 32,
+  GATE_OPEN: 36,
+  TELEPORTER: 40
 } as const;
 
 export type CellType = typeof CELL_TYPES[keyof typeof CELL_TYPES];
 
+export type PowerUpType = 'speed' | 'freeze' | 'shield' | 'time' | 'reveal';
+
 export interface GameEvent {
-  type: 'move' | 'collect' | 'enemy_hit' | 'level_complete' | 'game_over' | 'level_start' | 'game_start' | 'pause' | 'resume' | 'level_reset' | 'return_to_menu' | 'level_select' | 'play_again';
+  type: 'move' | 'collect' | 'enemy_hit' | 'respawn' | 'checkpoint' | 'power_up' | 'shield_break' | 'key_pickup' | 'door_open' | 'switch' | 'teleport' | 'crumble' | 'level_complete' | 'game_over' | 'level_start' | 'game_start' | 'pause' | 'resume' | 'level_reset' | 'return_to_menu' | 'level_select' | 'play_again';
   timestamp: number;
+  /** Seed of the run the event belongs to, when it came from a seeded run */
+  seed?: number;
   data?: any;
 }
 
+/** Which strategy drives an enemy (see `services/enemyController`) */
+export type EnemyKind = 'basic' | 'enhanced' | 'llm';
+
+/** What every enemy has, whatever drives it; strategies add their own state */
 export interface Enemy {
   id: string;
+  kind: EnemyKind;
   position: Position;
-  lastMove: number;
-  behavior: 'patrol' | 'chase' | 'guard';
+  /** Last few cells it moved from, oldest first */
+  trail: Position[];
+  /** What it's doing, in its strategy's own words, e.g. 'patrol' or 'chasing' */
+  behavior: string;
+  /** Moves per level move interval, as its strategy sets it; 2 moves twice as often */
   speed: number;
 }
 
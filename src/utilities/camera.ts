@@ -0,0 +1,80 @@
+// src/utilities/camera.ts - Camera Follow and Zoom for Large Mazes
+import type { Position } from '../types/game.types';
+import { GAME_CONFIG } from './gameConstant';
+
+// ==================== TYPES ====================
+
+/** Center of the view, in cells */
+export type Camera = Position;
+
+/** Size of the view, in cells */
+export interface CameraView {
+  width: number;
+  height: number;
+}
+
+// ==================== FOLLOW ====================
+
+/**
+ * Where the camera should head for the player at `target`: nowhere while they
+ * stay inside the dead zone, otherwise just far enough to put them on its edge
+ */
+export const getCameraGoal = (
+  camera: Camera,
+  target: Position,
+  view: CameraView,
+  deadZone: number = GAME_CONFIG.CAMERA.DEAD_ZONE
+): Camera => {
+  const follow = (center: number, pos: number, size: number) => {
+    const slack = (size * deadZone) / 2;
+    if (pos < center - slack) return pos + slack;
+    if (pos > center + slack) return pos - slack;
+    return center;
+  };
+
+  // Aim at the middle of the player's cell
+  return {
+    x: follow(camera.x, target.x + 0.5, view.width),
+    y: follow(camera.y, target.y + 0.5, view.height)
+  };
+};
+
+/**
+ * Keep the view inside the maze; a maze smaller than the view is centered
+ */
+export const clampCamera = (camera: Camera, view: CameraView, mazeWidth: number, mazeHeight: number): Camera => {
+  const clampAxis = (center: number, size: number, mazeSize: number) => {
+    if (mazeSize <= size) return mazeSize / 2;
+    return Math.min(Math.max(center, size / 2), mazeSize - size / 2);
+  };
+
+  return {
+    x: clampAxis(camera.x, view.width, mazeWidth),
+    y: clampAxis(camera.y, view.height, mazeHeight)
+  };
+};
+
+/**
+ * Ease the camera towards its goal; frame-rate independent
+ */
+export const stepCamera = (
+  camera: Camera,
+  goal: Camera,
+  dtMs: number,
+  smoothingMs: number = GAME_CONFIG.CAMERA.SMOOTHING_MS
+): Camera => {
+  const t = smoothingMs > 0 ? 1 - Math.exp(-dtMs / smoothingMs) : 1;
+  return {
+    x: camera.x + (goal.x - camera.x) * t,
+    y: camera.y + (goal.y - camera.y) * t
+  };
+};
+
+// ==================== ZOOM ====================
+
+/**
+ * Cell size within the configured zoom limits, in whole pixels
+ */
+export const clampCellSize = (cellSize: number): number => {
+  return Math.round(Math.min(Math.max(cellSize, GAME_CONFIG.MIN_CELL_SIZE), GAME_CONFIG.MAX_CELL_SIZE));
+};
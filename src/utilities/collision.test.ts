@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { type Position, CELL_TYPES } from '../types/game.types';
+import { SeededRandom } from '../services/random';
+import { addProximityCost, createCostMap, findPathAStar, findPathDijkstra } from './collision';
+import { addLoops, generateMaze } from './mazeUtilities';
+import { breadthFirstSearch } from './mazeSolver';
+
+const { WALL: W, PATH: P } = CELL_TYPES;
+
+/** What a path costs under `costMap`: 1 per step plus the cost of each cell entered */
+const pathCost = (path: Position[], costMap?: number[][]): number => {
+  return path.slice(1).reduce((total, pos) => total + 1 + (costMap?.[pos.y][pos.x] ?? 0), 0);
+};
+
+const expectWalkable = (maze: number[][], path: Position[]) => {
+  path.slice(1).forEach((pos, i) => {
+    expect(Math.abs(pos.x - path[i].x) + Math.abs(pos.y - path[i].y)).toBe(1);
+    expect(maze[pos.y][pos.x]).not.toBe(W);
+  });
+};
+
+describe('findPathAStar and findPathDijkstra', () => {
+  const mazes = [3, 17, 256].map(seed => ({ seed, maze: addLoops(generateMaze(21, 21, 0, seed), 20, seed) }));
+  const start = { x: 1, y: 1 };
+  const goal = { x: 19, y: 19 };
+
+  it.each(mazes)('agree on the shortest path length (seed $seed)', ({ maze }) => {
+    const aStar = findPathAStar(start, goal, maze)!;
+    const dijkstra = findPathDijkstra(start, [goal], maze)!;
+    const steps = breadthFirstSearch(maze, start).distance.get(`${goal.x},${goal.y}`);
+
+    expect(aStar.length - 1).toBe(steps);
+    expect(dijkstra.length - 1).toBe(steps);
+    expectWalkable(maze, aStar);
+  });
+
+  it.each(mazes)('agree on path cost under a cost map (seed $seed)', ({ maze, seed }) => {
+    const rng = new SeededRandom(seed);
+    const enemies = [{ x: 9, y: 9 }, { x: 15, y: 5 }];
+    const costMap = addProximityCost(createCostMap(maze).map(row => row.map(() => rng.nextInt(4))), enemies, 4, 10);
+
+    const aStar = findPathAStar(start, goal, maze, { costMap })!;
+    const dijkstra = findPathDijkstra(start, [goal], maze, { costMap })!;
+
+    expect(aStar[aStar.length - 1]).toEqual(goal);
+    expect(pathCost(aStar, costMap)).toBeCloseTo(pathCost(dijkstra, costMap), 9);
+    expectWalkable(maze, aStar);
+  });
+
+  it('routes around a cheaper detour and never through impassable cells', () => {
+    const maze = [
+      [W, W, W, W, W],
+      [W, P, P, P, W],
+      [W, P, W, P, W],
+      [W, P, P, P, W],
+      [W, W, W, W, W]
+    ];
+    const costMap = createCostMap(maze);
+    costMap[1][2] = Infinity;
+
+    const path = findPathAStar({ x: 1, y: 1 }, { x: 3, y: 1 }, maze, { costMap });
+
+    expect(path).toEqual([
+      { x: 1, y: 1 }, { x: 1, y: 2 }, { x: 1, y: 3 }, { x: 2, y: 3 }, { x: 3, y: 3 }, { x: 3, y: 2 }, { x: 3, y: 1 }
+    ]);
+    expect(findPathDijkstra({ x: 1, y: 1 }, [{ x: 3, y: 1 }], maze, { costMap })).toHaveLength(path!.length);
+  });
+
+  it('lets Dijkstra pick the cheapest of several goals', () => {
+    const maze = generateMaze(15, 15, 0, 5);
+    const goals = [{ x: 13, y: 13 }, { x: 1, y: 3 }];
+    const path = findPathDijkstra(start, goals, maze)!;
+    const nearest = Math.min(...goals.map(goal => findPathAStar(start, goal, maze)!.length));
+
+    expect(path).toHaveLength(nearest);
+  });
+});
@@ -1,5 +1,6 @@
 // src/utilities/collision.ts - Collision Detection Utilities
 import { type Position, CELL_TYPES, type CollisionResult } from '../types/game.types';
+import { isBlockingCell, isStepAllowed } from './hazards';
 
 /**
  * Check if a position is within maze bounds
@@ -9,20 +10,33 @@ export const isInBounds = (x: number, y: number, maze: number[][]): boolean => {
 };
 
 /**
- * Check if a position is a valid move (not a wall)
+ * Check if a position is a valid move (not a wall, door or closed gate)
  */
 export const isValidPosition = (x: number, y: number, maze: number[][]): boolean => {
   if (!isInBounds(x, y, maze)) return false;
-  return maze[y][x] !== CELL_TYPES.WALL;
+  return !isBlockingCell(maze[y][x]);
+};
+
+/**
+ * Check if a single step between neighboring cells is allowed: the target is
+ * open and no conveyor points the other way
+ */
+export const canStep = (maze: number[][], from: Position, to: Position): boolean => {
+  return isValidPosition(to.x, to.y, maze) && isStepAllowed(maze, from, to);
+};
+
+/**
+ * Index of the first enemy on the player's cell, or -1
+ */
+export const findEnemyCollision = (playerPos: Position, enemies: Position[]): number => {
+  return enemies.findIndex(enemy => enemy.x === playerPos.x && enemy.y === playerPos.y);
 };
 
 /**
  * Check collision between player and enemies
  */
 export const checkEnemyCollision = (playerPos: Position, enemies: Position[]): boolean => {
-  return enemies.some(enemy => 
-    enemy.x === playerPos.x && enemy.y === playerPos.y
-  );
+  return findEnemyCollision(playerPos, enemies) >= 0;
 };
 
 /**
@@ -87,7 +101,7 @@ export const checkCollision = (
 };
 
 /**
- * Get valid adjacent positions
+ * Get valid adjacent positions, leaving out steps a conveyor won't allow
  */
 export const getAdjacentPositions = (pos: Position, maze: number[][]): Position[] => {
   const directions = [
@@ -99,7 +113,7 @@ export const getAdjacentPositions = (pos: Position, maze: number[][]): Position[
 
   return directions
     .map(dir => ({ x: pos.x + dir.x, y: pos.y + dir.y }))
-    .filter(newPos => isValidPosition(newPos.x, newPos.y, maze));
+    .filter(newPos => canStep(maze, pos, newPos));
 };
 
 /**
@@ -167,49 +181,233 @@ export const findCellPositions = (maze: number[][], cellType: number): Position[
 };
 
 /**
- * Simple pathfinding using BFS
+ * Extra cost of entering each cell, on top of 1 per step: a grid indexed
+ * [y][x] or a function of the cell. Negative costs count as 0 and Infinity
+ * makes a cell impassable.
+ */
+export type CostMap = number[][] | ((pos: Position) => number);
+
+export interface PathOptions {
+  /** Extra per-cell costs; without one every step costs 1 */
+  costMap?: CostMap;
+  /** Give up on routes longer than this many steps */
+  maxSteps?: number;
+}
+
+/**
+ * Min-heap of cell indices keyed by priority, for the open set
+ */
+class BinaryHeap {
+  private items: number[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: number, priority: number): void {
+    this.items.push(item);
+    this.priorities.push(priority);
+    let i = this.items.length - 1;
+
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= priority) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number | undefined {
+    if (this.items.length === 0) return undefined;
+
+    const top = this.items[0];
+    const lastItem = this.items.pop()!;
+    const lastPriority = this.priorities.pop()!;
+
+    if (this.items.length > 0) {
+      this.items[0] = lastItem;
+      this.priorities[0] = lastPriority;
+      let i = 0;
+
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+        if (right < this.items.length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
+
+const getCellCost = (costMap: CostMap | undefined, pos: Position): number => {
+  if (!costMap) return 0;
+  const cost = typeof costMap === 'function' ? costMap(pos) : costMap[pos.y]?.[pos.x] ?? 0;
+  return Number.isNaN(cost) ? 0 : Math.max(0, cost);
+};
+
+/**
+ * Best-first search over cell indices with parent pointers. With a zero
+ * heuristic this is Dijkstra; with an admissible one it is A*.
+ */
+const searchPath = (
+  start: Position,
+  goals: Position[],
+  maze: number[][],
+  heuristic: (pos: Position) => number,
+  options: PathOptions
+): Position[] | null => {
+  const width = maze[0]?.length ?? 0;
+  const { costMap, maxSteps = Infinity } = options;
+
+  if (!isValidPosition(start.x, start.y, maze)) return null;
+  const goalIndices = new Set(
+    goals.filter(goal => isValidPosition(goal.x, goal.y, maze)).map(goal => goal.y * width + goal.x)
+  );
+  if (goalIndices.size === 0) return null;
+
+  const startIndex = start.y * width + start.x;
+  const cost = new Map<number, number>([[startIndex, 0]]);
+  const steps = new Map<number, number>([[startIndex, 0]]);
+  const parent = new Map<number, number>();
+  const closed = new Set<number>();
+  const open = new BinaryHeap();
+  open.push(startIndex, heuristic(start));
+
+  while (open.size > 0) {
+    const index = open.pop()!;
+    if (closed.has(index)) continue;
+    closed.add(index);
+
+    if (goalIndices.has(index)) {
+      const path: Position[] = [];
+      for (let at: number | undefined = index; at !== undefined; at = parent.get(at)) {
+        path.push({ x: at % width, y: Math.floor(at / width) });
+      }
+      return path.reverse();
+    }
+
+    const nextSteps = steps.get(index)! + 1;
+    if (nextSteps > maxSteps) continue;
+
+    const current = { x: index % width, y: Math.floor(index / width) };
+    for (const next of getAdjacentPositions(current, maze)) {
+      const nextIndex = next.y * width + next.x;
+      if (closed.has(nextIndex)) continue;
+
+      const nextCost = cost.get(index)! + 1 + getCellCost(costMap, next);
+      if (nextCost === Infinity || nextCost >= (cost.get(nextIndex) ?? Infinity)) continue;
+
+      cost.set(nextIndex, nextCost);
+      steps.set(nextIndex, nextSteps);
+      parent.set(nextIndex, index);
+      open.push(nextIndex, nextCost + heuristic(next));
+    }
+  }
+
+  return null;
+};
+
+/**
+ * A* from start to goal, start and goal included. Manhattan distance stays
+ * admissible because every step costs at least 1.
+ */
+export const findPathAStar = (
+  start: Position,
+  goal: Position,
+  maze: number[][],
+  options: PathOptions = {}
+): Position[] | null => {
+  return searchPath(start, [goal], maze, pos => getDistance(pos, goal), options);
+};
+
+/**
+ * Dijkstra from start to the cheapest of several goals, e.g. whichever exit
+ * or hiding spot is cheapest to reach under the cost map
+ */
+export const findPathDijkstra = (
+  start: Position,
+  goals: Position[],
+  maze: number[][],
+  options: PathOptions = {}
+): Position[] | null => {
+  return searchPath(start, goals, maze, () => 0, options);
+};
+
+/**
+ * Shortest path by steps, start and goal included
  */
 export const findPath = (
   start: Position, 
   goal: Position, 
   maze: number[][]
 ): Position[] | null => {
-  if (!isValidPosition(start.x, start.y, maze) || 
-      !isValidPosition(goal.x, goal.y, maze)) {
-    return null;
-  }
+  return findPathAStar(start, goal, maze);
+};
 
-  const queue: { pos: Position; path: Position[] }[] = [{ pos: start, path: [start] }];
-  const visited = new Set<string>();
-  
-  while (queue.length > 0) {
-    const { pos, path } = queue.shift()!;
-    const key = `${pos.x},${pos.y}`;
-    
-    if (visited.has(key)) continue;
-    visited.add(key);
-    
-    if (pos.x === goal.x && pos.y === goal.y) {
-      return path;
-    }
-    
-    const adjacent = getAdjacentPositions(pos, maze);
-    for (const nextPos of adjacent) {
-      const nextKey = `${nextPos.x},${nextPos.y}`;
-      if (!visited.has(nextKey)) {
-        queue.push({ 
-          pos: nextPos, 
-          path: [...path, nextPos] 
-        });
-      }
+/**
+ * First step along a path, or the start itself when already at the goal
+ */
+export const getNextStep = (path: Position[] | null): Position | null => {
+  if (!path || path.length === 0) return null;
+  return path.length > 1 ? path[1] : path[0];
+};
+
+/**
+ * Cost map of zeros with the maze's dimensions
+ */
+export const createCostMap = (maze: number[][]): number[][] => {
+  return maze.map(row => row.map(() => 0));
+};
+
+/**
+ * Make cells near any source dearer, `weight` at the source fading to 0 past
+ * `radius`; e.g. routes that keep away from enemies
+ */
+export const addProximityCost = (
+  costMap: number[][],
+  sources: Position[],
+  radius: number,
+  weight: number
+): number[][] => {
+  return costMap.map((row, y) => row.map((cost, x) => {
+    const nearest = sources.reduce((best, source) => Math.min(best, getDistance({ x, y }, source)), Infinity);
+    return nearest > radius ? cost : cost + weight * (1 - nearest / (radius + 1));
+  }));
+};
+
+/**
+ * Make visited cells dearer, so routes prefer cells not yet explored
+ */
+export const addVisitedCost = (
+  costMap: number[][],
+  visited: Position[],
+  weight: number
+): number[][] => {
+  const updated = costMap.map(row => [...row]);
+  visited.forEach(pos => {
+    if (updated[pos.y]?.[pos.x] !== undefined) {
+      updated[pos.y][pos.x] += weight;
     }
-  }
-  
-  return null; // No path found
+  });
+  return updated;
 };
 
 /**
- * Check if there's a clear line of sight between two positions
+ * Check if there's a clear line of sight between two positions. Every cell
+ * on the line must be open, both ends included, and a diagonal step can't
+ * squeeze between two walls that meet at a corner.
  */
 export const hasLineOfSight = (
   pos1: Position, 
@@ -226,25 +424,32 @@ export const hasLineOfSight = (
   let y = pos1.y;
   let error = dx - dy;
   
-  while (x !== pos2.x || y !== pos2.y) {
+  while (true) {
     if (!isValidPosition(x, y, maze)) {
       return false;
     }
+    if (x === pos2.x && y === pos2.y) {
+      return true;
+    }
     
     const error2 = 2 * error;
+    const moveX = error2 > -dy;
+    const moveY = error2 < dx;
+    
+    if (moveX && moveY && !isValidPosition(x + stepX, y, maze) && !isValidPosition(x, y + stepY, maze)) {
+      return false;
+    }
     
-    if (error2 > -dy) {
+    if (moveX) {
       error -= dy;
       x += stepX;
     }
     
-    if (error2 < dx) {
+    if (moveY) {
       error += dx;
       y += stepY;
     }
   }
-  
-  return true;
 };
 
 /**
@@ -0,0 +1,182 @@
+// src/utilities/fieldOfView.ts - Shadowcasting Field of View
+import type { Position } from '../types/game.types';
+import { isValidPosition } from './collision';
+
+// ==================== TYPES ====================
+
+export interface FieldOfViewOptions {
+  /** Furthest visible cell, by straight-line distance; unlimited when omitted */
+  radius?: number;
+  /** Direction the viewer faces, e.g. { x: 1, y: 0 }; sees all around when omitted */
+  facing?: Position;
+  /** Full width of the view cone in degrees, centered on `facing` */
+  coneAngle?: number;
+}
+
+/** Depth and column within one quadrant; depth runs away from the viewer */
+interface QuadrantCell {
+  depth: number;
+  col: number;
+}
+
+// ==================== CONSTANTS ====================
+
+/** North, east, south and west; each maps (depth, col) to a maze offset */
+const QUADRANTS = [
+  (cell: QuadrantCell): Position => ({ x: cell.col, y: -cell.depth }),
+  (cell: QuadrantCell): Position => ({ x: cell.depth, y: cell.col }),
+  (cell: QuadrantCell): Position => ({ x: cell.col, y: cell.depth }),
+  (cell: QuadrantCell): Position => ({ x: -cell.depth, y: cell.col })
+];
+
+// ==================== HELPERS ====================
+
+const cellKey = (pos: Position): string => `${pos.x},${pos.y}`;
+
+/** Slope of a cell's near edge, seen from the viewer */
+const getSlope = (cell: QuadrantCell): number => (2 * cell.col - 1) / (2 * cell.depth);
+
+/**
+ * Whether a floor cell's center lies inside the row's unshadowed span;
+ * keeps sight symmetric, so A seeing B means B sees A
+ */
+const isSymmetric = (cell: QuadrantCell, startSlope: number, endSlope: number): boolean => {
+  return cell.col >= cell.depth * startSlope && cell.col <= cell.depth * endSlope;
+};
+
+/**
+ * Symmetric shadowcasting over one quadrant. Walls are seen whenever any
+ * part of them is lit; floor only when its center is.
+ */
+const scanQuadrant = (
+  origin: Position,
+  maze: number[][],
+  maxDepth: number,
+  transform: (cell: QuadrantCell) => Position,
+  visible: Set<string>
+) => {
+  const toMaze = (cell: QuadrantCell): Position => {
+    const offset = transform(cell);
+    return { x: origin.x + offset.x, y: origin.y + offset.y };
+  };
+  const isWall = (cell: QuadrantCell | null): boolean => {
+    if (!cell) return false;
+    const pos = toMaze(cell);
+    return !isValidPosition(pos.x, pos.y, maze);
+  };
+
+  const rows = [{ depth: 1, startSlope: -1, endSlope: 1 }];
+  while (rows.length > 0) {
+    const row = rows.pop()!;
+    if (row.depth > maxDepth) continue;
+
+    const minCol = Math.floor(row.depth * row.startSlope + 0.5);
+    const maxCol = Math.ceil(row.depth * row.endSlope - 0.5);
+    let previous: QuadrantCell | null = null;
+
+    for (let col = minCol; col <= maxCol; col++) {
+      const cell = { depth: row.depth, col };
+      const wall = isWall(cell);
+
+      if (wall || isSymmetric(cell, row.startSlope, row.endSlope)) {
+        visible.add(cellKey(toMaze(cell)));
+      }
+      if (isWall(previous) && !wall) {
+        row.startSlope = getSlope(cell);
+      }
+      if (previous && !isWall(previous) && wall) {
+        rows.push({ depth: row.depth + 1, startSlope: row.startSlope, endSlope: getSlope(cell) });
+      }
+      previous = cell;
+    }
+
+    if (previous && !isWall(previous)) {
+      rows.push({ depth: row.depth + 1, startSlope: row.startSlope, endSlope: row.endSlope });
+    }
+  }
+};
+
+/**
+ * Whether the line between two cell centers squeezes through a point where
+ * two walls meet diagonally. Quadrants are cast apart, so a ray along their
+ * shared diagonal slips between walls that each quadrant sees only one of.
+ */
+const passesThroughPinch = (from: Position, to: Position, maze: number[][]): boolean => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  if (dx === 0 || dy === 0) return false;
+
+  const stepX = Math.sign(dx);
+  const stepY = Math.sign(dy);
+  for (let x = Math.min(from.x, to.x) + 1; x <= Math.max(from.x, to.x); x++) {
+    // The line meets a cell corner where it crosses x at a whole-number y
+    const twiceY = (2 * from.y + 1) + ((2 * (x - from.x) - 1) * dy) / dx;
+    if (!Number.isInteger(twiceY / 2)) continue;
+
+    const y = twiceY / 2;
+    const sideA = isValidPosition(stepX > 0 ? x : x - 1, stepY > 0 ? y - 1 : y, maze);
+    const sideB = isValidPosition(stepX > 0 ? x - 1 : x, stepY > 0 ? y : y - 1, maze);
+    if (!sideA && !sideB) return true;
+  }
+  return false;
+};
+
+/**
+ * Whether a cell lies inside the view cone
+ */
+const isInCone = (origin: Position, pos: Position, facing: Position, coneAngle: number): boolean => {
+  if (pos.x === origin.x && pos.y === origin.y) return true;
+  const angle = Math.atan2(pos.y - origin.y, pos.x - origin.x) - Math.atan2(facing.y, facing.x);
+  const offset = Math.abs(Math.atan2(Math.sin(angle), Math.cos(angle)));
+  return offset <= (coneAngle * Math.PI) / 360 + 1e-9;
+};
+
+// ==================== FIELD OF VIEW ====================
+
+/**
+ * Cells visible from `origin`, as "x,y" keys. Walls that bound the view are
+ * included, so a renderer can draw them; the origin is always visible.
+ */
+export const computeFieldOfView = (
+  origin: Position,
+  maze: number[][],
+  options: FieldOfViewOptions = {}
+): Set<string> => {
+  const { radius, facing, coneAngle = 360 } = options;
+  const maxDepth = radius ?? Math.max(maze.length, maze[0]?.length ?? 0);
+
+  const lit = new Set<string>();
+  QUADRANTS.forEach(transform => scanQuadrant(origin, maze, maxDepth, transform, lit));
+
+  const visible = new Set([cellKey(origin)]);
+  lit.forEach(key => {
+    const [x, y] = key.split(',').map(Number);
+    const pos = { x, y };
+    const inRange = radius === undefined || (x - origin.x) ** 2 + (y - origin.y) ** 2 <= radius * radius;
+    const inCone = !facing || coneAngle >= 360 || isInCone(origin, pos, facing, coneAngle);
+    if (inRange && inCone && !passesThroughPinch(origin, pos, maze)) {
+      visible.add(key);
+    }
+  });
+  return visible;
+};
+
+/**
+ * Whether a cell is in a computed field of view
+ */
+export const isCellVisible = (visible: Set<string>, pos: Position): boolean => {
+  return visible.has(cellKey(pos));
+};
+
+/**
+ * Whether `target` is within sight of `viewer`, under the same rules as the
+ * field of view
+ */
+export const canSee = (
+  viewer: Position,
+  target: Position,
+  maze: number[][],
+  options: FieldOfViewOptions = {}
+): boolean => {
+  return isCellVisible(computeFieldOfView(viewer, maze, options), target);
+};
@@ -8,6 +8,7 @@ export const GAME_CONFIG = {
   MIN_CELL_SIZE: 16,
   MAX_CELL_SIZE: 32,
   MOVE_COOLDOWN: 150,
+  TICK_INTERVAL: 100,
   ENEMY_MOVE_INTERVAL: {
     easy: 1200,
     normal: 800,
@@ -19,21 +20,96 @@ export const GAME_CONFIG = {
     LEVEL_COMPLETE: 500,
     PERFECT_BONUS: 1000
   },
+  ENDLESS: {
+    // Each value starts at `start` and moves by `step` every `every` levels until it reaches `limit`
+    SIZE: { start: 9, step: 2, every: 2, limit: 31 },
+    COLLECTIBLES: { start: 1, step: 1, every: 2, limit: 8 },
+    ENEMIES: { start: 0, step: 1, every: 2, limit: 8 },
+    // Multiplier on how often enemies move
+    ENEMY_SPEED: { start: 0.8, step: 0.1, every: 1, limit: 2 },
+    // Time limit as a multiple of par time
+    TIME_BUDGET: { start: 4, step: -0.1, every: 1, limit: 2 },
+    LOOPS: { start: 0, step: 2, every: 1, limit: 24 },
+    POWER_UPS: { start: 0, step: 1, every: 3, limit: 4 },
+    // Enemies never spawn closer than this to the player
+    SAFE_DISTANCE: 6
+  },
+  DAILY: {
+    SIZE: 19,
+    COLLECTIBLES: 5,
+    ENEMIES: 3,
+    LOOPS: 8,
+    // Time limit as a multiple of par time
+    TIME_BUDGET: 2.5,
+    SAFE_DISTANCE: 6,
+    // Generators the day's maze is picked from; fixed so every client picks alike
+    ALGORITHMS: ['backtracking', 'prim', 'kruskal', 'eller', 'wilson', 'hunt-and-kill']
+  },
+  CAMERA: {
+    // Share of the view around the center the player moves in freely
+    DEAD_ZONE: 0.3,
+    // Milliseconds for the camera to close most of the gap; lower is snappier
+    SMOOTHING_MS: 120,
+    // Cell size change per wheel notch
+    ZOOM_STEP: 1.15,
+    // Longest side of the minimap, in pixels
+    MINIMAP_SIZE: 120
+  },
+  FOG: {
+    // Torch radius limits in the settings, in cells
+    MIN_TORCH_RADIUS: 2,
+    MAX_TORCH_RADIUS: 9
+  },
+  POWER_UPS: {
+    // Milliseconds each timed effect lasts; the shield lasts until it takes a hit
+    DURATION_MS: {
+      speed: 5000,
+      freeze: 4000,
+      reveal: 4000
+    },
+    // Move cooldown multiplier while the speed boost lasts
+    SPEED_MULTIPLIER: 0.5,
+    // Seconds a time bonus puts back on the clock
+    TIME_BONUS: 15
+  },
+  RESPAWN: {
+    // Milliseconds after a respawn during which enemies pass harmlessly through the player
+    INVULNERABLE_MS: 2000
+  },
+  PAR: {
+    // Milliseconds per move on the optimal route; brisk but reachable
+    MOVE_TIME: 250,
+    // Worst of time and moves as a multiple of par that still earns the medal
+    MEDALS: {
+      gold: 1.1,
+      silver: 1.5
+    }
+  },
   DIFFICULTY_MODIFIERS: {
     easy: {
       timeMultiplier: 1.5,
       enemySpeed: 0.7,
-      chaseChance: 0.2
+      chaseChance: 0.2,
+      torchMultiplier: 1.4,
+      lives: 5,
+      // Points lost per life; never takes the score below zero
+      deathPenalty: 0
     },
     normal: {
       timeMultiplier: 1.0,
       enemySpeed: 1.0,
-      chaseChance: 0.3
+      chaseChance: 0.3,
+      torchMultiplier: 1.0,
+      lives: 3,
+      deathPenalty: 100
     },
     hard: {
       timeMultiplier: 0.8,
       enemySpeed: 1.3,
-      chaseChance: 0.4
+      chaseChance: 0.4,
+      torchMultiplier: 0.7,
+      lives: 1,
+      deathPenalty: 250
     }
   }
 };
@@ -88,11 +164,11 @@ export const LEVELS: Level[] = [
     id: 3,
     name: "Labyrinth Master",
     timeLimit: 120,
-    collectibles: 5,
+    collectibles: 4,
     enemyCount: 3,
     playerStart: { x: 1, y: 1 },
     exitPosition: { x: 13, y: 11 },
-    enemyPositions: [{ x: 4, y: 4 }, { x: 8, y: 6 }, { x: 10, y: 9 }],
+    enemyPositions: [{ x: 4, y: 5 }, { x: 8, y: 7 }, { x: 10, y: 9 }],
     maze: [
       [1,1,1,1,1,1,1,1,1,1,1,1,1,1,1],
       [1,0,0,0,1,0,0,0,0,0,1,0,0,4,1],
@@ -118,7 +194,10 @@ export const DEFAULT_SETTINGS = {
   difficulty: 'normal' as const,
   theme: 'default' as const,
   controlStyle: 'comfortable' as const,
-  animations: true
+  animations: true,
+  fogOfWar: false,
+  torchRadius: 5,
+  renderer: 'dom' as const
 };
 
 // Theme configurations
@@ -0,0 +1,141 @@
+// src/utilities/hazards.ts - Doors, Keys, Switches, Conveyors, Teleporters and Crumbling Floors
+import { type Position, CELL_TYPES } from '../types/game.types';
+
+// ==================== TYPES ====================
+
+/** Cells that come in one value per channel and act on others of that channel */
+export type ChannelKind = 'key' | 'door' | 'switch' | 'gateClosed' | 'gateOpen' | 'teleporter';
+
+export interface ChannelCell {
+  kind: ChannelKind;
+  channel: number;
+}
+
+export type ConveyorDirection = 'up' | 'down' | 'left' | 'right';
+
+// ==================== CONSTANTS ====================
+
+/**
+ * Channels by the color they're drawn in. A key opens the doors of its
+ * channel, a switch toggles its channel's gates, and teleporters pair up
+ * within a channel.
+ */
+export const CHANNEL_NAMES = ['Red', 'Blue', 'Green', 'Yellow'];
+
+/** The same in every theme, so a key always matches its door */
+export const CHANNEL_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#eab308'];
+
+const CHANNEL_BASES: Record<ChannelKind, number> = {
+  key: CELL_TYPES.KEY,
+  door: CELL_TYPES.DOOR,
+  switch: CELL_TYPES.SWITCH,
+  gateClosed: CELL_TYPES.GATE_CLOSED,
+  gateOpen: CELL_TYPES.GATE_OPEN,
+  teleporter: CELL_TYPES.TELEPORTER
+};
+
+export const CHANNEL_KINDS = Object.keys(CHANNEL_BASES) as ChannelKind[];
+
+export const CONVEYOR_CELLS: Record<ConveyorDirection, number> = {
+  up: CELL_TYPES.CONVEYOR_UP,
+  down: CELL_TYPES.CONVEYOR_DOWN,
+  left: CELL_TYPES.CONVEYOR_LEFT,
+  right: CELL_TYPES.CONVEYOR_RIGHT
+};
+
+const CONVEYOR_DIRECTIONS: Record<number, Position> = {
+  [CELL_TYPES.CONVEYOR_UP]: { x: 0, y: -1 },
+  [CELL_TYPES.CONVEYOR_DOWN]: { x: 0, y: 1 },
+  [CELL_TYPES.CONVEYOR_LEFT]: { x: -1, y: 0 },
+  [CELL_TYPES.CONVEYOR_RIGHT]: { x: 1, y: 0 }
+};
+
+// ==================== CELLS ====================
+
+/**
+ * Cell value of a channeled cell
+ */
+export const getChannelCell = (kind: ChannelKind, channel: number): number => {
+  return CHANNEL_BASES[kind] + channel;
+};
+
+/**
+ * Kind and channel of a channeled cell; null for any other cell
+ */
+export const getChannelCellInfo = (cell: number): ChannelCell | null => {
+  for (const kind of CHANNEL_KINDS) {
+    const channel = cell - CHANNEL_BASES[kind];
+    if (channel >= 0 && channel < CHANNEL_NAMES.length) {
+      return { kind, channel };
+    }
+  }
+  return null;
+};
+
+/**
+ * The way a conveyor points; null for any other cell
+ */
+export const getConveyorDirection = (cell: number): Position | null => {
+  return CONVEYOR_DIRECTIONS[cell] ?? null;
+};
+
+/**
+ * Whether nothing can walk into the cell: walls, doors and closed gates.
+ * A door opens for the player holding its key (see the engine).
+ */
+export const isBlockingCell = (cell: number): boolean => {
+  if (cell === CELL_TYPES.WALL) return true;
+  const info = getChannelCellInfo(cell);
+  return info?.kind === 'door' || info?.kind === 'gateClosed';
+};
+
+/**
+ * Whether the maze has any of the cells in this module; plain mazes can use
+ * the faster stateless searches
+ */
+export const hasHazards = (maze: number[][]): boolean => {
+  return maze.some(row => row.some(cell => cell >= CELL_TYPES.CONVEYOR_UP));
+};
+
+// ==================== RULES ====================
+
+/**
+ * Whether conveyors allow a step between neighboring cells: a conveyor can
+ * only be entered and left moving the way it points. Walls are not checked.
+ */
+export const isStepAllowed = (maze: number[][], from: Position, to: Position): boolean => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const goesAlong = (cell: number | undefined): boolean => {
+    const direction = cell === undefined ? null : getConveyorDirection(cell);
+    return !direction || (direction.x === dx && direction.y === dy);
+  };
+  return goesAlong(maze[from.y]?.[from.x]) && goesAlong(maze[to.y]?.[to.x]);
+};
+
+/**
+ * Where a teleporter sends the player: the other teleporter of its channel.
+ * Null for an unpaired teleporter or any other cell.
+ */
+export const findTeleportTarget = (maze: number[][], pos: Position): Position | null => {
+  const cell = maze[pos.y]?.[pos.x];
+  if (cell === undefined || getChannelCellInfo(cell)?.kind !== 'teleporter') return null;
+
+  for (let y = 0; y < maze.length; y++) {
+    for (let x = 0; x < maze[y].length; x++) {
+      if (maze[y][x] === cell && (x !== pos.x || y !== pos.y)) {
+        return { x, y };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Open a channel's closed gates and close its open ones
+ */
+export const toggleGates = (maze: number[][], channel: number): number[][] => {
+  const closed = getChannelCell('gateClosed', channel);
+  const open = getChannelCell('gateOpen', channel);
+  return maze.map(row => row.map(cell => cell === closed ? open : cell === open ? closed : cell));
+};
@@ -0,0 +1,344 @@
+// src/utilities/levelEditor.ts - Level Editing Operations
+import { type Position, type Level, type PowerUpType, CELL_TYPES } from '../types/game.types';
+import { isInBounds, isValidPosition, findCellPositions } from './collision';
+import {
+  cloneMaze,
+  countCells,
+  getMazeDimensions,
+  validateMaze,
+  isMazeSolvable,
+  findStartPosition
+} from './mazeUtilities';
+import { getLevelPar } from './levelPar';
+import { solvePuzzle } from './mazeSolver';
+import {
+  type ChannelKind,
+  type ConveyorDirection,
+  CHANNEL_NAMES,
+  CONVEYOR_CELLS,
+  getChannelCell,
+  hasHazards
+} from './hazards';
+import { POWER_UP_CELLS } from '../services/statusEffects';
+
+// ==================== TYPES ====================
+
+export type HazardTool = 'key' | 'door' | 'switch' | 'gate' | 'teleporter' | 'conveyor' | 'crumbling';
+export type EditorTool = 'wall' | 'path' | 'start' | 'exit' | 'collectible' | 'checkpoint' | 'enemy' | PowerUpType | HazardTool;
+export type PaintShape = 'pencil' | 'line' | 'rectangle';
+
+/** Settings for the tools that come in variants */
+export interface PaintOptions {
+  /** Channel of keys, doors, switches, gates and teleporters */
+  channel?: number;
+  /** Way conveyors point */
+  direction?: ConveyorDirection;
+}
+
+export interface LevelValidation {
+  isValid: boolean;
+  /** Problems that make the level unplayable */
+  errors: string[];
+  /** Playable, but probably not what the designer intended */
+  warnings: string[];
+}
+
+// ==================== CONSTANTS ====================
+
+/** Cell each plain painting tool lays down; the rest clear to path */
+const PAINTED_CELLS: Partial<Record<EditorTool, number>> = {
+  wall: CELL_TYPES.WALL,
+  collectible: CELL_TYPES.COLLECTIBLE,
+  checkpoint: CELL_TYPES.CHECKPOINT,
+  crumbling: CELL_TYPES.CRUMBLING,
+  ...POWER_UP_CELLS
+};
+
+/** Tools that paint a cell of the selected channel; gates start closed */
+const CHANNEL_TOOLS: Partial<Record<EditorTool, ChannelKind>> = {
+  key: 'key',
+  door: 'door',
+  switch: 'switch',
+  gate: 'gateClosed',
+  teleporter: 'teleporter'
+};
+
+/** Tools whose cells come in variants, and so take `PaintOptions` */
+export const isVariantTool = (tool: EditorTool): boolean => {
+  return tool === 'conveyor' || CHANNEL_TOOLS[tool] !== undefined;
+};
+
+// ==================== HELPERS ====================
+
+const samePosition = (a: Position, b: Position): boolean => a.x === b.x && a.y === b.y;
+
+/**
+ * Cells on a straight line between two cells (Bresenham), both ends included
+ */
+export const getLineCells = (from: Position, to: Position): Position[] => {
+  const cells: Position[] = [];
+  const dx = Math.abs(to.x - from.x);
+  const dy = -Math.abs(to.y - from.y);
+  const sx = from.x < to.x ? 1 : -1;
+  const sy = from.y < to.y ? 1 : -1;
+  let error = dx + dy;
+  let { x, y } = from;
+
+  for (;;) {
+    cells.push({ x, y });
+    if (x === to.x && y === to.y) return cells;
+
+    const doubled = 2 * error;
+    if (doubled >= dy) {
+      error += dy;
+      x += sx;
+    }
+    if (doubled <= dx) {
+      error += dx;
+      y += sy;
+    }
+  }
+};
+
+/**
+ * Every cell of the filled rectangle spanned by two opposite corners
+ */
+export const getRectangleCells = (from: Position, to: Position): Position[] => {
+  const cells: Position[] = [];
+  for (let y = Math.min(from.y, to.y); y <= Math.max(from.y, to.y); y++) {
+    for (let x = Math.min(from.x, to.x); x <= Math.max(from.x, to.x); x++) {
+      cells.push({ x, y });
+    }
+  }
+  return cells;
+};
+
+/**
+ * Recount the derived fields of a level after its layout changed
+ */
+const withDerivedFields = (level: Level, maze: number[][], enemyPositions: Position[]): Level => {
+  const exit = findCellPositions(maze, CELL_TYPES.EXIT)[0];
+  return {
+    ...level,
+    maze,
+    collectibles: countCells(maze, CELL_TYPES.COLLECTIBLE),
+    enemyPositions,
+    enemyCount: enemyPositions.length,
+    exitPosition: exit ?? level.exitPosition
+  };
+};
+
+// ==================== EDITING ====================
+
+/**
+ * An empty room: walls around the edge, open floor inside, start in the top
+ * left and exit in the bottom right
+ */
+export const createBlankLevel = (width: number, height: number, id = 0, name = 'Custom Level'): Level => {
+  const maze = Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x): number =>
+      x === 0 || y === 0 || x === width - 1 || y === height - 1 ? CELL_TYPES.WALL : CELL_TYPES.PATH
+    )
+  );
+  const exitPosition = { x: width - 2, y: height - 2 };
+  maze[exitPosition.y][exitPosition.x] = CELL_TYPES.EXIT;
+
+  return {
+    id,
+    name,
+    maze,
+    timeLimit: Math.max(30, Math.round((width * height) / 3)),
+    collectibles: 0,
+    enemyCount: 0,
+    enemyPositions: [],
+    playerStart: { x: 1, y: 1 },
+    exitPosition
+  };
+};
+
+/**
+ * Turn a maze with the start marked as a PLAYER cell (as the generators and
+ * exportMaze produce) into an editable level
+ */
+export const levelFromMaze = (maze: number[][], id = 0, name = 'Custom Level'): Level => {
+  const playerStart = findStartPosition(maze) ?? { x: 1, y: 1 };
+  const layout = cloneMaze(maze).map(row =>
+    row.map(cell => cell === CELL_TYPES.PLAYER || cell === CELL_TYPES.ENEMY ? CELL_TYPES.PATH : cell)
+  );
+  const enemyPositions = findCellPositions(maze, CELL_TYPES.ENEMY);
+  const { width, height } = getMazeDimensions(maze);
+
+  return withDerivedFields({
+    ...createBlankLevel(width, height, id, name),
+    playerStart
+  }, layout, enemyPositions);
+};
+
+/**
+ * The level's maze with the start marked as a PLAYER cell and enemy spawns
+ * as ENEMY cells, the format NFT level designs are stored in
+ */
+export const levelToMaze = (level: Level): number[][] => {
+  const maze = cloneMaze(level.maze);
+  level.enemyPositions.forEach(pos => {
+    maze[pos.y][pos.x] = CELL_TYPES.ENEMY;
+  });
+  maze[level.playerStart.y][level.playerStart.x] = CELL_TYPES.PLAYER;
+  return maze;
+};
+
+/**
+ * Cell a painting tool lays down
+ */
+const getPaintedCell = (tool: EditorTool, options: PaintOptions): number => {
+  const kind = CHANNEL_TOOLS[tool];
+  if (kind) return getChannelCell(kind, options.channel ?? 0);
+  if (tool === 'conveyor') return CONVEYOR_CELLS[options.direction ?? 'right'];
+  return PAINTED_CELLS[tool] ?? CELL_TYPES.PATH;
+};
+
+/**
+ * Apply a tool to a set of cells. Start and exit are unique, so only the last
+ * cell counts for them; the enemy tool toggles spawns. Painting a cell
+ * nothing can stand on clears whatever spawn was on it.
+ */
+export const paintCells = (level: Level, cells: Position[], tool: EditorTool, options: PaintOptions = {}): Level => {
+  const targets = cells.filter(pos => isInBounds(pos.x, pos.y, level.maze));
+  if (targets.length === 0) return level;
+
+  const maze = cloneMaze(level.maze);
+  let enemyPositions = level.enemyPositions;
+  let playerStart = level.playerStart;
+
+  switch (tool) {
+    case 'start': {
+      const target = targets[targets.length - 1];
+      if (!isValidPosition(target.x, target.y, maze)) {
+        maze[target.y][target.x] = CELL_TYPES.PATH;
+      }
+      playerStart = target;
+      enemyPositions = enemyPositions.filter(pos => !samePosition(pos, target));
+      break;
+    }
+    case 'exit': {
+      const target = targets[targets.length - 1];
+      findCellPositions(maze, CELL_TYPES.EXIT).forEach(pos => {
+        maze[pos.y][pos.x] = CELL_TYPES.PATH;
+      });
+      maze[target.y][target.x] = CELL_TYPES.EXIT;
+      break;
+    }
+    case 'enemy': {
+      const open = targets.filter(pos => isValidPosition(pos.x, pos.y, maze) && !samePosition(pos, playerStart));
+      const allSpawns = open.length > 0 && open.every(pos => enemyPositions.some(enemy => samePosition(enemy, pos)));
+      enemyPositions = allSpawns
+        ? enemyPositions.filter(enemy => !open.some(pos => samePosition(enemy, pos)))
+        : [...enemyPositions, ...open.filter(pos => !enemyPositions.some(enemy => samePosition(enemy, pos)))];
+      break;
+    }
+    default: {
+      const cellType = getPaintedCell(tool, options);
+      targets.forEach(pos => {
+        maze[pos.y][pos.x] = cellType;
+      });
+      enemyPositions = enemyPositions.filter(enemy => isValidPosition(enemy.x, enemy.y, maze));
+    }
+  }
+
+  return withDerivedFields({ ...level, playerStart }, maze, enemyPositions);
+};
+
+// ==================== VALIDATION ====================
+
+/**
+ * Everything that stops a level from being playable, plus a few likely
+ * mistakes. Builds on validateMaze with the level's own start, exit and spawns.
+ */
+export const validateLevel = (level: Level): LevelValidation => {
+  const { maze, playerStart, exitPosition, enemyPositions } = level;
+  const warnings: string[] = [];
+
+  // validateMaze finds the start from a PLAYER cell
+  const marked = cloneMaze(maze);
+  if (isInBounds(playerStart.x, playerStart.y, maze)) {
+    marked[playerStart.y][playerStart.x] = CELL_TYPES.PLAYER;
+  }
+  const { errors } = validateMaze(marked);
+
+  if (!isValidPosition(playerStart.x, playerStart.y, maze)) {
+    errors.push('The start must be on an open cell');
+  }
+  if (countCells(maze, CELL_TYPES.EXIT) > 1) {
+    errors.push('A level can only have one exit');
+  }
+  if (countCells(maze, CELL_TYPES.EXIT) > 0 && !isMazeSolvable(maze, playerStart, exitPosition)) {
+    errors.push('The exit cannot be reached from the start');
+  }
+  if (level.collectibles > countCells(maze, CELL_TYPES.COLLECTIBLE)) {
+    errors.push(`The level asks for ${level.collectibles} collectibles but only ${countCells(maze, CELL_TYPES.COLLECTIBLE)} are placed`);
+  }
+  if (enemyPositions.some(pos => !isValidPosition(pos.x, pos.y, maze))) {
+    errors.push('Enemies cannot spawn inside walls, doors or closed gates');
+  }
+
+  // Channeled cells only work alongside their counterparts
+  CHANNEL_NAMES.forEach((name, channel) => {
+    const count = (kind: ChannelKind) => countCells(maze, getChannelCell(kind, channel));
+    const teleporters = count('teleporter');
+    const gates = count('gateClosed') + count('gateOpen');
+    if (teleporters !== 0 && teleporters !== 2) {
+      errors.push(`${name} teleporters must come in a pair (found ${teleporters})`);
+    }
+    if (count('door') > 0 && count('key') === 0) {
+      warnings.push(`${name} doors have no key to open them`);
+    }
+    if (gates > 0 && count('switch') === 0) {
+      warnings.push(`${name} gates have no switch to toggle them`);
+    }
+    if (count('switch') > 0 && gates === 0) {
+      warnings.push(`${name} switches have no gates to toggle`);
+    }
+  });
+
+  const openEdge = maze.some((row, y) => row.some((cell, x) =>
+    cell !== CELL_TYPES.WALL && (x === 0 || y === 0 || x === row.length - 1 || y === maze.length - 1)));
+  if (openEdge) {
+    warnings.push('The outer edge has gaps; the grid border acts as the wall there');
+  }
+  if (enemyPositions.some(pos => Math.abs(pos.x - playerStart.x) + Math.abs(pos.y - playerStart.y) < 3)) {
+    warnings.push('An enemy spawns right next to the start');
+  }
+
+  if (errors.length === 0 && hasHazards(maze) && !solvePuzzle(maze, { start: playerStart, exit: exitPosition }).complete) {
+    warnings.push('Too many ways to combine the hazards to check the level can be finished');
+  }
+
+  const par = errors.length === 0 ? getLevelPar(level) : null;
+  if (par && par.timeMs / 1000 > level.timeLimit) {
+    warnings.push(`The time limit (${level.timeLimit}s) is shorter than par (${Math.ceil(par.timeMs / 1000)}s)`);
+  }
+
+  return { isValid: errors.length === 0, errors, warnings };
+};
+
+/**
+ * The level as a TypeScript object literal, ready to paste into LEVELS
+ */
+export const levelToSource = (level: Level): string => {
+  const position = (pos: Position) => `{ x: ${pos.x}, y: ${pos.y} }`;
+  return [
+    '{',
+    `  id: ${level.id},`,
+    `  name: ${JSON.stringify(level.name)},`,
+    `  timeLimit: ${level.timeLimit},`,
+    `  collectibles: ${level.collectibles},`,
+    `  enemyCount: ${level.enemyCount},`,
+    `  playerStart: ${position(level.playerStart)},`,
+    `  exitPosition: ${position(level.exitPosition)},`,
+    `  enemyPositions: [${level.enemyPositions.map(position).join(', ')}],`,
+    '  maze: [',
+    level.maze.map(row => `    [${row.join(',')}]`).join(',\n'),
+    '  ]',
+    '}'
+  ].join('\n');
+};
@@ -0,0 +1,50 @@
+// src/utilities/levelPar.ts - Par Times and Medals
+import type { Level, Medal } from '../types/game.types';
+import { GAME_CONFIG } from './gameConstant';
+import { solveMaze } from './mazeSolver';
+
+export interface LevelPar {
+  /** Moves on the shortest route through every collectible to the exit */
+  moves: number;
+  timeMs: number;
+}
+
+export const MEDAL_RANK: Record<Medal, number> = {
+  bronze: 1,
+  silver: 2,
+  gold: 3
+};
+
+const parCache = new WeakMap<Level, LevelPar | null>();
+
+/**
+ * Par for a level, computed once from its layout; null if it can't be solved
+ */
+export const getLevelPar = (level: Level): LevelPar | null => {
+  if (!parCache.has(level)) {
+    const solution = solveMaze(level.maze, { start: level.playerStart, exit: level.exitPosition });
+    parCache.set(level, solution && {
+      moves: solution.moves,
+      timeMs: solution.moves * GAME_CONFIG.PAR.MOVE_TIME
+    });
+  }
+  return parCache.get(level)!;
+};
+
+/**
+ * Medal for a completion, judged by whichever of time and moves is further
+ * off par. Every completion earns at least bronze.
+ */
+export const getMedal = (par: LevelPar, moves: number, timeMs: number): Medal => {
+  const ratio = Math.max(timeMs / Math.max(1, par.timeMs), moves / Math.max(1, par.moves));
+  if (ratio <= GAME_CONFIG.PAR.MEDALS.gold) return 'gold';
+  if (ratio <= GAME_CONFIG.PAR.MEDALS.silver) return 'silver';
+  return 'bronze';
+};
+
+/**
+ * Whether `candidate` outranks the medal already held, if any
+ */
+export const isBetterMedal = (candidate: Medal, current?: Medal | null): boolean => {
+  return !current || MEDAL_RANK[candidate] > MEDAL_RANK[current];
+};
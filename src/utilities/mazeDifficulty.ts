@@ -0,0 +1,163 @@
+// src/utilities/mazeDifficulty.ts - Maze Difficulty Analysis
+import { type Position, type Difficulty, CELL_TYPES } from '../types/game.types';
+import { GAME_CONFIG } from './gameConstant';
+import { getAdjacentPositions, findCellPositions } from './collision';
+import { findDeadEnds, findStartPosition } from './mazeUtilities';
+import { breadthFirstSearch, solveMaze } from './mazeSolver';
+
+// ==================== TYPES ====================
+
+export interface MazeRatingOptions {
+  start?: Position;
+  exit?: Position;
+  enemies?: Position[];
+  /** Seconds allowed for the level; without one, time pressure is ignored */
+  timeLimit?: number;
+  difficulty?: Difficulty;
+}
+
+export interface DifficultyRating {
+  /** Overall difficulty from 1 (trivial) to 10 (brutal) */
+  score: number;
+  solvable: boolean;
+  /** Moves needed to pick up every collectible and reach the exit */
+  solutionLength: number;
+  solution: Position[];
+  /** Side openings per cell along the solution */
+  branchingFactor: number;
+  deadEndCount: number;
+  averageDeadEndDepth: number;
+  maxDeadEndDepth: number;
+  /** 0 when enemies are nowhere near the solution, 1 when they sit on it */
+  enemyPressure: number;
+  /** Seconds to spare walking the solution at a typical pace, or null without a time limit */
+  timeSlack: number | null;
+  /** Each factor normalized to 0..1 before weighting */
+  factors: {
+    length: number;
+    branching: number;
+    deadEnds: number;
+    enemies: number;
+    time: number;
+  };
+}
+
+// ==================== CONSTANTS ====================
+
+const FACTOR_WEIGHTS = {
+  length: 0.25,
+  branching: 0.2,
+  deadEnds: 0.15,
+  enemies: 0.2,
+  time: 0.2
+};
+
+/** Realistic milliseconds per move for a player who knows the route */
+const PLAYER_PACE_MS = 350;
+/** Solution length (moves) that counts as maximally long */
+const LONG_SOLUTION = 150;
+/** Side openings per solution cell that count as maximally confusing */
+const HIGH_BRANCHING = 0.5;
+/** Dead-end corridor depth that counts as maximally deep */
+const DEEP_DEAD_END = 8;
+/** Share of open cells that are dead ends that counts as maximal */
+const HIGH_DEAD_END_RATIO = 0.15;
+
+// ==================== HELPERS ====================
+
+const cellKey = (pos: Position): string => `${pos.x},${pos.y}`;
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+
+/**
+ * Corridor length from a dead end back to the nearest junction
+ */
+const deadEndDepth = (maze: number[][], deadEnd: Position): number => {
+  let previous: Position | null = null;
+  let current = deadEnd;
+  let depth = 0;
+
+  for (;;) {
+    const onward = getAdjacentPositions(current, maze)
+      .filter(pos => !previous || cellKey(pos) !== cellKey(previous));
+    if (onward.length !== 1) return depth;
+
+    previous = current;
+    current = onward[0];
+    depth++;
+  }
+};
+
+// ==================== ANALYSIS ====================
+
+/**
+ * Rate how hard a maze is to clear: the shortest route through every
+ * collectible to the exit, how confusing that route is, how many dead ends
+ * lure the player away, how close enemies sit to it and how tight the clock is.
+ */
+export const rateMazeDifficulty = (maze: number[][], options: MazeRatingOptions = {}): DifficultyRating => {
+  const start = options.start ?? findStartPosition(maze) ?? { x: 1, y: 1 };
+  const exit = options.exit ?? findCellPositions(maze, CELL_TYPES.EXIT)[0];
+  const enemies = options.enemies ?? [];
+  const difficulty = options.difficulty ?? 'normal';
+
+  // Shortest route through every collectible to the exit
+  const solved = exit ? solveMaze(maze, { start, exit }) : null;
+  const solvable = solved !== null;
+  const solution = solved?.path ?? [];
+  const solutionLength = solved?.moves ?? 0;
+
+  // Side openings along the route, each cell counted once
+  const routeCells = new Map(solution.map(pos => [cellKey(pos), pos]));
+  const sideOpenings = [...routeCells.values()].reduce((sum, pos) =>
+    sum + getAdjacentPositions(pos, maze).filter(next => !routeCells.has(cellKey(next))).length, 0);
+  const branchingFactor = routeCells.size > 0 ? sideOpenings / routeCells.size : 0;
+
+  // Dead ends other than the start itself
+  const deadEnds = findDeadEnds(maze).filter(pos => cellKey(pos) !== cellKey(start));
+  const depths = deadEnds.map(pos => deadEndDepth(maze, pos));
+  const averageDeadEndDepth = depths.length > 0 ? depths.reduce((a, b) => a + b, 0) / depths.length : 0;
+  const maxDeadEndDepth = depths.length > 0 ? Math.max(...depths) : 0;
+  const openCells = maze.flat().filter(cell => cell !== CELL_TYPES.WALL).length;
+
+  // Enemies close to the route, weighted by how often they move
+  const { enemySpeed } = GAME_CONFIG.DIFFICULTY_MODIFIERS[difficulty];
+  const speedFactor = GAME_CONFIG.ENEMY_MOVE_INTERVAL.normal / GAME_CONFIG.ENEMY_MOVE_INTERVAL[difficulty] * enemySpeed;
+  const enemyPressure = clamp01(enemies.reduce((sum, enemy) => {
+    const { distance } = breadthFirstSearch(maze, enemy);
+    const nearest = Math.min(...[...routeCells.keys()].map(key => distance.get(key) ?? Infinity));
+    return sum + speedFactor / (1 + nearest);
+  }, 0) / 2);
+
+  const timeSlack = options.timeLimit !== undefined && solvable
+    ? options.timeLimit - (solutionLength * PLAYER_PACE_MS) / 1000
+    : null;
+
+  const factors = {
+    length: clamp01(solutionLength / LONG_SOLUTION),
+    branching: clamp01(branchingFactor / HIGH_BRANCHING),
+    deadEnds: clamp01(
+      ((openCells > 0 ? deadEnds.length / openCells / HIGH_DEAD_END_RATIO : 0) + averageDeadEndDepth / DEEP_DEAD_END) / 2
+    ),
+    enemies: enemyPressure,
+    time: timeSlack === null ? 0 : clamp01(1 - timeSlack / options.timeLimit!)
+  };
+
+  const weighted = (Object.keys(FACTOR_WEIGHTS) as (keyof typeof FACTOR_WEIGHTS)[])
+    .reduce((sum, key) => sum + FACTOR_WEIGHTS[key] * factors[key], 0);
+
+  return {
+    // An unsolvable maze cannot be beaten at all
+    score: solvable ? Math.max(1, Math.min(10, Math.round(1 + weighted * 9))) : 10,
+    solvable,
+    solutionLength,
+    solution,
+    branchingFactor,
+    deadEndCount: deadEnds.length,
+    averageDeadEndDepth,
+    maxDeadEndDepth,
+    enemyPressure,
+    timeSlack,
+    factors
+  };
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { CELL_TYPES } from '../types/game.types';
+import { listMazeGenerators } from './mazeGenerators';
+import { countCells, generateMaze, getReachablePositions } from './mazeUtilities';
+
+const SIZES: [number, number][] = [[15, 11], [21, 21], [8, 6]];
+const SEEDS = [1, 42, 987654321];
+
+describe.each(listMazeGenerators().map(generator => generator.name))('%s generator', name => {
+  it.each(SIZES)('carves a connected %ix%i maze with one exit', (width, height) => {
+    SEEDS.forEach(seed => {
+      const maze = generateMaze(width, height, 3, seed, name);
+      const open = maze.flat().filter(cell => cell !== CELL_TYPES.WALL).length;
+
+      expect(countCells(maze, CELL_TYPES.EXIT)).toBe(1);
+      expect(getReachablePositions(maze, { x: 1, y: 1 })).toHaveLength(open);
+    });
+  });
+
+  it('keeps the outer wall closed', () => {
+    const maze = generateMaze(15, 11, 3, 7, name);
+
+    expect(maze[0].every(cell => cell === CELL_TYPES.WALL)).toBe(true);
+    expect(maze[maze.length - 1].every(cell => cell === CELL_TYPES.WALL)).toBe(true);
+    expect(maze.every(row => row[0] === CELL_TYPES.WALL && row[row.length - 1] === CELL_TYPES.WALL)).toBe(true);
+  });
+
+  it('generates the same maze from the same seed', () => {
+    expect(generateMaze(21, 15, 4, 1234, name)).toEqual(generateMaze(21, 15, 4, 1234, name));
+  });
+});
@@ -0,0 +1,437 @@
+// src/utilities/mazeGenerators.ts - Pluggable Maze Generation Algorithms
+import { type Position, CELL_TYPES } from '../types/game.types';
+import type { SeededRandom } from '../services/random';
+
+// ==================== TYPES ====================
+
+/**
+ * A maze carving algorithm. `generate` receives odd dimensions and returns a
+ * grid of walls and paths only; rooms sit on odd coordinates and every room
+ * must be reachable from (1, 1).
+ */
+export interface MazeGenerator {
+  name: string;
+  label: string;
+  description: string;
+  generate: (width: number, height: number, rng: SeededRandom) => number[][];
+}
+
+export type MazeAlgorithm =
+  | 'backtracking'
+  | 'prim'
+  | 'kruskal'
+  | 'eller'
+  | 'wilson'
+  | 'hunt-and-kill'
+  | 'binary-tree'
+  | 'recursive-division';
+
+// ==================== GRID HELPERS ====================
+
+// Room coordinates (column, row) map to maze cell (2 * col + 1, 2 * row + 1)
+const ROOM_STEPS: Position[] = [
+  { x: 0, y: -1 }, // up
+  { x: 1, y: 0 },  // right
+  { x: 0, y: 1 },  // down
+  { x: -1, y: 0 }  // left
+];
+
+const createWalls = (width: number, height: number): number[][] => {
+  return Array(height).fill(null).map(() => Array(width).fill(CELL_TYPES.WALL));
+};
+
+const roomCounts = (width: number, height: number) => ({
+  cols: (width - 1) / 2,
+  rows: (height - 1) / 2
+});
+
+const carveRoom = (maze: number[][], room: Position) => {
+  maze[room.y * 2 + 1][room.x * 2 + 1] = CELL_TYPES.PATH;
+};
+
+const carvePassage = (maze: number[][], from: Position, to: Position) => {
+  carveRoom(maze, from);
+  carveRoom(maze, to);
+  maze[from.y + to.y + 1][from.x + to.x + 1] = CELL_TYPES.PATH;
+};
+
+const roomNeighbors = (room: Position, cols: number, rows: number): Position[] => {
+  return ROOM_STEPS
+    .map(step => ({ x: room.x + step.x, y: room.y + step.y }))
+    .filter(pos => pos.x >= 0 && pos.x < cols && pos.y >= 0 && pos.y < rows);
+};
+
+const roomKey = (room: Position, cols: number): number => room.y * cols + room.x;
+
+// ==================== ALGORITHMS ====================
+
+/**
+ * Depth-first search with an explicit stack; long winding corridors
+ */
+const backtracking: MazeGenerator = {
+  name: 'backtracking',
+  label: 'Recursive Backtracking',
+  description: 'Long, winding corridors with few branches',
+  generate: (width, height, rng) => {
+    const maze = createWalls(width, height);
+    const { cols, rows } = roomCounts(width, height);
+    const stack: Position[] = [{ x: 0, y: 0 }];
+    carveRoom(maze, stack[0]);
+
+    while (stack.length > 0) {
+      const current = stack[stack.length - 1];
+      const unvisited = roomNeighbors(current, cols, rows)
+        .filter(room => maze[room.y * 2 + 1][room.x * 2 + 1] === CELL_TYPES.WALL);
+
+      if (unvisited.length > 0) {
+        const next = rng.pick(unvisited);
+        carvePassage(maze, current, next);
+        stack.push(next);
+      } else {
+        stack.pop();
+      }
+    }
+
+    return maze;
+  }
+};
+
+/**
+ * Randomized Prim's algorithm; grows outward from a frontier
+ */
+const prim: MazeGenerator = {
+  name: 'prim',
+  label: "Prim's",
+  description: 'Many short branches and dead ends radiating from the start',
+  generate: (width, height, rng) => {
+    const maze = createWalls(width, height);
+    const { cols, rows } = roomCounts(width, height);
+    const inMaze = new Set<number>();
+    const frontier = new Map<number, Position>();
+
+    const addRoom = (room: Position) => {
+      inMaze.add(roomKey(room, cols));
+      frontier.delete(roomKey(room, cols));
+      carveRoom(maze, room);
+      roomNeighbors(room, cols, rows)
+        .filter(next => !inMaze.has(roomKey(next, cols)))
+        .forEach(next => frontier.set(roomKey(next, cols), next));
+    };
+
+    addRoom({ x: rng.nextInt(cols), y: rng.nextInt(rows) });
+
+    while (frontier.size > 0) {
+      const room = rng.pick([...frontier.values()]);
+      const connected = roomNeighbors(room, cols, rows)
+        .filter(next => inMaze.has(roomKey(next, cols)));
+      carvePassage(maze, rng.pick(connected), room);
+      addRoom(room);
+    }
+
+    return maze;
+  }
+};
+
+/**
+ * Randomized Kruskal's algorithm over a disjoint-set forest
+ */
+const kruskal: MazeGenerator = {
+  name: 'kruskal',
+  label: "Kruskal's",
+  description: 'Evenly spread, short passages with lots of junctions',
+  generate: (width, height, rng) => {
+    const maze = createWalls(width, height);
+    const { cols, rows } = roomCounts(width, height);
+    const parent = Array.from({ length: cols * rows }, (_, i) => i);
+
+    const find = (key: number): number => {
+      while (parent[key] !== key) {
+        parent[key] = parent[parent[key]];
+        key = parent[key];
+      }
+      return key;
+    };
+
+    const edges: [Position, Position][] = [];
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        carveRoom(maze, { x, y });
+        if (x + 1 < cols) edges.push([{ x, y }, { x: x + 1, y }]);
+        if (y + 1 < rows) edges.push([{ x, y }, { x, y: y + 1 }]);
+      }
+    }
+
+    for (const [a, b] of rng.shuffle(edges)) {
+      const rootA = find(roomKey(a, cols));
+      const rootB = find(roomKey(b, cols));
+      if (rootA !== rootB) {
+        parent[rootA] = rootB;
+        carvePassage(maze, a, b);
+      }
+    }
+
+    return maze;
+  }
+};
+
+/**
+ * Eller's algorithm; builds the maze one row at a time
+ */
+const eller: MazeGenerator = {
+  name: 'eller',
+  label: "Eller's",
+  description: 'Row-by-row construction with a horizontal grain',
+  generate: (width, height, rng) => {
+    const maze = createWalls(width, height);
+    const { cols, rows } = roomCounts(width, height);
+    let sets: (number | null)[] = Array(cols).fill(null);
+    let nextSet = 0;
+
+    for (let y = 0; y < rows; y++) {
+      const isLastRow = y === rows - 1;
+      sets = sets.map(set => set ?? nextSet++);
+
+      // Join neighbors in different sets; the last row must join all of them
+      for (let x = 0; x + 1 < cols; x++) {
+        if (sets[x] !== sets[x + 1] && (isLastRow || rng.next() < 0.5)) {
+          const merged = sets[x + 1];
+          sets = sets.map(set => set === merged ? sets[x] : set);
+          carvePassage(maze, { x, y }, { x: x + 1, y });
+        }
+      }
+
+      for (let x = 0; x < cols; x++) carveRoom(maze, { x, y });
+      if (isLastRow) break;
+
+      // Every set drops at least one passage to the next row
+      const nextSets: (number | null)[] = Array(cols).fill(null);
+      const members = new Map<number, number[]>();
+      sets.forEach((set, x) => members.set(set!, [...(members.get(set!) ?? []), x]));
+
+      members.forEach((columns, set) => {
+        const shuffled = rng.shuffle(columns);
+        shuffled.forEach((x, index) => {
+          if (index === 0 || rng.next() < 0.3) {
+            nextSets[x] = set;
+            carvePassage(maze, { x, y }, { x, y: y + 1 });
+          }
+        });
+      });
+
+      sets = nextSets;
+    }
+
+    return maze;
+  }
+};
+
+/**
+ * Wilson's algorithm; loop-erased random walks give an unbiased maze
+ */
+const wilson: MazeGenerator = {
+  name: 'wilson',
+  label: "Wilson's",
+  description: 'Uniformly random maze with no directional bias',
+  generate: (width, height, rng) => {
+    const maze = createWalls(width, height);
+    const { cols, rows } = roomCounts(width, height);
+    const inMaze = new Set<number>();
+    const remaining = rng.shuffle(
+      Array.from({ length: cols * rows }, (_, i) => ({ x: i % cols, y: Math.floor(i / cols) }))
+    );
+
+    const first = remaining.pop()!;
+    inMaze.add(roomKey(first, cols));
+    carveRoom(maze, first);
+
+    for (const start of remaining) {
+      if (inMaze.has(roomKey(start, cols))) continue;
+
+      // Walk until the maze is hit, remembering only the last exit from each room
+      const exits = new Map<number, Position>();
+      let current = start;
+      while (!inMaze.has(roomKey(current, cols))) {
+        const next = rng.pick(roomNeighbors(current, cols, rows));
+        exits.set(roomKey(current, cols), next);
+        current = next;
+      }
+
+      current = start;
+      while (!inMaze.has(roomKey(current, cols))) {
+        const next = exits.get(roomKey(current, cols))!;
+        inMaze.add(roomKey(current, cols));
+        carvePassage(maze, current, next);
+        current = next;
+      }
+    }
+
+    return maze;
+  }
+};
+
+/**
+ * Hunt-and-kill; random walks, then scans for a room next to the maze
+ */
+const huntAndKill: MazeGenerator = {
+  name: 'hunt-and-kill',
+  label: 'Hunt and Kill',
+  description: 'Long corridors like backtracking, with more river-like turns',
+  generate: (width, height, rng) => {
+    const maze = createWalls(width, height);
+    const { cols, rows } = roomCounts(width, height);
+    const visited = new Set<number>();
+    let current: Position | null = { x: rng.nextInt(cols), y: rng.nextInt(rows) };
+    visited.add(roomKey(current, cols));
+    carveRoom(maze, current);
+
+    while (current) {
+      const from: Position = current;
+      const unvisited = roomNeighbors(from, cols, rows)
+        .filter(room => !visited.has(roomKey(room, cols)));
+
+      if (unvisited.length > 0) {
+        const next = rng.pick(unvisited);
+        visited.add(roomKey(next, cols));
+        carvePassage(maze, from, next);
+        current = next;
+        continue;
+      }
+
+      // Hunt: first unvisited room that borders the maze
+      current = null;
+      for (let y = 0; y < rows && !current; y++) {
+        for (let x = 0; x < cols && !current; x++) {
+          if (visited.has(roomKey({ x, y }, cols))) continue;
+
+          const linked = roomNeighbors({ x, y }, cols, rows)
+            .filter(room => visited.has(roomKey(room, cols)));
+          if (linked.length > 0) {
+            current = { x, y };
+            visited.add(roomKey(current, cols));
+            carvePassage(maze, rng.pick(linked), current);
+          }
+        }
+      }
+    }
+
+    return maze;
+  }
+};
+
+/**
+ * Binary tree; every room opens either up or left
+ */
+const binaryTree: MazeGenerator = {
+  name: 'binary-tree',
+  label: 'Binary Tree',
+  description: 'Open top row and left column with a strong diagonal bias',
+  generate: (width, height, rng) => {
+    const maze = createWalls(width, height);
+    const { cols, rows } = roomCounts(width, height);
+
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        carveRoom(maze, { x, y });
+        const options: Position[] = [];
+        if (y > 0) options.push({ x, y: y - 1 });
+        if (x > 0) options.push({ x: x - 1, y });
+        if (options.length > 0) {
+          carvePassage(maze, { x, y }, rng.pick(options));
+        }
+      }
+    }
+
+    return maze;
+  }
+};
+
+/**
+ * Recursive division; starts open and adds walls with a single gap
+ */
+const recursiveDivision: MazeGenerator = {
+  name: 'recursive-division',
+  label: 'Recursive Division',
+  description: 'Long straight walls that split the maze into rooms',
+  generate: (width, height, rng) => {
+    const maze = createWalls(width, height);
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        maze[y][x] = CELL_TYPES.PATH;
+      }
+    }
+
+    // Chambers are inclusive ranges of maze cells; walls go on even lines
+    const chambers = [{ x1: 1, y1: 1, x2: width - 2, y2: height - 2 }];
+
+    while (chambers.length > 0) {
+      const { x1, y1, x2, y2 } = chambers.pop()!;
+      const chamberWidth = x2 - x1 + 1;
+      const chamberHeight = y2 - y1 + 1;
+      if (chamberWidth < 3 || chamberHeight < 3) continue;
+
+      const horizontal = chamberHeight > chamberWidth
+        || (chamberHeight === chamberWidth && rng.next() < 0.5);
+
+      if (horizontal) {
+        const wallY = y1 + 1 + 2 * rng.nextInt((chamberHeight - 1) / 2);
+        const gapX = x1 + 2 * rng.nextInt((chamberWidth + 1) / 2);
+        for (let x = x1; x <= x2; x++) {
+          if (x !== gapX) maze[wallY][x] = CELL_TYPES.WALL;
+        }
+        chambers.push({ x1, y1, x2, y2: wallY - 1 }, { x1, y1: wallY + 1, x2, y2 });
+      } else {
+        const wallX = x1 + 1 + 2 * rng.nextInt((chamberWidth - 1) / 2);
+        const gapY = y1 + 2 * rng.nextInt((chamberHeight + 1) / 2);
+        for (let y = y1; y <= y2; y++) {
+          if (y !== gapY) maze[y][wallX] = CELL_TYPES.WALL;
+        }
+        chambers.push({ x1, y1, x2: wallX - 1, y2 }, { x1: wallX + 1, y1, x2, y2 });
+      }
+    }
+
+    return maze;
+  }
+};
+
+// ==================== REGISTRY ====================
+
+const registry = new Map<string, MazeGenerator>();
+
+/**
+ * Make a generator selectable by its name; replaces any generator of the same name
+ */
+export const registerMazeGenerator = (generator: MazeGenerator): void => {
+  registry.set(generator.name, generator);
+};
+
+[
+  backtracking,
+  prim,
+  kruskal,
+  eller,
+  wilson,
+  huntAndKill,
+  binaryTree,
+  recursiveDivision
+].forEach(registerMazeGenerator);
+
+export const DEFAULT_MAZE_ALGORITHM: MazeAlgorithm = 'backtracking';
+
+/**
+ * Look up a generator by name, falling back to recursive backtracking
+ */
+export const getMazeGenerator = (name: string = DEFAULT_MAZE_ALGORITHM): MazeGenerator => {
+  const generator = registry.get(name);
+  if (!generator) {
+    console.warn(`Unknown maze algorithm "${name}", using ${DEFAULT_MAZE_ALGORITHM}`);
+    return registry.get(DEFAULT_MAZE_ALGORITHM)!;
+  }
+  return generator;
+};
+
+/**
+ * All registered generators, in registration order
+ */
+export const listMazeGenerators = (): MazeGenerator[] => {
+  return [...registry.values()];
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { type Position, CELL_TYPES } from '../types/game.types';
+import { breadthFirstSearch, solveMaze } from './mazeSolver';
+import { findCellPositions } from './collision';
+import { generateMaze } from './mazeUtilities';
+
+const { WALL: W, PATH: P, EXIT: E, COLLECTIBLE: C } = CELL_TYPES;
+
+/**
+ * A corridor with the exit at its left end. Nearest neighbor takes the star
+ * one step left first and walks the corridor twice: 1 + 6 + 9 = 16 moves.
+ * Fetching the far star first takes 5 + 6 + 3 = 14.
+ */
+const CORRIDOR = [
+  [W, W, W, W, W, W, W, W, W, W, W, W],
+  [W, E, P, P, C, P, P, P, P, P, C, W],
+  [W, W, W, W, W, W, W, W, W, W, W, W]
+];
+const CORRIDOR_START = { x: 5, y: 1 };
+
+const key = (pos: Position) => `${pos.x},${pos.y}`;
+
+/** Moves of the greedy route: always on to the closest star left, then the exit */
+const nearestNeighborMoves = (maze: number[][], start: Position): number => {
+  const exit = findCellPositions(maze, CELL_TYPES.EXIT)[0];
+  const remaining = findCellPositions(maze, CELL_TYPES.COLLECTIBLE);
+  let current = start;
+  let moves = 0;
+
+  while (remaining.length > 0) {
+    const { distance } = breadthFirstSearch(maze, current);
+    remaining.sort((a, b) => distance.get(key(a))! - distance.get(key(b))!);
+    const next = remaining.shift()!;
+    moves += distance.get(key(next))!;
+    current = next;
+  }
+  return moves + breadthFirstSearch(maze, current).distance.get(key(exit))!;
+};
+
+/** The path walks one open cell at a time and takes in every star on its way to the exit */
+const expectValidRoute = (maze: number[][], start: Position, path: Position[]) => {
+  expect(path[0]).toEqual(start);
+  expect(maze[path[path.length - 1].y][path[path.length - 1].x]).toBe(E);
+  path.slice(1).forEach((pos, i) => {
+    expect(Math.abs(pos.x - path[i].x) + Math.abs(pos.y - path[i].y)).toBe(1);
+    expect(maze[pos.y][pos.x]).not.toBe(W);
+  });
+
+  const walked = new Set(path.map(key));
+  findCellPositions(maze, CELL_TYPES.COLLECTIBLE).forEach(star => expect(walked.has(key(star))).toBe(true));
+};
+
+describe('solveMaze', () => {
+  it('beats nearest neighbor on the corridor fixture', () => {
+    const solution = solveMaze(CORRIDOR, { start: CORRIDOR_START });
+
+    expect(nearestNeighborMoves(CORRIDOR, CORRIDOR_START)).toBe(16);
+    expect(solution?.moves).toBe(14);
+    expect(solution?.exact).toBe(true);
+    expect(solution?.order).toEqual([{ x: 10, y: 1 }, { x: 4, y: 1 }]);
+    expectValidRoute(CORRIDOR, CORRIDOR_START, solution!.path);
+  });
+
+  it('matches or beats nearest neighbor when there are too many stars for the exact search', () => {
+    const maze = generateMaze(25, 25, 16, 2024);
+    const start = { x: 1, y: 1 };
+    const solution = solveMaze(maze, { start });
+
+    expect(solution?.exact).toBe(false);
+    expect(solution!.moves).toBeLessThanOrEqual(nearestNeighborMoves(maze, start));
+    expectValidRoute(maze, start, solution!.path);
+  });
+
+  it('returns null when a star cannot be reached', () => {
+    const maze = [
+      [W, W, W, W, W],
+      [W, P, E, W, C],
+      [W, W, W, W, W]
+    ];
+
+    expect(solveMaze(maze, { start: { x: 1, y: 1 } })).toBeNull();
+  });
+});
@@ -0,0 +1,351 @@
+// src/utilities/mazeSolver.ts - Optimal Route Through All Collectibles
+import { type Position, CELL_TYPES } from '../types/game.types';
+import { getAdjacentPositions, findCellPositions } from './collision';
+import { getChannelCellInfo, isBlockingCell, isStepAllowed, findTeleportTarget, hasHazards } from './hazards';
+
+// ==================== TYPES ====================
+
+export interface SolverOptions {
+  start?: Position;
+  exit?: Position;
+  /** Collectibles to pick up; defaults to every collectible cell in the maze */
+  collectibles?: Position[];
+  /** Channels of the keys already held; only matters in mazes with hazards */
+  keys?: number[];
+}
+
+export interface MazeSolution {
+  /** Every cell walked, from the start to the exit inclusive */
+  path: Position[];
+  moves: number;
+  /** Collectibles in the order they are picked up */
+  order: Position[];
+  /** False when the collectible order came from the heuristic rather than the exact search */
+  exact: boolean;
+}
+
+export interface PuzzleSolution {
+  /** Every cell walked or teleported to; null when there's no way through or the search gave up */
+  path: Position[] | null;
+  /** Steps taken; teleports don't count */
+  moves: number;
+  /** False when the search ran out of states before it could tell */
+  complete: boolean;
+}
+
+// ==================== CONSTANTS ====================
+
+/** Held-Karp is exact but exponential; beyond this many collectibles use the heuristic */
+const EXACT_COLLECTIBLE_LIMIT = 12;
+
+/** Hazards make the search run over layouts as well as cells; give up past this many states */
+const MAX_PUZZLE_STATES = 100_000;
+
+// ==================== SEARCH ====================
+
+const cellKey = (pos: Position): string => `${pos.x},${pos.y}`;
+
+/**
+ * BFS over open cells from a source; distances and predecessors by "x,y" key
+ */
+export const breadthFirstSearch = (maze: number[][], source: Position) => {
+  const distance = new Map<string, number>([[cellKey(source), 0]]);
+  const previous = new Map<string, Position>();
+  const queue: Position[] = [source];
+
+  for (let head = 0; head < queue.length; head++) {
+    const current = queue[head];
+    const currentDistance = distance.get(cellKey(current))!;
+
+    for (const next of getAdjacentPositions(current, maze)) {
+      if (distance.has(cellKey(next))) continue;
+      distance.set(cellKey(next), currentDistance + 1);
+      previous.set(cellKey(next), current);
+      queue.push(next);
+    }
+  }
+
+  return { distance, previous };
+};
+
+const tracePath = (previous: Map<string, Position>, source: Position, target: Position): Position[] => {
+  const path: Position[] = [target];
+  let current = target;
+  while (cellKey(current) !== cellKey(source)) {
+    current = previous.get(cellKey(current))!;
+    path.unshift(current);
+  }
+  return path;
+};
+
+// ==================== ORDERING ====================
+
+/**
+ * Length of start -> stops in order -> exit, where index 0 is the start and
+ * the last index the exit
+ */
+const routeLength = (distances: number[][], order: number[]): number => {
+  const exit = distances.length - 1;
+  const route = [0, ...order, exit];
+  let length = 0;
+  for (let i = 1; i < route.length; i++) {
+    length += distances[route[i - 1]][route[i]];
+  }
+  return length;
+};
+
+/**
+ * Held-Karp dynamic programming over subsets of collectibles; exact
+ */
+const exactOrder = (distances: number[][]): number[] => {
+  const count = distances.length - 2;
+  const exit = count + 1;
+  const full = (1 << count) - 1;
+
+  // cost[mask][i]: shortest walk from the start covering `mask`, ending at collectible i
+  const cost = Array.from({ length: full + 1 }, () => Array(count).fill(Infinity));
+  const parent = Array.from({ length: full + 1 }, () => Array(count).fill(-1));
+
+  for (let i = 0; i < count; i++) {
+    cost[1 << i][i] = distances[0][i + 1];
+  }
+
+  for (let mask = 1; mask <= full; mask++) {
+    for (let last = 0; last < count; last++) {
+      if (!(mask & (1 << last)) || cost[mask][last] === Infinity) continue;
+
+      for (let next = 0; next < count; next++) {
+        if (mask & (1 << next)) continue;
+        const nextMask = mask | (1 << next);
+        const candidate = cost[mask][last] + distances[last + 1][next + 1];
+        if (candidate < cost[nextMask][next]) {
+          cost[nextMask][next] = candidate;
+          parent[nextMask][next] = last;
+        }
+      }
+    }
+  }
+
+  let best = 0;
+  for (let last = 1; last < count; last++) {
+    if (cost[full][last] + distances[last + 1][exit] < cost[full][best] + distances[best + 1][exit]) {
+      best = last;
+    }
+  }
+
+  const order: number[] = [];
+  let mask = full;
+  let current = best;
+  while (current !== -1) {
+    order.unshift(current + 1);
+    const previous = parent[mask][current];
+    mask &= ~(1 << current);
+    current = previous;
+  }
+  return order;
+};
+
+/**
+ * Nearest neighbor tour improved with 2-opt; fast but not always optimal
+ */
+const heuristicOrder = (distances: number[][]): number[] => {
+  const remaining = new Set(Array.from({ length: distances.length - 2 }, (_, i) => i + 1));
+  const order: number[] = [];
+  let current = 0;
+
+  while (remaining.size > 0) {
+    const next = [...remaining].reduce((a, b) => distances[current][b] < distances[current][a] ? b : a);
+    order.push(next);
+    remaining.delete(next);
+    current = next;
+  }
+
+  // Reverse segments while that shortens the route
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+        if (routeLength(distances, candidate) < routeLength(distances, order)) {
+          order.splice(0, order.length, ...candidate);
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order;
+};
+
+// ==================== PUZZLES ====================
+
+/** Where the player is and everything they've changed on the way there */
+interface PuzzleState {
+  pos: Position;
+  /** Bit per key channel held */
+  keys: number;
+  /** Bit per switch channel toggled an odd number of times */
+  gates: number;
+  /** Bit per collectible (by index into the ones to pick up) taken */
+  stars: bigint;
+  /** Bit per crumbling cell (by index into the maze's crumbling cells) walked off */
+  crumbled: bigint;
+  /** Index of the state this one was reached from; -1 for the start */
+  previous: number;
+  /** The teleporter stepped onto, when the step ended in a teleport */
+  via?: Position;
+}
+
+const bit = (index: number): bigint => 1n << BigInt(index);
+
+/**
+ * Shortest walk through a maze with hazards, following the engine's rules:
+ * keys open their doors for good, switches toggle their gates, teleporters
+ * carry the player to their partner and crumbling floor turns to wall once
+ * left. The search covers every state those can be in, so it gives up (and
+ * says so) on puzzles with too many.
+ */
+export const solvePuzzle = (maze: number[][], options: SolverOptions = {}): PuzzleSolution => {
+  const start = options.start ?? findCellPositions(maze, CELL_TYPES.PLAYER)[0] ?? { x: 1, y: 1 };
+  const exit = options.exit ?? findCellPositions(maze, CELL_TYPES.EXIT)[0];
+  const collectibles = options.collectibles ?? findCellPositions(maze, CELL_TYPES.COLLECTIBLE);
+  if (!exit) return { path: null, moves: 0, complete: true };
+
+  const starIndex = new Map(collectibles.map((pos, index) => [cellKey(pos), index]));
+  const crumblingIndex = new Map(
+    findCellPositions(maze, CELL_TYPES.CRUMBLING).map((pos, index) => [cellKey(pos), index])
+  );
+  const allStars = bit(collectibles.length) - 1n;
+
+  // The cell as the player would find it in a given state
+  const cellAt = (state: PuzzleState, pos: Position): number | undefined => {
+    const cell = maze[pos.y]?.[pos.x];
+    if (cell === undefined) return undefined;
+
+    const crumbling = crumblingIndex.get(cellKey(pos));
+    if (crumbling !== undefined && state.crumbled & bit(crumbling)) return CELL_TYPES.WALL;
+
+    const info = getChannelCellInfo(cell);
+    if (!info) return cell;
+    const held = (state.keys & (1 << info.channel)) !== 0;
+    const toggled = (state.gates & (1 << info.channel)) !== 0;
+    if ((info.kind === 'key' || info.kind === 'door') && held) return CELL_TYPES.PATH;
+    if (info.kind === 'gateClosed' && toggled) return CELL_TYPES.PATH;
+    if (info.kind === 'gateOpen' && toggled) return CELL_TYPES.WALL;
+    return cell;
+  };
+
+  const stateKey = (state: PuzzleState): string =>
+    `${cellKey(state.pos)}|${state.keys}|${state.gates}|${state.stars.toString(36)}|${state.crumbled.toString(36)}`;
+
+  const initialKeys = (options.keys ?? []).reduce((keys, channel) => keys | (1 << channel), 0);
+  const states: PuzzleState[] = [{ pos: start, keys: initialKeys, gates: 0, stars: 0n, crumbled: 0n, previous: -1 }];
+  const seen = new Set([stateKey(states[0])]);
+
+  for (let head = 0; head < states.length; head++) {
+    const current = states[head];
+    if (current.pos.x === exit.x && current.pos.y === exit.y && current.stars === allStars) {
+      const path: Position[] = [];
+      let moves = 0;
+      for (let index = head; index > 0; index = states[index].previous) {
+        const { pos, via } = states[index];
+        path.unshift(...(via ? [via, pos] : [pos]));
+        moves++;
+      }
+      return { path: [start, ...path], moves, complete: true };
+    }
+
+    for (const dir of [{ x: 0, y: -1 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: 1, y: 0 }]) {
+      const to = { x: current.pos.x + dir.x, y: current.pos.y + dir.y };
+      const cell = cellAt(current, to);
+      const door = cell === undefined ? null : getChannelCellInfo(cell);
+      const unlocked = door?.kind === 'door' && (current.keys & (1 << door.channel)) !== 0;
+      if (cell === undefined || (isBlockingCell(cell) && !unlocked) || !isStepAllowed(maze, current.pos, to)) continue;
+
+      const next: PuzzleState = { ...current, pos: to, previous: head, via: undefined };
+      const crumbling = crumblingIndex.get(cellKey(current.pos));
+      if (crumbling !== undefined) next.crumbled |= bit(crumbling);
+      const star = starIndex.get(cellKey(to));
+      if (star !== undefined) next.stars |= bit(star);
+
+      const info = getChannelCellInfo(cell);
+      if (info?.kind === 'key') next.keys |= 1 << info.channel;
+      if (info?.kind === 'switch') next.gates ^= 1 << info.channel;
+      const target = info?.kind === 'teleporter' ? findTeleportTarget(maze, to) : null;
+      if (target) {
+        next.pos = target;
+        next.via = to;
+      }
+
+      const key = stateKey(next);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      states.push(next);
+      if (states.length > MAX_PUZZLE_STATES) {
+        return { path: null, moves: 0, complete: false };
+      }
+    }
+  }
+
+  return { path: null, moves: 0, complete: true };
+};
+
+// ==================== SOLVER ====================
+
+/**
+ * `solveMaze` for mazes with hazards, where the search itself orders the
+ * collectibles
+ */
+const solveHazardMaze = (maze: number[][], options: SolverOptions): MazeSolution | null => {
+  const { path, moves } = solvePuzzle(maze, options);
+  if (!path) return null;
+
+  const collectibles = options.collectibles ?? findCellPositions(maze, CELL_TYPES.COLLECTIBLE);
+  const remaining = new Set(collectibles.map(cellKey));
+  const order = path.filter(pos => remaining.delete(cellKey(pos)));
+
+  return { path, moves, order, exact: true };
+};
+
+/**
+ * Shortest walk from the start that picks up every collectible and then
+ * reaches the exit. Returns null when any of them cannot be reached.
+ * Mazes with hazards are left to `solvePuzzle`.
+ */
+export const solveMaze = (maze: number[][], options: SolverOptions = {}): MazeSolution | null => {
+  if (hasHazards(maze)) {
+    return solveHazardMaze(maze, options);
+  }
+
+  const start = options.start ?? findCellPositions(maze, CELL_TYPES.PLAYER)[0] ?? { x: 1, y: 1 };
+  const exit = options.exit ?? findCellPositions(maze, CELL_TYPES.EXIT)[0];
+  const collectibles = options.collectibles ?? findCellPositions(maze, CELL_TYPES.COLLECTIBLE);
+  if (!exit) return null;
+
+  // Distance matrix over start, collectibles and exit from one BFS per stop
+  const stops = [start, ...collectibles, exit];
+  const searches = stops.map(stop => breadthFirstSearch(maze, stop));
+  const distances = searches.map(search =>
+    stops.map(stop => search.distance.get(cellKey(stop)) ?? Infinity)
+  );
+  if (distances[0].some(distance => distance === Infinity)) return null;
+
+  const exact = collectibles.length <= EXACT_COLLECTIBLE_LIMIT;
+  const order = collectibles.length === 0 ? [] : exact ? exactOrder(distances) : heuristicOrder(distances);
+
+  const route = [0, ...order, stops.length - 1];
+  const path: Position[] = [start];
+  for (let i = 1; i < route.length; i++) {
+    const from = route[i - 1];
+    const to = route[i];
+    path.push(...tracePath(searches[from].previous, stops[from], stops[to]).slice(1));
+  }
+
+  return {
+    path,
+    moves: path.length - 1,
+    order: order.map(index => stops[index]),
+    exact
+  };
+};
@@ -1,6 +1,11 @@
 // src/utilities/mazeUtilities.ts - Maze Utility Functions
-import { type Position, CELL_TYPES } from '../types/game.types';
-import { isInBounds, findCellPositions } from './collision';
+import { type Position, type Level, type PowerUpType, CELL_TYPES } from '../types/game.types';
+import { isInBounds, findCellPositions, findSafePositions } from './collision';
+import { getMazeGenerator, DEFAULT_MAZE_ALGORITHM } from './mazeGenerators';
+import { solveMaze, solvePuzzle } from './mazeSolver';
+import { type ChannelKind, getChannelCell, hasHazards } from './hazards';
+import { SeededRandom, randomSeed } from '../services/random';
+import { POWER_UP_CELLS, POWER_UP_TYPES } from '../services/statusEffects';
 
 /**
  * Create a deep copy of a maze
@@ -84,6 +89,17 @@ export const validateMaze = (maze: number[][]): { isValid: boolean; errors: stri
     errors.push('Maze should have at least one collectible');
   }
   
+  // Every collectible and the exit must be reachable from the start
+  const start = findStartPosition(maze);
+  if (exits > 0 && start) {
+    // The stateful search for hazards may give up on a big puzzle; that isn't a failure
+    const puzzle = hasHazards(maze) ? solvePuzzle(maze, { start }) : null;
+    const solvable = puzzle ? puzzle.path !== null || !puzzle.complete : solveMaze(maze, { start }) !== null;
+    if (!solvable) {
+      errors.push('Not every collectible and exit can be reached from the start');
+    }
+  }
+  
   return { isValid: errors.length === 0, errors };
 };
 
@@ -124,64 +140,23 @@ export const findCollectiblePositions = (maze: number[][]): Position[] => {
 };
 
 /**
- * Generate random maze using recursive backtracking
+ * Generate a random maze with the named algorithm (recursive backtracking by
+ * default); the same seed and algorithm always produce the same maze
  */
 export const generateMaze = (
   width: number, 
   height: number, 
-  collectibles: number = 3
+  collectibles: number = 3,
+  seed: number = randomSeed(),
+  algorithm: string = DEFAULT_MAZE_ALGORITHM
 ): number[][] => {
+  const rng = new SeededRandom(seed);
+
   // Ensure odd dimensions for proper maze generation
   const w = width % 2 === 0 ? width + 1 : width;
   const h = height % 2 === 0 ? height + 1 : height;
   
-  // Initialize maze filled with walls
-  const maze: number[][] = Array(h).fill(null).map(() => Array(w).fill(CELL_TYPES.WALL));
-  
-  const stack: Position[] = [];
-  const start = { x: 1, y: 1 };
-  maze[start.y][start.x] = CELL_TYPES.PATH;
-  stack.push(start);
-  
-  const directions = [
-    { x: 0, y: -2 }, // up
-    { x: 2, y: 0 },  // right
-    { x: 0, y: 2 },  // down
-    { x: -2, y: 0 }  // left
-  ];
-  
-  while (stack.length > 0) {
-    const current = stack[stack.length - 1];
-    const neighbors: Position[] = [];
-    
-    // Find unvisited neighbors
-    for (const dir of directions) {
-      const nx = current.x + dir.x;
-      const ny = current.y + dir.y;
-      
-      if (nx > 0 && nx < w - 1 && ny > 0 && ny < h - 1) {
-        if (maze[ny][nx] === CELL_TYPES.WALL) {
-          neighbors.push({ x: nx, y: ny });
-        }
-      }
-    }
-    
-    if (neighbors.length > 0) {
-      // Choose random neighbor
-      const next = neighbors[Math.floor(Math.random() * neighbors.length)];
-      
-      // Carve path to neighbor
-      const wallX = current.x + (next.x - current.x) / 2;
-      const wallY = current.y + (next.y - current.y) / 2;
-      
-      maze[next.y][next.x] = CELL_TYPES.PATH;
-      maze[wallY][wallX] = CELL_TYPES.PATH;
-      
-      stack.push(next);
-    } else {
-      stack.pop();
-    }
-  }
+  const maze = getMazeGenerator(algorithm).generate(w, h, rng);
   
   // Add exit at bottom-right corner
   maze[h - 2][w - 2] = CELL_TYPES.EXIT;
@@ -197,7 +172,7 @@ export const generateMaze = (
   }
   
   // Shuffle and place collectibles
-  const shuffled = pathCells.sort(() => Math.random() - 0.5);
+  const shuffled = rng.shuffle(pathCells);
   const collectibleCount = Math.min(collectibles, shuffled.length);
   
   for (let i = 0; i < collectibleCount; i++) {
@@ -208,6 +183,75 @@ export const generateMaze = (
   return maze;
 };
 
+export interface ProceduralLevelOptions {
+  id: number;
+  name: string;
+  width: number;
+  height: number;
+  collectibles?: number;
+  enemyCount?: number;
+  timeLimit?: number;
+  algorithm?: string;
+  /** Extra openings knocked into the maze so it is not a perfect tree */
+  loops?: number;
+  /** Power-ups scattered over the maze, of random kinds */
+  powerUps?: number;
+  /** Enemies never spawn closer than this to the player */
+  safeDistance?: number;
+  /** Multiplier on how often the level's enemies move */
+  enemySpeed?: number;
+  seed?: number;
+}
+
+/**
+ * Build a playable level from a generated maze. Enemies spawn on open cells
+ * well away from the player, and the default time limit scales with size.
+ */
+export const generateLevel = (options: ProceduralLevelOptions): Level => {
+  const {
+    id,
+    name,
+    width,
+    height,
+    collectibles = 3,
+    enemyCount = 0,
+    algorithm = DEFAULT_MAZE_ALGORITHM,
+    loops = 0,
+    powerUps = 0,
+    safeDistance = 6,
+    seed = randomSeed()
+  } = options;
+
+  let maze = generateMaze(width, height, collectibles, seed, algorithm);
+  if (loops > 0) {
+    maze = addLoops(maze, loops, seed);
+  }
+
+  const { width: w, height: h } = getMazeDimensions(maze);
+  const playerStart = { x: 1, y: 1 };
+  const exitPosition = { x: w - 2, y: h - 2 };
+  maze = placePowerUps(maze, powerUps, playerStart, seed);
+
+  // Enemy placement draws from its own stream so it doesn't disturb the layout
+  const rng = new SeededRandom(seed ^ 0x5bd1e995);
+  const spawnCells = findSafePositions(maze, [playerStart], safeDistance)
+    .filter(pos => maze[pos.y][pos.x] === CELL_TYPES.PATH);
+  const enemyPositions = rng.shuffle(spawnCells).slice(0, enemyCount);
+
+  return {
+    id,
+    name,
+    maze,
+    timeLimit: options.timeLimit ?? Math.max(30, Math.round((w * h) / 3)),
+    collectibles: Math.min(collectibles, countCells(maze, CELL_TYPES.COLLECTIBLE)),
+    enemyCount: enemyPositions.length,
+    enemyPositions,
+    playerStart,
+    exitPosition,
+    ...(options.enemySpeed !== undefined && { enemySpeed: options.enemySpeed })
+  };
+};
+
 /**
  * Check if maze is solvable from start to exit
  */
@@ -216,6 +260,12 @@ export const isMazeSolvable = (maze: number[][], start: Position, exit: Position
     return false;
   }
   
+  // Hazards need the stateful search; a puzzle too big to settle gets the benefit of the doubt
+  if (hasHazards(maze)) {
+    const { path, complete } = solvePuzzle(maze, { start, exit, collectibles: [] });
+    return path !== null || !complete;
+  }
+  
   const visited = new Set<string>();
   const queue: Position[] = [start];
   
@@ -340,7 +390,12 @@ export const removeDeadEnds = (maze: number[][]): number[][] => {
 /**
  * Add loops to make maze less linear
  */
-export const addLoops = (maze: number[][], loopCount: number = 3): number[][] => {
+export const addLoops = (
+  maze: number[][],
+  loopCount: number = 3,
+  seed: number = randomSeed()
+): number[][] => {
+  const rng = new SeededRandom(seed);
   const modifiedMaze = cloneMaze(maze);
   const { width, height } = getMazeDimensions(maze);
   
@@ -348,8 +403,8 @@ export const addLoops = (maze: number[][], loopCount: number = 3): number[][] =>
     // Find random wall to potentially remove
     let attempts = 0;
     while (attempts < 50) { // Prevent infinite loops
-      const x = 1 + Math.floor(Math.random() * (width - 2));
-      const y = 1 + Math.floor(Math.random() * (height - 2));
+      const x = 1 + rng.nextInt(width - 2);
+      const y = 1 + rng.nextInt(height - 2);
       
       if (modifiedMaze[y][x] === CELL_TYPES.WALL) {
         // Check if removing this wall would connect two different areas
@@ -373,6 +428,31 @@ export const addLoops = (maze: number[][], loopCount: number = 3): number[][] =>
   return modifiedMaze;
 };
 
+/**
+ * Scatter `count` power-ups, each of a random kind, over open path cells
+ * other than the start. Draws from its own stream, so the layout generated
+ * from the same seed is unchanged.
+ */
+export const placePowerUps = (
+  maze: number[][],
+  count: number,
+  playerStart: Position,
+  seed: number = randomSeed(),
+  types: PowerUpType[] = POWER_UP_TYPES
+): number[][] => {
+  if (count <= 0 || types.length === 0) return maze;
+
+  const rng = new SeededRandom(seed ^ 0x2545f491);
+  const modifiedMaze = cloneMaze(maze);
+  const cells = findCellPositions(maze, CELL_TYPES.PATH)
+    .filter(pos => pos.x !== playerStart.x || pos.y !== playerStart.y);
+
+  rng.shuffle(cells).slice(0, count).forEach(pos => {
+    modifiedMaze[pos.y][pos.x] = POWER_UP_CELLS[rng.pick(types)];
+  });
+  return modifiedMaze;
+};
+
 /**
  * Scale maze up or down
  */
@@ -479,6 +559,25 @@ export const getMazeStatistics = (maze: number[][]): {
   };
 };
 
+/** Symbols for hazard cells; channeled cells take one symbol per channel, in channel order */
+const HAZARD_SYMBOLS: Record<number, string> = {
+  [CELL_TYPES.CONVEYOR_UP]: '↑',
+  [CELL_TYPES.CONVEYOR_DOWN]: '↓',
+  [CELL_TYPES.CONVEYOR_LEFT]: '←',
+  [CELL_TYPES.CONVEYOR_RIGHT]: '→',
+  [CELL_TYPES.CRUMBLING]: '░',
+  ...Object.fromEntries(([
+    ['key', 'klmn'],
+    ['door', 'KLMN'],
+    ['switch', 'wxyz'],
+    ['gateClosed', 'GHIJ'],
+    ['gateOpen', 'ghij'],
+    ['teleporter', '0123']
+  ] as [ChannelKind, string][]).flatMap(([kind, symbols]) =>
+    [...symbols].map((symbol, channel) => [getChannelCell(kind, channel), symbol])
+  ))
+};
+
 /**
  * Convert maze to string representation for debugging
  */
@@ -488,7 +587,14 @@ export const mazeToString = (maze: number[][], symbols: Record<number, string> =
   [CELL_TYPES.PLAYER]: 'P',
   [CELL_TYPES.EXIT]: 'E',
   [CELL_TYPES.COLLECTIBLE]: '*',
-  [CELL_TYPES.ENEMY]: 'X'
+  [CELL_TYPES.ENEMY]: 'X',
+  [CELL_TYPES.CHECKPOINT]: 'C',
+  [CELL_TYPES.SPEED_BOOST]: '>',
+  [CELL_TYPES.FREEZE]: 'F',
+  [CELL_TYPES.SHIELD]: 'S',
+  [CELL_TYPES.TIME_BONUS]: 'T',
+  [CELL_TYPES.REVEAL]: 'R',
+  ...HAZARD_SYMBOLS
 }): string => {
   return maze.map(row => 
     row.map(cell => symbols[cell] || '?').join('')
@@ -504,7 +610,14 @@ export const stringToMaze = (mazeString: string, symbolMap: Record<string, numbe
   'P': CELL_TYPES.PLAYER,
   'E': CELL_TYPES.EXIT,
   '*': CELL_TYPES.COLLECTIBLE,
-  'X': CELL_TYPES.ENEMY
+  'X': CELL_TYPES.ENEMY,
+  'C': CELL_TYPES.CHECKPOINT,
+  '>': CELL_TYPES.SPEED_BOOST,
+  'F': CELL_TYPES.FREEZE,
+  'S': CELL_TYPES.SHIELD,
+  'T': CELL_TYPES.TIME_BONUS,
+  'R': CELL_TYPES.REVEAL,
+  ...Object.fromEntries(Object.entries(HAZARD_SYMBOLS).map(([cell, symbol]) => [symbol, Number(cell)]))
 }): number[][] => {
   return mazeString.trim().split('\n').map(row =>
     row.split('').map(char => symbolMap[char] ?? CELL_TYPES.WALL)
@@ -512,13 +625,14 @@ export const stringToMaze = (mazeString: string, symbolMap: Record<string, numbe
 };
 
 /**
- * Export maze as JSON
+ * Export maze as JSON, recording the generation seed when one is known
  */
-export const exportMaze = (maze: number[][], metadata: any = {}): string => {
+export const exportMaze = (maze: number[][], metadata: any = {}, seed?: number): string => {
   const mazeData = {
     maze,
     metadata: {
       ...metadata,
+      ...(seed !== undefined && { seed }),
       generated: new Date().toISOString(),
       dimensions: getMazeDimensions(maze),
       statistics: getMazeStatistics(maze)